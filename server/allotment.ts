@@ -0,0 +1,198 @@
+import { withRetry, httpStatusError, type RetryOptions } from './retry';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type AllotmentStatus =
+  | 'allotted'
+  | 'not_allotted'
+  /** Applied, but the result isn't out yet */
+  | 'pending'
+  /** No application for the company on this account */
+  | 'not_applied';
+
+export interface AllotmentResult {
+  account: string;
+  companyName: string;
+  status: AllotmentStatus;
+  /** Kitta applied for, when the Application Report showed it */
+  appliedKitta?: number;
+  /** Kitta allotted: 0 when not allotted, left out when the provider didn't say */
+  allottedKitta?: number;
+  message: string;
+  /** Provider the result came from */
+  provider: string;
+}
+
+/** The account's Application Report entry for the company, as either engine read it */
+export interface ReportedApplication {
+  companyName: string;
+  status: string;
+  remarks?: string;
+  appliedKitta?: number;
+  /** Meroshare's "received kitta", once the result is published */
+  receivedKitta?: number;
+}
+
+export interface AllotmentQuery {
+  companyName: string;
+  /** Null when the account never applied for the company */
+  report: ReportedApplication | null;
+  /** The 16-digit BOID (demat number), when it could be read */
+  boid?: string;
+}
+
+export type AllotmentCheck = Pick<AllotmentResult, 'status' | 'allottedKitta' | 'message'>;
+
+/** Where allotment results come from. Register another with registerAllotmentProvider to swap it in. */
+export interface AllotmentProvider {
+  name: string;
+  check(query: AllotmentQuery, retry: RetryOptions): Promise<AllotmentCheck>;
+}
+
+// ── Application Report Provider ──────────────────────────────────────────────
+
+/** Report statuses that mean the application was turned down before the draw */
+const REJECTED_STATUS = /reject|fail|invalid|cancel|block/i;
+
+/** "Alloted 10 kitta" — older results only give the number in the remarks */
+function kittaFromRemarks(remarks: string | undefined): number | undefined {
+  const match = remarks?.match(/(\d[\d,]*)\s*(kitta|units?)/i);
+  return match ? Number(match[1].replace(/,/g, '')) : undefined;
+}
+
+/** Reads the result Meroshare writes into the Application Report — "Alloted" / "Not Alloted" */
+export function judgeReportedAllotment(report: ReportedApplication | null): AllotmentCheck {
+  if (!report) return { status: 'not_applied', message: 'No application in the Application Report' };
+
+  const { status, remarks, receivedKitta } = report;
+  // Meroshare spells it "Alloted"; checked before "allot" since it contains it
+  if (/not\s*allott?ed/i.test(status)) {
+    return { status: 'not_allotted', allottedKitta: 0, message: `Application Report shows "${status}"` };
+  }
+  if (/allott?ed/i.test(status)) {
+    const allottedKitta = receivedKitta ?? kittaFromRemarks(remarks);
+    const kitta = allottedKitta !== undefined ? ` — ${allottedKitta} kitta` : '';
+    return { status: 'allotted', allottedKitta, message: `Application Report shows "${status}"${kitta}` };
+  }
+  if (REJECTED_STATUS.test(status)) {
+    return { status: 'not_allotted', allottedKitta: 0, message: `Application was not accepted: "${status}"` };
+  }
+  return { status: 'pending', message: `Result not published yet (Application Report shows "${status}")` };
+}
+
+export const reportProvider: AllotmentProvider = {
+  name: 'report',
+  check: async ({ report }) => judgeReportedAllotment(report),
+};
+
+// ── Result Endpoint Provider ─────────────────────────────────────────────────
+
+/** The result-checking endpoint (ALLOTMENT_RESULT_URL) */
+export function getAllotmentResultUrl(): string {
+  return process.env.ALLOTMENT_RESULT_URL || '';
+}
+
+/**
+ * Asks a result-checking endpoint: POST `{ boid, companyName }` to
+ * ALLOTMENT_RESULT_URL, answered with `{ allotted, quantity?, message? }`, or
+ * 404 while the result isn't published. The Application Report still decides
+ * whether the account applied at all.
+ */
+export const resultEndpointProvider: AllotmentProvider = {
+  name: 'result-endpoint',
+  async check({ companyName, report, boid }, retry) {
+    if (!report) return judgeReportedAllotment(null);
+    const url = getAllotmentResultUrl();
+    if (!url) throw new Error('ALLOTMENT_RESULT_URL is not set');
+    if (!boid) throw new Error('Could not read the BOID to check the result with');
+
+    return withRetry<AllotmentCheck>('allotment', async () => {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ boid, companyName }),
+        signal: AbortSignal.timeout(15000),
+      });
+      if (res.status === 404) return { status: 'pending', message: 'Result not published yet' };
+      if (!res.ok) throw httpStatusError(res.status, `Result check answered ${res.status} ${res.statusText}`);
+
+      const body = await res.json() as { allotted?: unknown; quantity?: unknown; message?: unknown };
+      if (typeof body.allotted !== 'boolean') throw new Error('Result check answered without "allotted"');
+      const quantity = typeof body.quantity === 'number' ? body.quantity : undefined;
+      const message = typeof body.message === 'string' && body.message
+        ? body.message
+        : body.allotted ? 'Allotted' : 'Not allotted';
+      return body.allotted
+        ? { status: 'allotted', allottedKitta: quantity, message }
+        : { status: 'not_allotted', allottedKitta: 0, message };
+    }, retry);
+  },
+};
+
+// ── Registry ─────────────────────────────────────────────────────────────────
+
+const providers = new Map<string, AllotmentProvider>([
+  [reportProvider.name, reportProvider],
+  [resultEndpointProvider.name, resultEndpointProvider],
+]);
+
+/** Add a provider, or replace the one with the same name (e.g. with a local stub) */
+export function registerAllotmentProvider(provider: AllotmentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function listAllotmentProviders(): string[] {
+  return [...providers.keys()];
+}
+
+/** Provider used when a request doesn't pick one. Set ALLOTMENT_PROVIDER to change it. */
+export function getDefaultAllotmentProvider(): AllotmentProvider {
+  return providers.get(process.env.ALLOTMENT_PROVIDER || '') ?? reportProvider;
+}
+
+/** Resolve a request's `provider` field; null if it names an unknown provider */
+export function resolveAllotmentProvider(value: unknown): AllotmentProvider | null {
+  if (value === undefined || value === null || value === '') return getDefaultAllotmentProvider();
+  return typeof value === 'string' ? providers.get(value) ?? null : null;
+}
+
+// ── Checking ─────────────────────────────────────────────────────────────────
+
+/** Ask the provider about one account's application and put the answer together */
+export async function checkAllotment(
+  account: string,
+  provider: AllotmentProvider,
+  query: AllotmentQuery,
+  retry: RetryOptions,
+): Promise<AllotmentResult> {
+  const check = await provider.check(query, retry);
+  return {
+    account,
+    companyName: query.report?.companyName ?? query.companyName,
+    appliedKitta: query.report?.appliedKitta,
+    ...check,
+    provider: provider.name,
+  };
+}
+
+/** Short label for account statuses, e.g. "Allotted 10 kitta" */
+export function describeAllotment(result: AllotmentResult): string {
+  switch (result.status) {
+    case 'allotted':
+      return result.allottedKitta !== undefined ? `Allotted ${result.allottedKitta} kitta` : 'Allotted';
+    case 'not_allotted': return 'Not allotted';
+    case 'pending': return 'Result not published yet';
+    case 'not_applied': return 'Did not apply';
+  }
+}
+
+/** One line for the whole family, e.g. "2 of 4 account(s) allotted — 20 kitta in total" */
+export function summarizeAllotments(results: AllotmentResult[]): string {
+  const allotted = results.filter((r) => r.status === 'allotted');
+  const applied = results.filter((r) => r.status !== 'not_applied').length;
+  const kitta = allotted.reduce((sum, r) => sum + (r.allottedKitta ?? 0), 0);
+  const pending = results.filter((r) => r.status === 'pending').length;
+  let line = `${allotted.length} of ${applied} applied account(s) allotted — ${kitta} kitta in total`;
+  if (pending > 0) line += ` (${pending} still waiting for the result)`;
+  return line;
+}
@@ -0,0 +1,843 @@
+import {
+  checkpoint, emitFailure, dedupeLogins, runForEachLoggedInAccount, describeScan, reportIssueMatrix, reportDryRun, findPreferred,
+  finishApply, reportApplyResult, needsVerification, retryOptions, recordReceipt,
+  type AutomationEvent, type AutomationOptions, type AccountSession, type Credential, type IssueInfo, type ApplicationPreview,
+} from './automation';
+import {
+  MeroshareApiClient, MeroshareApiError, type ApplicableIssue, type ApplyRequest, type BankAccount, type IssueDetail, type OwnDetail,
+  type PortfolioItem, type TransactionItem, type PurchaseItem, type ApplicationReport, type ApplicationReportDetail,
+} from './meroshare-api';
+import { getApiToken, saveApiToken, invalidateSession } from './sessions';
+import { createLimiter, getBulkConcurrency } from './pool';
+import { issueId, matchesIssueId, sameCompany, validateKitta } from './issues';
+import {
+  classifyApplyResult, messageFromBody, judgeReportEntry, verificationFailed, type ApplyResult, type Verification,
+} from './apply-result';
+import { withRetry } from './retry';
+import {
+  checkAllotment, describeAllotment, summarizeAllotments,
+  type AllotmentProvider, type AllotmentResult, type ReportedApplication,
+} from './allotment';
+import { describePortfolio, summarizeFamilyPortfolio, type Holding } from './portfolio';
+import type { ReportRecord } from './report-export';
+import {
+  saveTransactionHistory, calculateWacc, describeImport, quantityOf, rateOf, sortTransactions,
+  type Transaction, type PurchaseSource, type TransactionHistory,
+} from './transactions';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * The web app shows an Apply button only while `action` is unset; it becomes
+ * "edit" after applying and "inProcess" while the application is processed.
+ */
+function canApply(issue: ApplicableIssue): boolean {
+  return !issue.action;
+}
+
+function toIssueInfo(issue: ApplicableIssue, detail?: IssueDetail | null): IssueInfo {
+  const fields = {
+    name: issue.companyName,
+    shareType: issue.shareTypeName || 'N/A',
+    shareGroup: issue.shareGroupName || 'N/A',
+  };
+  return {
+    id: issueId(fields, issue.companyShareId),
+    ...fields,
+    subGroup: issue.subGroup || 'N/A',
+    hasApplyButton: canApply(issue),
+    openDate: detail?.issueOpenDate || issue.issueOpenDate,
+    closeDate: detail?.issueCloseDate || issue.issueCloseDate,
+    pricePerUnit: detail?.sharePerUnit,
+    minUnit: detail?.minUnit,
+    maxUnit: detail?.maxUnit,
+    multipleOf: detail?.multipleOf,
+    issueManager: detail?.clientName,
+  };
+}
+
+/** The list entries plus what each issue's apply form shows. A detail that fails to load is left out. */
+async function describeIssues(client: MeroshareApiClient, issues: ApplicableIssue[]): Promise<IssueInfo[]> {
+  return Promise.all(issues.map(async (issue) => {
+    const detail = await client.getIssueDetail(issue.companyShareId).catch(() => null);
+    return toIssueInfo(issue, detail);
+  }));
+}
+
+/**
+ * Check applied kitta against the issue's min/max/multiple-of before anything
+ * is sent. If the details can't be loaded only the number itself is checked.
+ */
+async function checkKitta(
+  client: MeroshareApiClient,
+  issue: ApplicableIssue,
+  appliedKitta: string,
+  onEvent: (event: AutomationEvent) => void,
+): Promise<{ kitta: number; pricePerUnit?: number }> {
+  const detail = await client.getIssueDetail(issue.companyShareId).catch(() => null);
+  if (!detail) {
+    onEvent({ type: 'log', message: `Could not load the unit limits for ${issue.companyName} — checking kitta is a number only` });
+  }
+  return { kitta: validateKitta(appliedKitta, detail ?? {}), pricePerUnit: detail?.sharePerUnit };
+}
+
+/**
+ * Send the application and classify Meroshare's answer. A refusal (4xx) is a
+ * result; an expired login, server error or network failure still throws.
+ */
+async function submitApplication(client: MeroshareApiClient, req: ApplyRequest): Promise<ApplyResult> {
+  try {
+    const { status, message } = await client.applyForIssue(req);
+    return classifyApplyResult(status, message);
+  } catch (err) {
+    if (!(err instanceof MeroshareApiError) || err.status === 401 || err.status >= 500) throw err;
+    return classifyApplyResult(err.status, messageFromBody(err.body));
+  }
+}
+
+/** Find the newest Application Report entry for the issue and judge it; never throws */
+async function verifyInReport(client: MeroshareApiClient, issue: ApplicableIssue, kitta: number): Promise<Verification> {
+  try {
+    const { object: reports } = await client.getApplicationReports(1, 20);
+    const report = reports.find((r) => r.companyShareId === issue.companyShareId);
+    if (!report) return judgeReportEntry(kitta, null);
+    const detail = await client.getApplicationReportDetail(report.applicantFormId);
+    return judgeReportEntry(kitta, { status: detail.statusName, appliedKitta: detail.appliedKitta });
+  } catch (err) {
+    return verificationFailed(err);
+  }
+}
+
+/** What the apply request would carry, for a dry run */
+function previewApplication(
+  issue: ApplicableIssue,
+  bankName: string,
+  account: BankAccount,
+  kitta: number,
+  pricePerUnit: number | undefined,
+  cred: Credential,
+): ApplicationPreview {
+  return {
+    companyName: issue.companyName,
+    bank: bankName,
+    accountNumber: account.accountNumber,
+    branch: account.branchName,
+    appliedKitta: kitta,
+    amount: pricePerUnit !== undefined ? kitta * pricePerUnit : undefined,
+    crn: cred.CRN,
+  };
+}
+
+/** What a receipt records about an application the API submitted */
+function receiptDetails(
+  accountName: string,
+  issue: ApplicableIssue,
+  bankName: string,
+  account: BankAccount,
+  kitta: number,
+  pricePerUnit: number | undefined,
+  result: ApplyResult,
+) {
+  return {
+    account: accountName,
+    companyName: issue.companyName,
+    appliedKitta: kitta,
+    amount: pricePerUnit !== undefined ? kitta * pricePerUnit : undefined,
+    bank: bankName,
+    accountNumber: account.accountNumber,
+    outcome: result.outcome,
+    message: result.message,
+  };
+}
+
+/** Reuses the saved token for this DP/username while Meroshare still accepts it */
+async function loginViaApi(
+  client: MeroshareApiClient,
+  cred: Credential,
+  onEvent: (event: AutomationEvent) => void,
+  signal?: AbortSignal,
+) {
+  const savedToken = getApiToken(cred);
+  if (savedToken) {
+    client.useToken(savedToken);
+    try {
+      await client.getOwnDetail();
+      saveApiToken(cred, savedToken);
+      onEvent({ type: 'log', message: `Reusing saved session for "${cred.username}"` });
+      return;
+    } catch (err) {
+      if (!(err instanceof MeroshareApiError && err.status === 401)) throw err;
+      invalidateSession(cred);
+      onEvent({ type: 'log', message: 'Saved session expired — logging in again' });
+    }
+  }
+
+  onEvent({ type: 'log', message: `Logging in as "${cred.username}" via the Meroshare API ...` });
+  try {
+    const dp = await withRetry('login', () => client.login(cred), retryOptions(onEvent, signal));
+    saveApiToken(cred, client.authorization!);
+    onEvent({ type: 'log', message: `Logged in successfully (DP: ${dp.name})` });
+  } catch (err) {
+    invalidateSession(cred);
+    throw err;
+  }
+}
+
+/** Each account on its own client, logged in with a saved token when it still works */
+const apiSession: AccountSession<MeroshareApiClient> = {
+  open: async (cred, onEvent, signal) => {
+    const client = new MeroshareApiClient();
+    await loginViaApi(client, cred, onEvent, signal);
+    return client;
+  },
+};
+
+/** The "Apply for Issue" list, retried while Meroshare times out or answers 5xx */
+function loadIssues(
+  client: MeroshareApiClient,
+  onEvent: (event: AutomationEvent) => void,
+  signal?: AbortSignal,
+): Promise<ApplicableIssue[]> {
+  return withRetry('issueList', () => client.getApplicableIssues(), retryOptions(onEvent, signal));
+}
+
+/** What the apply form is filled in from: the owner's details and the bank account to use */
+function loadApplyForm(
+  client: MeroshareApiClient,
+  cred: Credential,
+  onEvent: (event: AutomationEvent) => void,
+  signal?: AbortSignal,
+): Promise<{ owner: OwnDetail; bankId: number; bankName: string; account: BankAccount }> {
+  return withRetry('applyForm', async () => {
+    const owner = await client.getOwnDetail();
+    return { owner, ...await pickBankAccount(client, cred, onEvent) };
+  }, retryOptions(onEvent, signal));
+}
+
+/** The account's preferred bank and account number, else the web form's default: first bank, first account */
+async function pickBankAccount(
+  client: MeroshareApiClient,
+  cred: Credential,
+  onEvent: (event: AutomationEvent) => void,
+): Promise<{ bankId: number; bankName: string; account: BankAccount }> {
+  const banks = await client.getBanks();
+  if (banks.length === 0) throw new Error('[Bank] No bank linked to this account');
+  const bank = preferredOrFirst(banks, (b) => b.name, cred.bankName, 'Bank', onEvent);
+
+  const accounts = await client.getBankAccounts(bank.id);
+  if (accounts.length === 0) throw new Error(`[Account Number] No account found for bank ${bank.name}`);
+  const account = preferredOrFirst(accounts, (a) => a.accountNumber, cred.accountNumber, 'Account Number', onEvent);
+
+  return { bankId: bank.id, bankName: bank.name, account };
+}
+
+/** Like the browser engine's dropdowns: the preferred entry, else the first with a warning */
+function preferredOrFirst<T>(
+  options: T[],
+  label: (option: T) => string,
+  preferred: string | undefined,
+  fieldName: string,
+  onEvent: (event: AutomationEvent) => void,
+): T {
+  if (!preferred) return options[0];
+  const match = findPreferred(options, label, preferred);
+  if (!match) {
+    onEvent({ type: 'log', message: `⚠️ [${fieldName}] No option matches "${preferred}" — using "${label(options[0])}"` });
+  }
+  return match ?? options[0];
+}
+
+// ── Main Automation Function ─────────────────────────────────────────────────
+
+export async function runMeroshareAutomationViaApi(
+  accountName: string,
+  cred: Credential,
+  maxReports: number,
+  onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
+): Promise<void> {
+  try {
+    onEvent({ type: 'log', message: `Starting automation for "${accountName}" (API) ...` });
+    const client = new MeroshareApiClient();
+    await loginViaApi(client, cred, onEvent, signal);
+    checkpoint(signal);
+
+    const issues = await loadIssues(client, onEvent, signal);
+    if (issues.length > 0) {
+      onEvent({ type: 'log', message: `Found ${issues.length} open issues in "Apply for Issue"` });
+      for (const issue of await describeIssues(client, issues)) onEvent({ type: 'issue', data: issue });
+    } else {
+      onEvent({ type: 'log', message: 'No open issues — fetching Application Report' });
+    }
+
+    const { object: reports, totalCount } = await client.getApplicationReports(1, Math.max(maxReports, 1));
+    const processCount = Math.min(reports.length, maxReports);
+    onEvent({ type: 'log', message: `Application Report: ${totalCount} records (processing ${processCount})` });
+
+    for (let i = 0; i < processCount; i++) {
+      checkpoint(signal);
+      const report = reports[i];
+      const detail = await client.getApplicationReportDetail(report.applicantFormId);
+      onEvent({
+        type: 'report',
+        data: {
+          index: i + 1,
+          total: totalCount,
+          name: report.companyName,
+          shareType: report.shareTypeName || 'N/A',
+          status: detail.statusName || 'N/A',
+          remarks: detail.meroshareRemark || detail.reasonOrRemark || 'N/A',
+        },
+      });
+    }
+
+    onEvent({ type: 'done' });
+  } catch (err: any) {
+    emitFailure(err, onEvent);
+  }
+}
+
+// ── Application Report Export ────────────────────────────────────────────────
+
+/** Entries asked for per Application Report page */
+const REPORT_EXPORT_PAGE_SIZE = 20;
+
+function toReportRecord(accountName: string, report: ApplicationReport, detail: ApplicationReportDetail): ReportRecord {
+  return {
+    account: accountName,
+    companyName: report.companyName,
+    scrip: report.scrip || undefined,
+    shareType: report.shareTypeName || '',
+    subGroup: report.subGroup || undefined,
+    appliedDate: detail.appliedDate || undefined,
+    appliedKitta: detail.appliedKitta,
+    amount: detail.amount,
+    status: detail.statusName || '',
+    remarks: detail.meroshareRemark || detail.reasonOrRemark || undefined,
+    receivedKitta: detail.receivedKitta,
+  };
+}
+
+/** API counterpart of exportApplicationReport */
+export async function exportApplicationReportViaApi(
+  accountName: string,
+  cred: Credential,
+  onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
+): Promise<void> {
+  try {
+    onEvent({ type: 'log', message: `Exporting the Application Report for "${accountName}" (API) ...` });
+    const client = new MeroshareApiClient();
+    await loginViaApi(client, cred, onEvent, signal);
+    checkpoint(signal);
+
+    let exported = 0;
+    for (let page = 1; ; page++) {
+      const { object: reports, totalCount } = await client.getApplicationReports(page, REPORT_EXPORT_PAGE_SIZE);
+      if (page === 1) onEvent({ type: 'log', message: `Application Report: ${totalCount} records` });
+      for (const report of reports) {
+        checkpoint(signal);
+        const detail = await client.getApplicationReportDetail(report.applicantFormId);
+        onEvent({ type: 'report_record', data: toReportRecord(accountName, report, detail) });
+        exported++;
+      }
+      if (reports.length === 0 || exported >= totalCount) break;
+    }
+
+    onEvent({ type: 'log', message: `Exported ${exported} record(s)` });
+    onEvent({ type: 'done' });
+  } catch (err: any) {
+    emitFailure(err, onEvent);
+  }
+}
+
+// ── Scan-Only Function ──────────────────────────────────────────────────────
+
+export async function scanForIssuesViaApi(
+  accountName: string,
+  cred: Credential,
+  onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
+): Promise<void> {
+  try {
+    onEvent({ type: 'log', message: `Scanning for open issues using "${accountName}" (API) ...` });
+    const client = new MeroshareApiClient();
+    await loginViaApi(client, cred, onEvent, signal);
+    checkpoint(signal);
+
+    const issues = await loadIssues(client, onEvent, signal);
+    if (issues.length > 0) {
+      onEvent({ type: 'log', message: `Found ${issues.length} open issue(s)` });
+      for (const issue of await describeIssues(client, issues)) onEvent({ type: 'issue', data: issue });
+    } else {
+      onEvent({ type: 'log', message: 'No open issues found' });
+    }
+
+    onEvent({ type: 'done' });
+  } catch (err: any) {
+    emitFailure(err, onEvent);
+  }
+}
+
+// ── IPO Application Function ────────────────────────────────────────────────
+
+export async function applyForIPOViaApi(
+  accountName: string,
+  cred: Credential,
+  targetIssueId: string,
+  expectedCompanyName: string | undefined,
+  appliedKitta: string,
+  transactionPIN: string,
+  onEvent: (event: AutomationEvent) => void,
+  { signal, dryRun = false, jobId }: AutomationOptions = {},
+): Promise<void> {
+  try {
+    const dryRunLabel = dryRun ? ', dry run' : '';
+    onEvent({ type: 'log', message: `Starting IPO application for "${accountName}" (API${dryRunLabel}) ...` });
+    const client = new MeroshareApiClient();
+    await loginViaApi(client, cred, onEvent, signal);
+    checkpoint(signal);
+
+    const issues = await loadIssues(client, onEvent, signal);
+    if (issues.length === 0) {
+      throw new Error('No open issues found in "Apply for Issue" tab');
+    }
+    const issue = issues.find((i) => matchesIssueId(targetIssueId, toIssueInfo(i)));
+    if (!issue) {
+      const label = expectedCompanyName ? ` (${expectedCompanyName})` : '';
+      throw new Error(`Issue ${targetIssueId}${label} is not in the "Apply for Issue" list any more`);
+    }
+    if (expectedCompanyName && !sameCompany(issue.companyName, expectedCompanyName)) {
+      throw new Error(`Issue ${targetIssueId} is "${issue.companyName}", not "${expectedCompanyName}" — not applying`);
+    }
+    onEvent({ type: 'log', message: `Applying for: ${issue.companyName}` });
+    if (!canApply(issue)) {
+      throw new Error(`Cannot apply for ${issue.companyName} (${issue.action === 'edit' ? 'already applied' : issue.action})`);
+    }
+
+    const { kitta, pricePerUnit } = await checkKitta(client, issue, appliedKitta, onEvent);
+    const { owner, bankId, bankName, account } = await loadApplyForm(client, cred, onEvent, signal);
+    onEvent({ type: 'log', message: `Bank selected: ${bankName}` });
+    onEvent({ type: 'log', message: `Account Number selected: ${account.accountNumber}` });
+    onEvent({ type: 'log', message: `Applied Kitta: ${kitta}` });
+
+    if (dryRun) {
+      reportDryRun(accountName, previewApplication(issue, bankName, account, kitta, pricePerUnit, cred), onEvent);
+      onEvent({ type: 'done' });
+      return;
+    }
+
+    // Last chance to stop — once the request is sent we always read the result
+    checkpoint(signal);
+
+    onEvent({ type: 'log', message: 'Submitting application...' });
+    const result = await submitApplication(client, {
+      companyShareId: issue.companyShareId,
+      appliedKitta: String(kitta),
+      crnNumber: cred.CRN,
+      transactionPIN,
+      bankId,
+      account,
+      owner,
+    });
+    onEvent({ type: 'log', message: `Meroshare answered: ${result.message}` });
+    recordReceipt(jobId, receiptDetails(accountName, issue, bankName, account, kitta, pricePerUnit, result), undefined, onEvent);
+    const verification = needsVerification(result) ? await verifyInReport(client, issue, kitta) : undefined;
+    finishApply(accountName, issue.companyName, result, verification, onEvent);
+  } catch (err: any) {
+    emitFailure(err, onEvent);
+  }
+}
+
+// ── Bulk Apply Function ─────────────────────────────────────────────────────
+
+/** API counterpart of bulkApplyForIPO: login → find IPO by its ID → apply, per account */
+export async function bulkApplyForIPOViaApi(
+  accountEntries: { name: string; cred: Credential }[],
+  targetIssueId: string,
+  targetCompanyName: string,
+  appliedKitta: string,
+  defaultPIN: string,
+  accountPINs: Record<string, string>,
+  onEvent: (event: AutomationEvent) => void,
+  { signal, dryRun = false, jobId }: AutomationOptions = {},
+): Promise<void> {
+  const dryRunLabel = dryRun ? ', dry run' : '';
+  onEvent({
+    type: 'log',
+    message: `Bulk apply starting for "${targetCompanyName}" across ${accountEntries.length} account(s) (API${dryRunLabel})`,
+  });
+
+  const deduped = dedupeLogins(accountEntries, onEvent);
+  const limit = createLimiter(getBulkConcurrency());
+
+  const cancelled = await runForEachLoggedInAccount(
+    deduped, limit, onEvent, signal, apiSession, 'Stopped before the application was submitted',
+    (client, { name, cred }, emit) => {
+      const pin = accountPINs[name] || defaultPIN;
+      return applyOnAccountViaApi(
+        client, name, cred, targetIssueId, targetCompanyName, appliedKitta, pin, emit, signal, dryRun, jobId,
+      );
+    },
+  );
+
+  if (cancelled) {
+    onEvent({ type: 'cancelled', message: 'Bulk apply cancelled by user' });
+    return;
+  }
+
+  onEvent({ type: 'done' });
+}
+
+/** One account of a bulk apply, with a client that is already logged in */
+async function applyOnAccountViaApi(
+  client: MeroshareApiClient,
+  accountName: string,
+  cred: Credential,
+  targetIssueId: string,
+  targetCompanyName: string,
+  appliedKitta: string,
+  pin: string,
+  onEvent: (event: AutomationEvent) => void,
+  signal?: AbortSignal,
+  dryRun = false,
+  jobId?: string,
+): Promise<void> {
+  // ── Find the target IPO by its ID ──────────────────────────────────
+  const issues = await loadIssues(client, onEvent, signal);
+  if (issues.length === 0) {
+    onEvent({
+      type: 'account_status',
+      data: { account: accountName, status: 'error', message: 'No open issues found on this account' },
+    });
+    return;
+  }
+
+  const issue = issues.find((i) => matchesIssueId(targetIssueId, toIssueInfo(i)));
+  if (!issue) {
+    onEvent({
+      type: 'account_status',
+      data: {
+        account: accountName,
+        status: 'error',
+        message: `Issue ${targetIssueId} (${targetCompanyName}) not found in this account's issue list`,
+      },
+    });
+    return;
+  }
+  if (!sameCompany(issue.companyName, targetCompanyName)) {
+    onEvent({
+      type: 'account_status',
+      data: {
+        account: accountName,
+        status: 'error',
+        message: `Issue ${targetIssueId} is "${issue.companyName}", not "${targetCompanyName}" — not applying`,
+      },
+    });
+    return;
+  }
+
+  if (issue.action === 'edit') {
+    onEvent({
+      type: 'account_status',
+      data: { account: accountName, status: 'already_applied', message: 'Already applied (Edit button found)' },
+    });
+    return;
+  }
+  if (!canApply(issue)) {
+    onEvent({
+      type: 'account_status',
+      data: { account: accountName, status: 'error', message: `No Apply button found for this IPO (${issue.action})` },
+    });
+    return;
+  }
+
+  // ── Submit the application ─────────────────────────────────────────
+  onEvent({
+    type: 'account_status',
+    data: { account: accountName, status: 'running', message: 'Filling application form...' },
+  });
+
+  const { kitta, pricePerUnit } = await checkKitta(client, issue, appliedKitta, onEvent);
+  const { owner, bankId, bankName, account } = await loadApplyForm(client, cred, onEvent, signal);
+
+  if (dryRun) {
+    reportDryRun(accountName, previewApplication(issue, bankName, account, kitta, pricePerUnit, cred), onEvent);
+    return;
+  }
+
+  // Last chance to stop — once the request is sent we always read the result
+  checkpoint(signal);
+
+  const result = await submitApplication(client, {
+    companyShareId: issue.companyShareId,
+    appliedKitta: String(kitta),
+    crnNumber: cred.CRN,
+    transactionPIN: pin,
+    bankId,
+    account,
+    owner,
+  });
+  recordReceipt(jobId, receiptDetails(accountName, issue, bankName, account, kitta, pricePerUnit, result), undefined, onEvent);
+  const verification = needsVerification(result) ? await verifyInReport(client, issue, kitta) : undefined;
+  reportApplyResult(accountName, issue.companyName, result, verification, onEvent);
+}
+
+// ── Bulk Scan ────────────────────────────────────────────────────────────────
+
+/** API counterpart of bulkScanForIssues */
+export async function bulkScanForIssuesViaApi(
+  accountEntries: { name: string; cred: Credential }[],
+  onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
+): Promise<void> {
+  onEvent({ type: 'log', message: `Bulk scan starting across ${accountEntries.length} account(s) (API)` });
+
+  const deduped = dedupeLogins(accountEntries, onEvent);
+  const limit = createLimiter(getBulkConcurrency());
+  const scans = new Map<string, IssueInfo[]>();
+
+  const cancelled = await runForEachLoggedInAccount(
+    deduped, limit, onEvent, signal, apiSession, 'Stopped before the scan finished',
+    async (client, { name }, emit) => {
+      const issues = await describeIssues(client, await loadIssues(client, emit, signal));
+      scans.set(name, issues);
+      for (const issue of issues) emit({ type: 'issue', data: { ...issue, account: name } });
+      emit({ type: 'account_status', data: { account: name, status: 'success', message: describeScan(issues) } });
+    },
+  );
+
+  if (cancelled) {
+    onEvent({ type: 'cancelled', message: 'Bulk scan cancelled by user' });
+    return;
+  }
+
+  reportIssueMatrix(deduped, scans, onEvent);
+  onEvent({ type: 'done' });
+}
+
+// ── Allotment Results ────────────────────────────────────────────────────────
+
+/** The newest Application Report entry for the company, with its details; null if the account didn't apply */
+async function findReportedApplication(
+  client: MeroshareApiClient,
+  companyName: string,
+  onEvent: (event: AutomationEvent) => void,
+  signal?: AbortSignal,
+): Promise<ReportedApplication | null> {
+  const options = retryOptions(onEvent, signal);
+  const { object: reports } = await withRetry('allotment', () => client.getApplicationReports(), options);
+  const report = reports.find((r) => sameCompany(r.companyName, companyName));
+  if (!report) return null;
+  const detail = await withRetry('allotment', () => client.getApplicationReportDetail(report.applicantFormId), options);
+  return {
+    companyName: report.companyName,
+    status: detail.statusName || 'N/A',
+    remarks: detail.meroshareRemark || detail.reasonOrRemark,
+    appliedKitta: detail.appliedKitta,
+    receivedKitta: detail.receivedKitta,
+  };
+}
+
+/** API counterpart of checkAllotmentResults */
+export async function checkAllotmentResultsViaApi(
+  accountEntries: { name: string; cred: Credential }[],
+  companyName: string,
+  provider: AllotmentProvider,
+  onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
+): Promise<void> {
+  onEvent({ type: 'log', message: `Checking allotment for "${companyName}" on ${accountEntries.length} account(s) (API)` });
+
+  const deduped = dedupeLogins(accountEntries, onEvent);
+  const limit = createLimiter(getBulkConcurrency());
+  const results: AllotmentResult[] = [];
+
+  const cancelled = await runForEachLoggedInAccount(
+    deduped, limit, onEvent, signal, apiSession, 'Stopped before the result was checked',
+    async (client, { name }, emit) => {
+      const owner = await client.getOwnDetail();
+      const report = await findReportedApplication(client, companyName, emit, signal);
+      checkpoint(signal);
+      const result = await checkAllotment(name, provider, { companyName, report, boid: owner.demat }, retryOptions(emit, signal));
+      results.push(result);
+      emit({ type: 'allotment', data: result });
+      emit({ type: 'account_status', data: { account: name, status: 'success', message: describeAllotment(result) } });
+    },
+  );
+
+  if (cancelled) {
+    onEvent({ type: 'cancelled', message: 'Allotment check cancelled by user' });
+    return;
+  }
+
+  onEvent({ type: 'log', message: summarizeAllotments(results) });
+  onEvent({ type: 'done' });
+}
+
+// ── Portfolio ────────────────────────────────────────────────────────────────
+
+/** Rows asked for per My Portfolio page */
+const PORTFOLIO_PAGE_SIZE = 200;
+
+/** A price that may come back as a string, or empty before the script has traded */
+function priceOf(value: number | string): number | undefined {
+  const price = Number(value);
+  return value !== '' && Number.isFinite(price) ? price : undefined;
+}
+
+function toHolding(accountName: string, item: PortfolioItem): Holding {
+  return {
+    account: accountName,
+    script: item.script,
+    companyName: item.scriptDesc || undefined,
+    currentBalance: Number(item.currentBalance),
+    previousClosingPrice: priceOf(item.previousClosingPrice),
+    previousCloseValue: Number(item.valueOfPrevClosingPrice) || 0,
+    ltp: priceOf(item.lastTransactionPrice),
+    ltpValue: Number(item.valueOfLastTransPrice) || 0,
+  };
+}
+
+/** Every row of My Portfolio, page by page; a read that fails is started over */
+async function loadHoldings(
+  client: MeroshareApiClient,
+  accountName: string,
+  onEvent: (event: AutomationEvent) => void,
+  signal?: AbortSignal,
+): Promise<Holding[]> {
+  const items = await withRetry('portfolio', async () => {
+    const owner = await client.getOwnDetail();
+    const items: PortfolioItem[] = [];
+    for (let page = 1; ; page++) {
+      const { meroShareMyPortfolio: rows, totalItems } = await client.getMyPortfolio(owner, page, PORTFOLIO_PAGE_SIZE);
+      items.push(...rows);
+      if (rows.length === 0 || items.length >= totalItems) return items;
+    }
+  }, retryOptions(onEvent, signal));
+  return items.map((item) => toHolding(accountName, item));
+}
+
+/** API counterpart of readPortfolios */
+export async function readPortfoliosViaApi(
+  accountEntries: { name: string; cred: Credential }[],
+  onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
+): Promise<void> {
+  onEvent({ type: 'log', message: `Reading My Portfolio on ${accountEntries.length} account(s) (API)` });
+
+  const deduped = dedupeLogins(accountEntries, onEvent);
+  const limit = createLimiter(getBulkConcurrency());
+  const family: Holding[] = [];
+
+  const cancelled = await runForEachLoggedInAccount(
+    deduped, limit, onEvent, signal, apiSession, 'Stopped before the portfolio was read',
+    async (client, { name }, emit) => {
+      const holdings = await loadHoldings(client, name, emit, signal);
+      family.push(...holdings);
+      for (const holding of holdings) emit({ type: 'holding', data: holding });
+      emit({ type: 'account_status', data: { account: name, status: 'success', message: describePortfolio(holdings) } });
+    },
+  );
+
+  if (cancelled) {
+    onEvent({ type: 'cancelled', message: 'Portfolio job cancelled by user' });
+    return;
+  }
+
+  onEvent({ type: 'log', message: summarizeFamilyPortfolio(family) });
+  onEvent({ type: 'done' });
+}
+
+// ── Transaction History ──────────────────────────────────────────────────────
+
+/** Rows asked for per My Transaction History page */
+const HISTORY_PAGE_SIZE = 200;
+
+function toTransaction(item: TransactionItem): Transaction {
+  const balance = item.balanceAfterTransaction?.trim();
+  return {
+    script: item.scrip,
+    date: item.transactionDate,
+    credit: quantityOf(item.creditQuantity),
+    debit: quantityOf(item.debitQuantity),
+    balance: balance && balance !== '-' ? quantityOf(balance) : undefined,
+    description: item.historyDescription || '',
+  };
+}
+
+function toPurchaseSource(item: PurchaseItem): PurchaseSource {
+  return {
+    script: item.scrip,
+    date: item.transactionDate || undefined,
+    quantity: quantityOf(item.transactionQuantity),
+    rate: rateOf(item.rate),
+    source: item.purchaseSource || '',
+  };
+}
+
+/**
+ * Every line of My Transaction History, then My Purchase Source for each
+ * script in it. A history read that fails is started over; a purchase source
+ * that fails is asked for again on its own.
+ */
+async function loadTransactionHistory(
+  client: MeroshareApiClient,
+  accountName: string,
+  onEvent: (event: AutomationEvent) => void,
+  signal?: AbortSignal,
+): Promise<TransactionHistory> {
+  const options = retryOptions(onEvent, signal);
+  const owner = await client.getOwnDetail();
+  const items = await withRetry('history', async () => {
+    const items: TransactionItem[] = [];
+    for (let page = 1; ; page++) {
+      const { transactionView: rows, totalItems } = await client.getTransactionHistory(owner, page, HISTORY_PAGE_SIZE);
+      items.push(...rows);
+      if (rows.length === 0 || items.length >= totalItems) return items;
+    }
+  }, options);
+  const transactions = sortTransactions(items.map(toTransaction));
+
+  const purchases: PurchaseSource[] = [];
+  for (const script of new Set(transactions.map((t) => t.script))) {
+    checkpoint(signal);
+    const sources = await withRetry('history', () => client.getPurchaseSources(owner, script), options);
+    purchases.push(...sources.map(toPurchaseSource));
+  }
+  return { account: accountName, importedAt: new Date().toISOString(), transactions, purchases };
+}
+
+/** API counterpart of importTransactionHistory */
+export async function importTransactionHistoryViaApi(
+  accountEntries: { name: string; cred: Credential }[],
+  onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
+): Promise<void> {
+  onEvent({ type: 'log', message: `Importing transaction history on ${accountEntries.length} account(s) (API)` });
+
+  const deduped = dedupeLogins(accountEntries, onEvent);
+  const limit = createLimiter(getBulkConcurrency());
+  let imported = 0;
+
+  const cancelled = await runForEachLoggedInAccount(
+    deduped, limit, onEvent, signal, apiSession, 'Stopped before the history was imported',
+    async (client, { name }, emit) => {
+      const history = await loadTransactionHistory(client, name, emit, signal);
+      checkpoint(signal);
+      saveTransactionHistory(history);
+      imported++;
+      const wacc = calculateWacc(history);
+      for (const entry of wacc) emit({ type: 'wacc', data: entry });
+      emit({ type: 'account_status', data: { account: name, status: 'success', message: describeImport(history, wacc) } });
+    },
+  );
+
+  if (cancelled) {
+    onEvent({ type: 'cancelled', message: 'Transaction history import cancelled by user' });
+    return;
+  }
+
+  onEvent({ type: 'log', message: `Transaction history saved for ${imported} of ${deduped.length} account(s)` });
+  onEvent({ type: 'done' });
+}
@@ -0,0 +1,110 @@
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** What Meroshare said about a submitted application */
+export type ApplyOutcome =
+  | 'success'
+  | 'already_applied'
+  | 'insufficient_balance'
+  | 'invalid_pin'
+  | 'issue_closed'
+  | 'unknown';
+
+export interface ApplyResult {
+  outcome: ApplyOutcome;
+  /** Meroshare's own message, or what we saw instead of one */
+  message: string;
+  /** HTTP status of the apply request, when it was seen */
+  statusCode?: number;
+}
+
+// ── Classification ───────────────────────────────────────────────────────────
+
+/** Checked in order against Meroshare's message; the first match wins */
+const MESSAGE_PATTERNS: [ApplyOutcome, RegExp][] = [
+  ['already_applied', /already applied|already been applied/i],
+  ['invalid_pin', /\b(invalid|incorrect|wrong) (transaction )?pin\b|\bpin (is )?(invalid|incorrect|wrong|mismatch)/i],
+  ['insufficient_balance', /insufficient|not enough balance|low balance/i],
+  ['issue_closed', /\b(issue|ipo|fpo|share)\b.*\b(closed|expired)\b|\bnot open\b|no longer (open|available)/i],
+];
+
+/** `message` from a JSON error body such as `{"statusCode":400,"message":"..."}`, else the text itself */
+export function messageFromBody(body: string): string {
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed.message === 'string') return parsed.message;
+  } catch {
+    // not JSON
+  }
+  return body.trim();
+}
+
+/**
+ * Classify the answer to an apply request. A 2xx is a success whatever it
+ * says; otherwise the message decides, and anything unrecognised is `unknown`.
+ * With no status code (only a toast was seen) success is read from the text.
+ */
+export function classifyApplyResult(statusCode: number | undefined, message: string): ApplyResult {
+  const result = (outcome: ApplyOutcome): ApplyResult => ({ outcome, message, statusCode });
+
+  if (statusCode !== undefined && statusCode >= 200 && statusCode < 300) return result('success');
+  if (statusCode === 409) return result('already_applied');
+  for (const [outcome, pattern] of MESSAGE_PATTERNS) {
+    if (pattern.test(message)) return result(outcome);
+  }
+  if (statusCode === undefined && /success/i.test(message)) return result('success');
+  return result('unknown');
+}
+
+/** Short label for logs and account statuses */
+export function describeApplyOutcome(outcome: ApplyOutcome): string {
+  switch (outcome) {
+    case 'success': return 'Applied';
+    case 'already_applied': return 'Already applied';
+    case 'insufficient_balance': return 'Insufficient balance';
+    case 'invalid_pin': return 'Transaction PIN rejected';
+    case 'issue_closed': return 'Issue closed';
+    case 'unknown': return 'Result unclear — check Meroshare';
+  }
+}
+
+// ── Verification ─────────────────────────────────────────────────────────────
+
+/** Whether the Application Report confirms a submitted application */
+export interface Verification {
+  result: 'verified' | 'unverified';
+  /** Status the report shows, when the application was found */
+  reportStatus?: string;
+  /** Kitta the report shows, when the application was found */
+  appliedKitta?: number;
+  message: string;
+}
+
+/** Report statuses that mean the application did not go through */
+const FAILED_STATUS = /fail|reject|invalid|cancel|block/i;
+
+/**
+ * Judge the Application Report entry for a just-submitted application: it
+ * must be there, not in a failed state, and for the kitta that was applied.
+ */
+export function judgeReportEntry(
+  expectedKitta: number,
+  entry: { status: string; appliedKitta?: number } | null,
+): Verification {
+  if (!entry) {
+    return { result: 'unverified', message: 'Not in the Application Report yet' };
+  }
+  const { status, appliedKitta } = entry;
+  const found = { reportStatus: status, appliedKitta };
+  if (FAILED_STATUS.test(status)) {
+    return { result: 'unverified', ...found, message: `Application Report shows "${status}"` };
+  }
+  if (appliedKitta !== expectedKitta) {
+    return { result: 'unverified', ...found, message: `Application Report shows ${appliedKitta ?? 'no'} kitta, not ${expectedKitta}` };
+  }
+  return { result: 'verified', ...found, message: `Application Report shows "${status}" for ${appliedKitta} kitta` };
+}
+
+/** Reading the report failed — the application may still have gone through */
+export function verificationFailed(err: any): Verification {
+  return { result: 'unverified', message: `Could not check the Application Report: ${err?.message || String(err)}` };
+}
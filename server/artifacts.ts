@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDataDir } from './store';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** What a failure left behind: the page as it looked, its HTML, and optionally a Playwright trace */
+export type ArtifactKind = 'screenshot' | 'html' | 'trace';
+
+export interface ArtifactInfo {
+  /** File name, for GET /api/jobs/:id/artifacts/:name */
+  name: string;
+  kind: ArtifactKind;
+  /** Account the failure happened on */
+  account: string;
+}
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+const EXTENSIONS: Record<ArtifactKind, string> = {
+  screenshot: 'png',
+  html: 'html',
+  trace: 'zip',
+};
+
+/** Names we hand out — anything else (e.g. "../jobs.jsonl") is refused */
+const ARTIFACT_NAME = /^[A-Za-z0-9_-]+\.(png|html|zip)$/;
+
+/** Whether to record a Playwright trace of each browser job (ARTIFACT_TRACES=true) */
+export function tracesEnabled(): boolean {
+  return process.env.ARTIFACT_TRACES === 'true';
+}
+
+// ── Files ────────────────────────────────────────────────────────────────────
+
+function jobArtifactsDir(jobId: string): string {
+  return path.join(getDataDir(), 'artifacts', jobId);
+}
+
+/** A new, unused file name for an account's artifact */
+export function artifactName(account: string, kind: ArtifactKind): string {
+  const slug = account.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'account';
+  return `${slug}-${Date.now()}-${kind}.${EXTENSIONS[kind]}`;
+}
+
+/** Where an artifact of the job goes; the directory is created on the way */
+export function artifactPath(jobId: string, name: string): string {
+  const dir = jobArtifactsDir(jobId);
+  fs.mkdirSync(dir, { recursive: true });
+  return path.join(dir, name);
+}
+
+/** Path of an existing artifact, or null if the name is not one of ours or there is no such file */
+export function findArtifact(jobId: string, name: string): string | null {
+  if (!ARTIFACT_NAME.test(name) || !/^[A-Za-z0-9-]+$/.test(jobId)) return null;
+  const file = path.join(jobArtifactsDir(jobId), name);
+  return fs.existsSync(file) ? file : null;
+}
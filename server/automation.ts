@@ -1,6 +1,32 @@
-import { chromium, type Page, type Browser } from 'playwright';
+import {
+  chromium, type Page, type Browser, type BrowserContext, type BrowserContextOptions, type Response,
+} from 'playwright';
 import * as fs from 'fs';
 import * as path from 'path';
+import type { JobStatus } from './jobs';
+import { getBrowserSession, saveBrowserSession, invalidateSession, type BrowserSession } from './sessions';
+import { BrowserPool, type Limiter } from './pool';
+import {
+  issueId, matchesIssueId, sameCompany, normalizeCompanyName, buildIssueMatrix, describeIssueMatrix,
+  validateKitta, validateAmount, KittaValidationError, type KittaViolation, type IssueMatrix,
+} from './issues';
+import {
+  classifyApplyResult, messageFromBody, describeApplyOutcome, judgeReportEntry, verificationFailed,
+  type ApplyOutcome, type ApplyResult, type Verification,
+} from './apply-result';
+import { withRetry, httpStatusError, type RetryOptions, type RetryStep } from './retry';
+import { artifactName, artifactPath, tracesEnabled, type ArtifactInfo, type ArtifactKind } from './artifacts';
+import { saveReceipt, type Receipt } from './receipts';
+import {
+  checkAllotment, describeAllotment, summarizeAllotments,
+  type AllotmentProvider, type AllotmentResult, type ReportedApplication,
+} from './allotment';
+import { describePortfolio, summarizeFamilyPortfolio, type Holding } from './portfolio';
+import type { ReportRecord } from './report-export';
+import {
+  saveTransactionHistory, calculateWacc, describeImport, quantityOf, rateOf, sortTransactions,
+  type Transaction, type PurchaseSource, type ScriptWacc,
+} from './transactions';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -10,6 +36,10 @@ export interface Credential {
   password: string;
   CRN: string;
   TPIN?: string;
+  /** Bank to apply from when several are linked; the first one if unset or not found */
+  bankName?: string;
+  /** Account number to apply from at that bank; the first one if unset or not found */
+  accountNumber?: string;
 }
 
 interface DPInfo {
@@ -18,26 +48,105 @@ interface DPInfo {
   name: string;
 }
 
-export type AccountStatusType = 'pending' | 'running' | 'already_applied' | 'success' | 'error' | 'login_failed';
+export type AccountStatusType =
+  | 'pending' | 'running' | 'already_applied' | 'success' | 'error' | 'login_failed' | 'cancelled' | 'would_apply'
+  /** Submitted, but Meroshare's answer didn't say whether it worked */
+  | 'unconfirmed';
 
 export interface AccountStatus {
   account: string;
   status: AccountStatusType;
   message: string;
+  /** Set when applied kitta broke the issue's rules */
+  violation?: KittaViolation;
+  /** Set with `would_apply`: what a dry run stopped short of submitting */
+  preview?: ApplicationPreview;
+  /** Set once an application was submitted: how Meroshare answered */
+  outcome?: ApplyOutcome;
+  /** Set once the Application Report was checked after applying */
+  verification?: Verification['result'];
+  /** Set when the account logs in as another account of the run, which applies for both */
+  duplicateOf?: string;
+}
+
+/** The filled-in apply form a dry run stopped at */
+export interface ApplicationPreview {
+  companyName: string;
+  bank: string;
+  accountNumber: string;
+  branch?: string;
+  appliedKitta: number;
+  /** Rs, as worked out from price × kitta; left out when the price is unknown */
+  amount?: number;
+  crn: string;
+}
+
+export interface IssueInfo {
+  /** Stable across scans — see issueId() */
+  id: string;
+  name: string;
+  subGroup: string;
+  shareType: string;
+  shareGroup: string;
+  hasApplyButton: boolean;
+  // Details from the apply form — left out when they couldn't be read
+  /** As Meroshare shows it, e.g. "Oct 28, 2026 5:00:00 PM" */
+  openDate?: string;
+  closeDate?: string;
+  /** Rs per unit */
+  pricePerUnit?: number;
+  minUnit?: number;
+  maxUnit?: number;
+  /** Applied kitta must be a multiple of this */
+  multipleOf?: number;
+  issueManager?: string;
 }
 
 export type AutomationEvent =
   | { type: 'log'; message: string }
-  | { type: 'issue'; data: { name: string; subGroup: string; shareType: string; shareGroup: string; hasApplyButton: boolean } }
+  | { type: 'issue'; data: IssueInfo & { account?: string } }
+  | { type: 'issue_matrix'; data: IssueMatrix<IssueInfo> }
   | { type: 'report'; data: { index: number; total: number; name: string; shareType: string; status: string; remarks: string } }
   | { type: 'apply_success'; message: string }
+  | { type: 'apply_result'; data: ApplyResult & { account: string; companyName: string } }
+  | { type: 'verification'; data: Verification & { account: string; companyName: string } }
   | { type: 'account_status'; data: AccountStatus }
+  | { type: 'artifact'; data: ArtifactInfo }
+  | { type: 'receipt'; data: Receipt }
+  | { type: 'allotment'; data: AllotmentResult }
+  | { type: 'holding'; data: Holding }
+  | { type: 'wacc'; data: ScriptWacc }
+  | { type: 'report_record'; data: ReportRecord }
+  | { type: 'job'; data: { id: string; status: JobStatus; position: number } }
+  | { type: 'cancelled'; message: string }
   | { type: 'done' }
-  | { type: 'error'; message: string };
+  | { type: 'error'; message: string; violation?: KittaViolation };
+
+export interface AutomationOptions {
+  /** Aborting stops the run at the next safe checkpoint */
+  signal?: AbortSignal;
+  /** Apply jobs only: fill in everything, then stop before the transaction PIN */
+  dryRun?: boolean;
+  /** The queued job this run belongs to; failure artifacts are only saved when set */
+  jobId?: string;
+}
+
+/** Thrown at a checkpoint once the job's AbortSignal has fired */
+export class AutomationCancelledError extends Error {
+  constructor(message = 'Cancelled by user') {
+    super(message);
+    this.name = 'AutomationCancelledError';
+  }
+}
 
 // ── Constants ────────────────────────────────────────────────────────────────
 
-const BASE_URL = 'https://meroshare.cdsc.com.np/';
+const DEFAULT_BASE_URL = 'https://meroshare.cdsc.com.np/';
+
+/** Meroshare web app URL (BASE_URL) */
+export function getBaseUrl(): string {
+  return process.env.BASE_URL || DEFAULT_BASE_URL;
+}
 
 const BROWSER_LAUNCH_OPTIONS = {
   headless: true as const,
@@ -60,13 +169,327 @@ export function loadAllCredentials(): Record<string, Credential> {
     return inMemoryCredentials;
   }
   // Fallback to file-based credentials
+  const fileCreds = loadFileCredentials();
+  if (fileCreds) return fileCreds;
+  throw new Error('No credentials found. Add accounts in the web UI or create all_credentials.json');
+}
+
+/**
+ * Credentials from all_credentials.json (or credentials.json), ignoring what
+ * the browser synced. Only the files can carry a saved TPIN.
+ */
+export function loadFileCredentials(): Record<string, Credential> | null {
   const allCredsPath = path.resolve(__dirname, '..', 'all_credentials.json');
   if (fs.existsSync(allCredsPath)) {
     return JSON.parse(fs.readFileSync(allCredsPath, 'utf-8'));
   }
   // Fallback to credentials.json
   const credsPath = path.resolve(__dirname, '..', 'credentials.json');
-  return JSON.parse(fs.readFileSync(credsPath, 'utf-8'));
+  if (fs.existsSync(credsPath)) {
+    return JSON.parse(fs.readFileSync(credsPath, 'utf-8'));
+  }
+  return null;
+}
+
+// ── Cancellation ─────────────────────────────────────────────────────────────
+
+/**
+ * Stop here if the job was cancelled. Only call this where it is safe to close
+ * the browser — never between the final Apply click and reading the result.
+ */
+export function checkpoint(signal?: AbortSignal) {
+  if (signal?.aborted) throw new AutomationCancelledError();
+}
+
+/** Retry options for a step of a job: each retry is logged, and a cancel stops retrying */
+export function retryOptions(onEvent: (event: AutomationEvent) => void, signal?: AbortSignal): RetryOptions {
+  return {
+    signal,
+    onRetry: (message) => onEvent({ type: 'log', message }),
+    beforeRetry: () => checkpoint(signal),
+  };
+}
+
+export function emitFailure(err: any, onEvent: (event: AutomationEvent) => void) {
+  if (err instanceof AutomationCancelledError) {
+    onEvent({ type: 'cancelled', message: err.message });
+  } else if (err instanceof KittaValidationError) {
+    onEvent({ type: 'error', message: err.message, violation: err.violation });
+  } else {
+    onEvent({ type: 'error', message: err.message || String(err) });
+  }
+}
+
+// ── Dry Run ──────────────────────────────────────────────────────────────────
+
+/** The `would_apply` status a dry run ends an account with */
+export function reportDryRun(accountName: string, preview: ApplicationPreview, onEvent: (event: AutomationEvent) => void) {
+  const amount = preview.amount !== undefined ? ` (Rs ${preview.amount})` : '';
+  onEvent({
+    type: 'account_status',
+    data: {
+      account: accountName,
+      status: 'would_apply',
+      message: `Dry run: would apply for ${preview.appliedKitta} kitta${amount} from ${preview.bank} ${preview.accountNumber} — stopped before the transaction PIN`,
+      preview,
+    },
+  });
+}
+
+// ── Receipts ─────────────────────────────────────────────────────────────────
+
+/**
+ * Keep a receipt of a submitted application with the job and announce it.
+ * The application is already in by now, so a receipt that can't be written is only logged.
+ */
+export function recordReceipt(
+  jobId: string | undefined,
+  details: Omit<Receipt, 'screenshot' | 'submittedAt'>,
+  screenshot: Buffer | undefined,
+  onEvent: (event: AutomationEvent) => void,
+) {
+  if (!jobId) return;
+  try {
+    const receipt = saveReceipt(jobId, { ...details, submittedAt: new Date().toISOString() }, screenshot);
+    onEvent({ type: 'receipt', data: receipt });
+  } catch (err: any) {
+    onEvent({ type: 'log', message: `Could not save the receipt: ${err.message || String(err)}` });
+  }
+}
+
+/** Browser engine: record the receipt with a screenshot of the page as Meroshare confirmed it */
+async function recordReceiptFromPage(
+  page: Page,
+  jobId: string | undefined,
+  details: Omit<Receipt, 'screenshot' | 'submittedAt'>,
+  onEvent: (event: AutomationEvent) => void,
+) {
+  if (!jobId) return;
+  const screenshot = await page.screenshot({ fullPage: true, timeout: 10000 }).catch(() => undefined);
+  recordReceipt(jobId, details, screenshot, onEvent);
+}
+
+// ── Failure Artifacts ────────────────────────────────────────────────────────
+
+/**
+ * Save what the page looked like when an account failed: a screenshot, the
+ * main#main HTML and, with ARTIFACT_TRACES=true, the Playwright trace. Each
+ * is announced with an `artifact` event. Best effort — a closed page saves nothing.
+ */
+async function captureFailureArtifacts(
+  page: Page | null,
+  account: string,
+  jobId: string | undefined,
+  onEvent: (event: AutomationEvent) => void,
+) {
+  if (!page || !jobId || page.isClosed()) return;
+
+  const save = async (kind: ArtifactKind, write: (file: string) => Promise<unknown>) => {
+    const name = artifactName(account, kind);
+    try {
+      await write(artifactPath(jobId, name));
+      onEvent({ type: 'artifact', data: { name, kind, account } });
+    } catch (err: any) {
+      onEvent({ type: 'log', message: `Could not save the ${kind} of the failure: ${err.message || String(err)}` });
+    }
+  };
+
+  await save('screenshot', (file) => page.screenshot({ path: file, fullPage: true, timeout: 10000 }));
+  await save('html', async (file) => {
+    const main = page.locator('main#main');
+    const html = (await main.count()) > 0 ? await main.innerHTML({ timeout: 5000 }) : await page.content();
+    fs.writeFileSync(file, html);
+  });
+  if (tracesEnabled()) await save('trace', (file) => page.context().tracing.stop({ path: file }));
+}
+
+// ── Apply Results ────────────────────────────────────────────────────────────
+
+const OUTCOME_STATUS: Record<ApplyOutcome, AccountStatusType> = {
+  success: 'success',
+  already_applied: 'already_applied',
+  insufficient_balance: 'error',
+  invalid_pin: 'error',
+  issue_closed: 'error',
+  unknown: 'unconfirmed',
+};
+
+/** Only an application Meroshare accepted (or might have) is worth looking up in the report */
+export function needsVerification(result: ApplyResult): boolean {
+  return result.outcome === 'success' || result.outcome === 'unknown';
+}
+
+/**
+ * Whether an account that failed is worth running again: it crashed, timed
+ * out or couldn't log in. Not when Meroshare refused the application — a
+ * rejected PIN sent again risks locking the TPIN — nor when the kitta broke
+ * the issue's rules or the account shares its login with another.
+ */
+export function isRetryableFailure({ status, outcome, violation, duplicateOf }: AccountStatus): boolean {
+  if (status === 'login_failed') return true;
+  return status === 'error' && !outcome && !violation && !duplicateOf;
+}
+
+function emitApplyResult(
+  accountName: string,
+  companyName: string,
+  result: ApplyResult,
+  verification: Verification | undefined,
+  onEvent: (event: AutomationEvent) => void,
+) {
+  onEvent({ type: 'apply_result', data: { account: accountName, companyName, ...result } });
+  if (verification) onEvent({ type: 'verification', data: { account: accountName, companyName, ...verification } });
+}
+
+/**
+ * End a single apply: apply_success and done once confirmed, an error if
+ * Meroshare refused, or done with a warning when it can't be confirmed.
+ */
+export function finishApply(
+  accountName: string,
+  companyName: string,
+  result: ApplyResult,
+  verification: Verification | undefined,
+  onEvent: (event: AutomationEvent) => void,
+) {
+  emitApplyResult(accountName, companyName, result, verification, onEvent);
+  if (!needsVerification(result)) {
+    onEvent({ type: 'error', message: `${describeApplyOutcome(result.outcome)}: ${result.message}` });
+    return;
+  }
+
+  const confirmed = verification ? verification.result === 'verified' : result.outcome === 'success';
+  if (confirmed) {
+    onEvent({ type: 'apply_success', message: `Successfully applied for ${companyName}: ${verification?.message ?? result.message}` });
+  } else {
+    const why = verification?.message ?? `"${result.message}" doesn't say whether it worked`;
+    onEvent({ type: 'log', message: `Application submitted for ${companyName}, but it isn't confirmed: ${why}. Check Meroshare for status.` });
+  }
+  onEvent({ type: 'done' });
+}
+
+/** End one account of a bulk apply with the status its result (and report check) calls for */
+export function reportApplyResult(
+  accountName: string,
+  companyName: string,
+  result: ApplyResult,
+  verification: Verification | undefined,
+  onEvent: (event: AutomationEvent) => void,
+) {
+  emitApplyResult(accountName, companyName, result, verification, onEvent);
+  const status = verification && needsVerification(result)
+    ? (verification.result === 'verified' ? 'success' : 'unconfirmed')
+    : OUTCOME_STATUS[result.outcome];
+  const checked = verification ? `. ${verification.message}` : '';
+  onEvent({
+    type: 'account_status',
+    data: {
+      account: accountName,
+      status,
+      message: `${describeApplyOutcome(result.outcome)}: ${result.message}${checked}`,
+      outcome: result.outcome,
+      verification: verification?.result,
+    },
+  });
+}
+
+/** Open My ASBA → Application Report and wait for its first page. No rows at all is a result too. */
+async function openApplicationReport(page: Page) {
+  await page.locator('a[href="#/asba"]').click();
+  await page.waitForURL('**/asba', { timeout: 15000 });
+  const reportTab = page.locator('.page-title-action-tab .nav-item a')
+    .filter({ hasText: 'Application Report' }).first();
+  await reportTab.waitFor({ state: 'visible', timeout: 10000 });
+  await reportTab.click();
+
+  await page.locator('.company-list').first().waitFor({ state: 'visible', timeout: 10000 }).catch(() => {});
+  await page.waitForTimeout(1000);
+}
+
+/**
+ * Open My ASBA → Application Report and the newest entry for `companyName`.
+ * Resolves the name the report lists it under and the details page's
+ * labelled values, or null if the report has no entry for the company.
+ */
+async function openReportEntry(
+  page: Page,
+  companyName: string,
+): Promise<{ name: string; value: (label: string) => string | undefined } | null> {
+  await openApplicationReport(page);
+
+  // Newest first, so the first row with this name is the latest application
+  const rows = page.locator('.company-list');
+  const count = await rows.count();
+  for (let i = 0; i < count; i++) {
+    const name = (await rows.nth(i).locator('.company-name span[tooltip="Company Name"]').textContent().catch(() => ''))?.trim() || '';
+    if (!sameCompany(name, companyName)) continue;
+
+    const viewBtn = rows.nth(i).locator('.action-buttons button:visible, .action-buttons i:visible').first();
+    await ((await viewBtn.count()) > 0 ? viewBtn.click() : rows.nth(i).click());
+    await page.locator('main#main').getByText('Status', { exact: true }).first().waitFor({ state: 'visible', timeout: 10000 });
+    return { name, value: await readLabelledValues(page) };
+  }
+  return null;
+}
+
+/** A whole number shown in the report, e.g. "1,000"; undefined if missing */
+function reportNumber(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  const value = Number(text.replace(/,/g, ''));
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Find the newest Application Report entry for `companyName` and judge it.
+ * Never throws: a failed lookup is reported as unverified.
+ */
+async function verifyInReport(page: Page, companyName: string, kitta: number): Promise<Verification> {
+  try {
+    const entry = await openReportEntry(page, companyName);
+    if (!entry) return judgeReportEntry(kitta, null);
+    return judgeReportEntry(kitta, {
+      status: entry.value('Status') || 'N/A',
+      appliedKitta: reportNumber(entry.value('Applied Kitta')),
+    });
+  } catch (err) {
+    return verificationFailed(err);
+  }
+}
+
+/** How long the final Apply click is given to get an answer, response or toast */
+const APPLY_ANSWER_TIMEOUT_MS = 30000;
+
+/** How long a response is still waited for once the toast has shown */
+const RESPONSE_AFTER_TOAST_MS = 2000;
+
+/**
+ * Meroshare's answer to the final Apply click: the apply request's response
+ * when it is seen, otherwise the toast the page showed. The two are raced, so
+ * a response that never shows up costs no more than a moment after the toast.
+ */
+async function readApplyResult(page: Page, response: Promise<Response | null>): Promise<ApplyResult> {
+  const toast = page.locator('.toast-message, .toast').first();
+  const toastText = toast.waitFor({ state: 'visible', timeout: APPLY_ANSWER_TIMEOUT_MS })
+    .then(() => toast.innerText())
+    .catch(() => '');
+
+  let res = await Promise.race([response, toastText.then(() => null)]);
+  // The toast usually follows the response; give a response still in flight a moment
+  if (!res) res = await Promise.race([response, page.waitForTimeout(RESPONSE_AFTER_TOAST_MS).then(() => null, () => null)]);
+  if (res) {
+    const body = await res.text().catch(() => '');
+    return classifyApplyResult(res.status(), messageFromBody(body) || res.statusText());
+  }
+  const text = await toastText;
+  return classifyApplyResult(undefined, text.trim() || 'No response to the application and no message shown');
+}
+
+/** Start listening for the apply request's response; call before clicking the final Apply */
+function waitForApplyResponse(page: Page): Promise<Response | null> {
+  return page.waitForResponse(
+    (res) => res.request().method() === 'POST' && res.url().includes('applicantForm/share/apply'),
+    { timeout: APPLY_ANSWER_TIMEOUT_MS },
+  ).catch(() => null);
 }
 
 // ── Playwright Helpers (extracted from tests/login.spec.ts) ──────────────────
@@ -117,7 +540,7 @@ async function typeIntoField(input: any, value: string, delay = 50) {
 
 async function loginToMeroshare(page: Page, cred: Credential, dpCode: string, emit: (e: AutomationEvent) => void) {
   // Navigate to login page
-  await page.goto(BASE_URL);
+  await page.goto(getBaseUrl());
   await page.waitForURL('**/login', { timeout: 15000 });
   emit({ type: 'log', message: 'On login page' });
 
@@ -173,13 +596,151 @@ async function loginToMeroshare(page: Page, cred: Credential, dpCode: string, em
   const status = loginResponse.status();
   if (status !== 200) {
     const body = await loginResponse.text().catch(() => '(unreadable)');
-    throw new Error(`Login failed with HTTP ${status}: ${body}`);
+    throw httpStatusError(status, `Login failed with HTTP ${status}: ${body}`);
   }
 
   await page.waitForURL('**/dashboard', { timeout: 15000 });
   emit({ type: 'log', message: 'Logged in successfully — on dashboard' });
 }
 
+// ── Sessions ─────────────────────────────────────────────────────────────────
+
+async function snapshotSession(page: Page): Promise<BrowserSession> {
+  const storageState = await page.context().storageState();
+  const sessionStorage: Record<string, string> = JSON.parse(
+    await page.evaluate(() => JSON.stringify((globalThis as any).sessionStorage)),
+  );
+  return { storageState, sessionStorage };
+}
+
+/** A browser context, recording a trace when ARTIFACT_TRACES=true so a failure can save it */
+async function newContext(browser: Browser, options: BrowserContextOptions = {}): Promise<BrowserContext> {
+  const context = await browser.newContext(options);
+  if (tracesEnabled()) await context.tracing.start({ screenshots: true, snapshots: true });
+  return context;
+}
+
+/** Try a saved session; resolves null if Meroshare bounced us back to login */
+async function restoreSession(browser: Browser, session: BrowserSession): Promise<Page | null> {
+  const context = await newContext(browser, { storageState: session.storageState });
+  // sessionStorage isn't part of storage state — put it back before the app boots
+  await context.addInitScript((snapshot: Record<string, string>) => {
+    const storage = (globalThis as any).sessionStorage;
+    if (storage.length > 0) return;
+    for (const [key, value] of Object.entries(snapshot)) storage.setItem(key, value);
+  }, session.sessionStorage);
+
+  const page = await context.newPage();
+  await page.goto(getBaseUrl());
+  // An expired token only shows up once the dashboard's first API call fails
+  await page.waitForLoadState('networkidle', { timeout: 15000 }).catch(() => {});
+  const onLogin = page.url().includes('/login');
+  if (onLogin || !(await page.locator('a[href="#/asba"]').isVisible())) {
+    await context.close();
+    return null;
+  }
+  return page;
+}
+
+/**
+ * Open a logged-in page, reusing the saved session for this DP/username when
+ * it is still valid and logging in (then saving the new session) otherwise.
+ * A login that times out or hits a 5xx is retried in a fresh context.
+ */
+async function openLoggedInPage(
+  browser: Browser,
+  cred: Credential,
+  emit: (e: AutomationEvent) => void,
+  signal?: AbortSignal,
+): Promise<Page> {
+  const saved = getBrowserSession(cred);
+  if (saved) {
+    const page = await restoreSession(browser, saved);
+    if (page) {
+      saveBrowserSession(cred, saved);
+      emit({ type: 'log', message: `Reusing saved session for "${cred.username}"` });
+      return page;
+    }
+    invalidateSession(cred);
+    emit({ type: 'log', message: 'Saved session expired — logging in again' });
+  }
+
+  let page: Page;
+  try {
+    page = await withRetry('login', async () => {
+      const context = await newContext(browser);
+      const attemptPage = await context.newPage();
+      try {
+        await loginToMeroshare(attemptPage, cred, cred.DP_CODE, emit);
+      } catch (err) {
+        await context.close();
+        throw err;
+      }
+      return attemptPage;
+    }, retryOptions(emit, signal));
+  } catch (err) {
+    invalidateSession(cred);
+    throw err;
+  }
+  saveBrowserSession(cred, await snapshotSession(page));
+  return page;
+}
+
+// ── Navigation ───────────────────────────────────────────────────────────────
+
+/** Resolves with the next "Apply for Issue" list response; never rejects unobserved */
+function waitForIssueList(page: Page): Promise<Response> {
+  const response = page.waitForResponse((resp) => resp.url().includes('/companyShare/applicableIssue'), { timeout: 20000 });
+  response.catch(() => {});
+  return response;
+}
+
+/**
+ * Open My ASBA and wait for its "Apply for Issue" list to load. A click that
+ * doesn't get there is repeated, and a list that fails or never comes is
+ * reloaded, each with backoff.
+ */
+async function openMyAsba(page: Page, onEvent: (event: AutomationEvent) => void, signal?: AbortSignal) {
+  const options = retryOptions(onEvent, signal);
+  let listResponse = waitForIssueList(page);
+
+  await withRetry('navigate', async () => {
+    const asbaLink = page.locator('a[href="#/asba"]');
+    await asbaLink.waitFor({ state: 'visible', timeout: 10000 });
+    await asbaLink.click();
+    await page.waitForURL('**/asba', { timeout: 15000 });
+  }, options);
+  onEvent({ type: 'log', message: 'Navigated to My ASBA' });
+
+  await withRetry('issueList', async (attempt) => {
+    if (attempt > 1) {
+      listResponse = waitForIssueList(page);
+      await page.reload();
+    }
+    const response = await listResponse;
+    if (!response.ok()) {
+      throw httpStatusError(response.status(), `Issue list failed with HTTP ${response.status()}`);
+    }
+  }, options);
+  // Give the list a moment to render
+  await page.waitForTimeout(1500);
+}
+
+/** Click an issue's Apply button and wait for its form, reloading the form if it doesn't show */
+async function openApplyForm(
+  page: Page,
+  clickApply: () => Promise<void>,
+  onEvent: (event: AutomationEvent) => void,
+  signal?: AbortSignal,
+) {
+  await clickApply();
+  await withRetry('applyForm', async (attempt) => {
+    if (attempt > 1) await page.reload();
+    await page.locator('input#appliedKitta').waitFor({ state: 'visible', timeout: 15000 });
+  }, retryOptions(onEvent, signal));
+  await page.waitForTimeout(1000);
+}
+
 // ── Main Automation Function ─────────────────────────────────────────────────
 
 export async function runMeroshareAutomation(
@@ -187,52 +748,23 @@ export async function runMeroshareAutomation(
   cred: Credential,
   maxReports: number,
   onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
 ): Promise<void> {
   let browser: Browser | null = null;
 
   try {
     onEvent({ type: 'log', message: `Starting automation for "${accountName}" ...` });
 
+    checkpoint(signal);
     browser = await chromium.launch(BROWSER_LAUNCH_OPTIONS);
-    const context = await browser.newContext();
-    const page = await context.newPage();
 
     // ── Login ────────────────────────────────────────────────────────────
-    await loginToMeroshare(page, cred, cred.DP_CODE, onEvent);
-
-    // ── Navigate to My ASBA ──────────────────────────────────────────────
-    const asbaLink = page.locator('a[href="#/asba"]');
-    await asbaLink.waitFor({ state: 'visible', timeout: 10000 });
-    await asbaLink.click();
-    await page.waitForURL('**/asba', { timeout: 15000 });
-    onEvent({ type: 'log', message: 'Navigated to My ASBA' });
-
-    await page.waitForTimeout(3000);
+    const page = await openLoggedInPage(browser, cred, onEvent, signal);
+    checkpoint(signal);
 
     // ── Check "Apply for Issue" tab ──────────────────────────────────────
-    const companyItems = page.locator('.company-list');
-    const itemCount = await companyItems.count();
-
-    if (itemCount > 0) {
-      onEvent({ type: 'log', message: `Found ${itemCount} open issues in "Apply for Issue"` });
-      for (let i = 0; i < itemCount; i++) {
-        const item = companyItems.nth(i);
-        const nameEl = item.locator('.company-name span[tooltip="Company Name"]');
-        const companyName = (await nameEl.textContent().catch(() => ''))?.trim() || 'N/A';
-        const subGroupEl = item.locator('.company-name span[tooltip="Sub Group"]');
-        const subGroup = (await subGroupEl.textContent().catch(() => ''))?.trim() || 'N/A';
-        const shareTypeEl = item.locator('.share-of-type');
-        const shareType = (await shareTypeEl.textContent().catch(() => ''))?.trim() || 'N/A';
-        const shareGroupEl = item.locator('.isin');
-        const shareGroup = (await shareGroupEl.textContent().catch(() => ''))?.trim() || 'N/A';
-        // Check if the issue has a clickable Apply button
-        const applyBtn = item.locator('button').filter({ hasText: /apply/i }).first();
-        const hasApplyButton = (await applyBtn.count()) > 0;
-        onEvent({ type: 'issue', data: { name: companyName, subGroup, shareType, shareGroup, hasApplyButton } });
-      }
-    } else {
-      onEvent({ type: 'log', message: 'No open issues — switching to Application Report tab' });
-    }
+    const issues = await scrapeOpenIssues(page, onEvent, { signal });
+    for (const issue of issues) onEvent({ type: 'issue', data: issue });
 
     // ── Switch to "Application Report" tab ───────────────────────────────
     const appReportTab = page.locator('.page-title-action-tab .nav-item a')
@@ -261,6 +793,7 @@ export async function runMeroshareAutomation(
 
     // Second pass: click each record, extract Status + Remarks, navigate back
     for (let i = 0; i < processCount; i++) {
+      checkpoint(signal);
       const { name, shareType } = records[i];
 
       const currentItems = page.locator('.company-list');
@@ -318,7 +851,7 @@ export async function runMeroshareAutomation(
 
     onEvent({ type: 'done' });
   } catch (err: any) {
-    onEvent({ type: 'error', message: err.message || String(err) });
+    emitFailure(err, onEvent);
   } finally {
     if (browser) {
       await browser.close();
@@ -326,60 +859,110 @@ export async function runMeroshareAutomation(
   }
 }
 
-// ── Scan-Only Function ──────────────────────────────────────────────────────
+// ── Application Report Export ────────────────────────────────────────────────
 
-export async function scanForIssues(
+/** The Application Report page the list shows, from its pagination; 1 when there is none */
+async function currentReportPage(page: Page): Promise<number> {
+  const active = page.locator('.pagination .page-item.active').first();
+  if ((await active.count()) === 0) return 1;
+  return Number((await active.innerText()).trim()) || 1;
+}
+
+/** Page the Application Report list forwards or back to `target` */
+async function goToReportPage(page: Page, target: number) {
+  for (let step = 0; step <= target; step++) {
+    const current = await currentReportPage(page);
+    if (current === target) return;
+    const label = current < target ? 'Next' : 'Previous';
+    await page.locator(`.pagination .page-item:not(.disabled) a[aria-label="${label}"]`).first().click();
+    await page.locator('.company-list').first().waitFor({ state: 'visible', timeout: 10000 });
+    await page.waitForTimeout(1000);
+  }
+  throw new Error(`Could not get to page ${target} of the Application Report`);
+}
+
+/** Back from an entry's details to the Application Report list, on page `target` */
+async function returnToReportPage(page: Page, target: number) {
+  await page.goBack();
+  await page.locator('.page-title-action-tab').waitFor({ state: 'visible', timeout: 10000 });
+  const activeTab = (await page.locator('.page-title-action-tab .nav-item a.active').textContent().catch(() => ''))?.trim();
+  if (!activeTab?.includes('Application Report')) {
+    await page.locator('.page-title-action-tab .nav-item a').filter({ hasText: 'Application Report' }).first().click();
+  }
+  await page.locator('.company-list').first().waitFor({ state: 'visible', timeout: 10000 });
+  await page.waitForTimeout(1000);
+  await goToReportPage(page, target);
+}
+
+/**
+ * Walk every page of the Application Report, opening each entry to read its
+ * details. Each entry is a `report_record` event, in the order listed.
+ */
+export async function exportApplicationReport(
   accountName: string,
   cred: Credential,
   onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
 ): Promise<void> {
   let browser: Browser | null = null;
 
   try {
-    onEvent({ type: 'log', message: `Scanning for open issues using "${accountName}" ...` });
+    onEvent({ type: 'log', message: `Exporting the Application Report for "${accountName}" ...` });
 
+    checkpoint(signal);
     browser = await chromium.launch(BROWSER_LAUNCH_OPTIONS);
-    const context = await browser.newContext();
-    const page = await context.newPage();
-
-    await loginToMeroshare(page, cred, cred.DP_CODE, onEvent);
-
-    // Navigate to My ASBA
-    const asbaLink = page.locator('a[href="#/asba"]');
-    await asbaLink.waitFor({ state: 'visible', timeout: 10000 });
-    await asbaLink.click();
-    await page.waitForURL('**/asba', { timeout: 15000 });
-    onEvent({ type: 'log', message: 'Navigated to My ASBA' });
-    await page.waitForTimeout(3000);
+    const page = await openLoggedInPage(browser, cred, onEvent, signal);
+    checkpoint(signal);
+
+    await openApplicationReport(page);
+    let exported = 0;
+    for (let pageNumber = 1; ; pageNumber++) {
+      const rows = page.locator('.company-list');
+      const count = await rows.count();
+      onEvent({ type: 'log', message: `Application Report page ${pageNumber}: ${count} records` });
+
+      for (let i = 0; i < count; i++) {
+        checkpoint(signal);
+        const row = page.locator('.company-list').nth(i);
+        const text = async (selector: string) => (await row.locator(selector).first().textContent().catch(() => ''))?.trim() || undefined;
+        const companyName = (await text('.company-name span[tooltip="Company Name"]')) ?? '';
+        const subGroup = await text('.company-name span[tooltip="Sub Group"]');
+        const shareType = (await text('.share-of-type')) ?? '';
+
+        await row.scrollIntoViewIfNeeded();
+        const viewBtn = row.locator('.action-buttons button:visible, .action-buttons i:visible').first();
+        await ((await viewBtn.count()) > 0 ? viewBtn.click() : row.click());
+        await page.locator('main#main').getByText('Status', { exact: true }).first().waitFor({ state: 'visible', timeout: 10000 });
+        const value = await readLabelledValues(page);
 
-    // Scrape the "Apply for Issue" tab (default active tab)
-    const companyItems = page.locator('.company-list');
-    const itemCount = await companyItems.count();
-
-    if (itemCount > 0) {
-      onEvent({ type: 'log', message: `Found ${itemCount} open issue(s)` });
-      for (let i = 0; i < itemCount; i++) {
-        const item = companyItems.nth(i);
-        const nameEl = item.locator('.company-name span[tooltip="Company Name"]');
-        const companyName = (await nameEl.textContent().catch(() => ''))?.trim() || 'N/A';
-        const subGroupEl = item.locator('.company-name span[tooltip="Sub Group"]');
-        const subGroup = (await subGroupEl.textContent().catch(() => ''))?.trim() || 'N/A';
-        const shareTypeEl = item.locator('.share-of-type');
-        const shareType = (await shareTypeEl.textContent().catch(() => ''))?.trim() || 'N/A';
-        const shareGroupEl = item.locator('.isin');
-        const shareGroup = (await shareGroupEl.textContent().catch(() => ''))?.trim() || 'N/A';
-        // Check if the issue has a clickable Apply button
-        const applyBtn = item.locator('button').filter({ hasText: /apply/i }).first();
-        const hasApplyButton = (await applyBtn.count()) > 0;
-        onEvent({ type: 'issue', data: { name: companyName, subGroup, shareType, shareGroup, hasApplyButton } });
+        onEvent({
+          type: 'report_record',
+          data: {
+            account: accountName,
+            companyName,
+            shareType,
+            subGroup,
+            appliedDate: value('Applied Date'),
+            appliedKitta: reportNumber(value('Applied Kitta')),
+            amount: reportNumber(value('Amount')),
+            status: value('Status') || '',
+            remarks: value('Remarks'),
+            receivedKitta: reportNumber(value('Received Kitta')),
+          },
+        });
+        exported++;
+        await returnToReportPage(page, pageNumber);
       }
-    } else {
-      onEvent({ type: 'log', message: 'No open issues found' });
+
+      const next = page.locator('.pagination .page-item:not(.disabled) a[aria-label="Next"]');
+      if ((await next.count()) === 0) break;
+      await goToReportPage(page, pageNumber + 1);
     }
 
+    onEvent({ type: 'log', message: `Exported ${exported} record(s)` });
     onEvent({ type: 'done' });
   } catch (err: any) {
-    onEvent({ type: 'error', message: err.message || String(err) });
+    emitFailure(err, onEvent);
   } finally {
     if (browser) {
       await browser.close();
@@ -387,136 +970,364 @@ export async function scanForIssues(
   }
 }
 
-// ── IPO Application Function ────────────────────────────────────────────────
+// ── Scan-Only Function ──────────────────────────────────────────────────────
+
+/** Looks up the line after a label in main#main, as Meroshare lays out details pages */
+async function readLabelledValues(page: Page): Promise<(label: string) => string | undefined> {
+  const lines = (await page.locator('main#main').innerText()).split('\n').map((l) => l.trim()).filter(Boolean);
+  return (label: string) => {
+    const i = lines.findIndex((l) => l.toLowerCase() === label.toLowerCase());
+    return i >= 0 && i + 1 < lines.length ? lines[i + 1] : undefined;
+  };
+}
+
+/** Label/value pairs of the issue details shown on an open apply form */
+async function readApplyFormDetails(page: Page): Promise<Partial<IssueInfo>> {
+  const text = await readLabelledValues(page);
+  const number = (label: string) => {
+    const match = text(label)?.replace(/,/g, '').match(/\d+(\.\d+)?/);
+    return match ? Number(match[0]) : undefined;
+  };
+  return {
+    issueManager: text('Issue Manager'),
+    openDate: text('Issue Open Date'),
+    closeDate: text('Issue Close Date'),
+    pricePerUnit: number('Price Per Unit'),
+    minUnit: number('Minimum Unit'),
+    maxUnit: number('Maximum Unit'),
+    multipleOf: number('Multiple Of'),
+  };
+}
+
+/** A company can list an ordinary and a reserved issue at once; the sub group tells them apart */
+function listedKey(companyName: string, subGroup?: string): string {
+  return `${normalizeCompanyName(companyName)}|${(subGroup || 'N/A').trim().toLowerCase()}`;
+}
 
 /**
- * Select the first non-placeholder option in a <select>.
- * Meroshare uses "Please choose one" as placeholder text.
+ * Open My ASBA and read the "Apply for Issue" list, in display order. The
+ * list's API response is sniffed on the way for each issue's companyShareId
+ * and dates. With `withDetails`, each issue that can be applied for also has
+ * its apply form opened (and left without submitting) to read price and units.
  */
-async function selectFirstRealOption(selectLocator: any, fieldName: string): Promise<string> {
-  await selectLocator.waitFor({ state: 'visible', timeout: 10000 });
+async function scrapeOpenIssues(
+  page: Page,
+  onEvent: (event: AutomationEvent) => void,
+  { withDetails = false, signal }: { withDetails?: boolean; signal?: AbortSignal } = {},
+): Promise<IssueInfo[]> {
+  const listed = new Map<string, { companyShareId?: number; issueOpenDate?: string; issueCloseDate?: string }>();
+  const handler = async (resp: any) => {
+    if (!resp.url().includes('/companyShare/applicableIssue')) return;
+    try {
+      const body = await resp.json();
+      for (const item of body?.object ?? []) {
+        if (item?.companyName) listed.set(listedKey(item.companyName, item.subGroup), item);
+      }
+    } catch { /* not JSON, fall back to hashed IDs */ }
+  };
 
-  const options = selectLocator.locator('option');
-  const optionCount = await options.count();
+  // Navigate to My ASBA
+  page.on('response', handler);
+  try {
+    await openMyAsba(page, onEvent, signal);
+  } finally {
+    page.off('response', handler);
+  }
 
-  for (let i = 0; i < optionCount; i++) {
-    const text = ((await options.nth(i).textContent()) || '').trim();
-    const value = (await options.nth(i).getAttribute('value')) || '';
-    if (
-      text !== '' &&
-      !text.toLowerCase().includes('please choose') &&
-      !text.toLowerCase().includes('select') &&
-      value !== '' &&
-      value !== 'null' &&
-      value !== 'undefined'
-    ) {
-      await selectLocator.selectOption({ index: i });
-      await selectLocator.dispatchEvent('change');
-      return text;
+  // Scrape the "Apply for Issue" tab (default active tab)
+  const companyItems = page.locator('.company-list');
+  const itemCount = await companyItems.count();
+  const issues: IssueInfo[] = [];
+
+  if (itemCount > 0) {
+    onEvent({ type: 'log', message: `Found ${itemCount} open issue(s)` });
+    for (let i = 0; i < itemCount; i++) {
+      const item = companyItems.nth(i);
+      const nameEl = item.locator('.company-name span[tooltip="Company Name"]');
+      const companyName = (await nameEl.textContent().catch(() => ''))?.trim() || 'N/A';
+      const subGroupEl = item.locator('.company-name span[tooltip="Sub Group"]');
+      const subGroup = (await subGroupEl.textContent().catch(() => ''))?.trim() || 'N/A';
+      const shareTypeEl = item.locator('.share-of-type');
+      const shareType = (await shareTypeEl.textContent().catch(() => ''))?.trim() || 'N/A';
+      const shareGroupEl = item.locator('.isin');
+      const shareGroup = (await shareGroupEl.textContent().catch(() => ''))?.trim() || 'N/A';
+      // Check if the issue has a clickable Apply button
+      const applyBtn = item.locator('button').filter({ hasText: /apply/i }).first();
+      const hasApplyButton = (await applyBtn.count()) > 0;
+      const fields = { name: companyName, shareType, shareGroup };
+      const fromList = listed.get(listedKey(companyName, subGroup));
+      issues.push({
+        id: issueId(fields, fromList?.companyShareId),
+        ...fields,
+        subGroup,
+        hasApplyButton,
+        openDate: fromList?.issueOpenDate,
+        closeDate: fromList?.issueCloseDate,
+      });
     }
+  } else {
+    onEvent({ type: 'log', message: 'No open issues found' });
   }
 
-  throw new Error(`[${fieldName}] No valid (non-placeholder) option found`);
+  if (withDetails) {
+    for (let i = 0; i < issues.length; i++) {
+      if (!issues[i].hasApplyButton) continue;
+      const applyBtn = companyItems.nth(i).locator('button').filter({ hasText: /apply/i }).first();
+      await openApplyForm(page, () => applyBtn.click(), onEvent, signal);
+      const details = await readApplyFormDetails(page);
+      issues[i] = {
+        ...issues[i],
+        ...details,
+        openDate: issues[i].openDate || details.openDate,
+        closeDate: issues[i].closeDate || details.closeDate,
+      };
+      onEvent({ type: 'log', message: `Read details for ${issues[i].name}` });
+
+      await page.goBack();
+      await companyItems.first().waitFor({ state: 'visible', timeout: 10000 });
+      await page.waitForTimeout(1000);
+    }
+  }
+
+  return issues;
 }
 
-export async function applyForIPO(
+export async function scanForIssues(
   accountName: string,
   cred: Credential,
-  companyIndex: number,
-  appliedKitta: string,
-  transactionPIN: string,
   onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
 ): Promise<void> {
   let browser: Browser | null = null;
 
   try {
-    onEvent({ type: 'log', message: `Starting IPO application for "${accountName}" ...` });
+    onEvent({ type: 'log', message: `Scanning for open issues using "${accountName}" ...` });
 
+    checkpoint(signal);
     browser = await chromium.launch(BROWSER_LAUNCH_OPTIONS);
-    const context = await browser.newContext();
-    const page = await context.newPage();
-
-    // ── Login ────────────────────────────────────────────────────────────
-    await loginToMeroshare(page, cred, cred.DP_CODE, onEvent);
+    const page = await openLoggedInPage(browser, cred, onEvent, signal);
+    checkpoint(signal);
 
-    // ── Navigate to My ASBA ──────────────────────────────────────────────
-    const asbaLink = page.locator('a[href="#/asba"]');
-    await asbaLink.waitFor({ state: 'visible', timeout: 10000 });
-    await asbaLink.click();
-    await page.waitForURL('**/asba', { timeout: 15000 });
-    onEvent({ type: 'log', message: 'Navigated to My ASBA' });
-    await page.waitForTimeout(3000);
+    const issues = await scrapeOpenIssues(page, onEvent, { withDetails: true, signal });
+    for (const issue of issues) onEvent({ type: 'issue', data: issue });
 
-    // ── Find and click Apply on the target IPO ───────────────────────────
-    const companyItems = page.locator('.company-list');
-    const itemCount = await companyItems.count();
+    onEvent({ type: 'done' });
+  } catch (err: any) {
+    emitFailure(err, onEvent);
+  } finally {
+    if (browser) {
+      await browser.close();
+    }
+  }
+}
+
+// ── IPO Application Function ────────────────────────────────────────────────
+
+/**
+ * Refuse to fill in an apply form for any company but `companyName` — the
+ * issue list can change between finding the row and the form opening.
+ */
+async function assertFormIsFor(page: Page, companyName: string) {
+  const header = page.locator('main#main .company-title').first();
+  const text = (await header.count()) > 0
+    ? await header.innerText()
+    : await page.locator('main#main').innerText();
+  if (!normalizeCompanyName(text).includes(normalizeCompanyName(companyName))) {
+    const shown = text.trim().split('\n')[0] || '(empty)';
+    throw new Error(`The apply form shows "${shown}", not "${companyName}" — not applying`);
+  }
+}
+
+/**
+ * Type applied kitta into the open apply form and check the amount Meroshare
+ * worked out from it. Throws KittaValidationError if it is not price × kitta.
+ */
+async function fillAppliedKitta(page: Page, kitta: number, pricePerUnit?: number): Promise<string> {
+  const kittaInput = page.locator('input#appliedKitta');
+  await typeIntoField(kittaInput, String(kitta));
+  await kittaInput.dispatchEvent('input');
+  await kittaInput.dispatchEvent('change');
+  await kittaInput.press('Tab');
+  await page.waitForTimeout(1500);
+
+  const amountInput = page.locator('input#amount');
+  const amount = (await amountInput.count()) > 0 ? await amountInput.inputValue() : '';
+  if (pricePerUnit !== undefined) validateAmount(amount, kitta, pricePerUnit);
+  return amount;
+}
+
+/** Rs amount from the form's Amount field, if it shows one */
+function parseAmount(text: string): number | undefined {
+  const amount = Number(text.replace(/[^0-9.]/g, ''));
+  return text.trim() && Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * The option a saved bank/account preference names: an exact match (ignoring
+ * case and spacing) wins, otherwise the first option containing it.
+ */
+export function findPreferred<T>(options: T[], label: (option: T) => string, preferred: string): T | undefined {
+  const wanted = normalizeCompanyName(preferred);
+  if (!wanted) return undefined;
+  return options.find((o) => normalizeCompanyName(label(o)) === wanted)
+    ?? options.find((o) => normalizeCompanyName(label(o)).includes(wanted));
+}
+
+/**
+ * Select the option matching `preferred`, or the first real option (with a
+ * warning) when there is no preference or nothing matches.
+ */
+async function selectPreferredOption(
+  selectLocator: any,
+  fieldName: string,
+  preferred: string | undefined,
+  onEvent: (event: AutomationEvent) => void,
+): Promise<string> {
+  if (!preferred) return selectFirstRealOption(selectLocator, fieldName);
+
+  await selectLocator.waitFor({ state: 'visible', timeout: 10000 });
+  const texts: string[] = (await selectLocator.locator('option').allTextContents()).map((t: string) => t.trim());
+  const match = findPreferred(texts.map((text, index) => ({ text, index })), (o) => o.text, preferred);
+  if (match) {
+    await selectLocator.selectOption({ index: match.index });
+    await selectLocator.dispatchEvent('change');
+    return match.text;
+  }
+
+  const fallback = await selectFirstRealOption(selectLocator, fieldName);
+  onEvent({ type: 'log', message: `⚠️ [${fieldName}] No option matches "${preferred}" — using "${fallback}"` });
+  return fallback;
+}
+
+/**
+ * Select the first non-placeholder option in a <select>.
+ * Meroshare uses "Please choose one" as placeholder text.
+ */
+async function selectFirstRealOption(selectLocator: any, fieldName: string): Promise<string> {
+  await selectLocator.waitFor({ state: 'visible', timeout: 10000 });
+
+  const options = selectLocator.locator('option');
+  const optionCount = await options.count();
 
-    if (itemCount === 0) {
+  for (let i = 0; i < optionCount; i++) {
+    const text = ((await options.nth(i).textContent()) || '').trim();
+    const value = (await options.nth(i).getAttribute('value')) || '';
+    if (
+      text !== '' &&
+      !text.toLowerCase().includes('please choose') &&
+      !text.toLowerCase().includes('select') &&
+      value !== '' &&
+      value !== 'null' &&
+      value !== 'undefined'
+    ) {
+      await selectLocator.selectOption({ index: i });
+      await selectLocator.dispatchEvent('change');
+      return text;
+    }
+  }
+
+  throw new Error(`[${fieldName}] No valid (non-placeholder) option found`);
+}
+
+export async function applyForIPO(
+  accountName: string,
+  cred: Credential,
+  targetIssueId: string,
+  expectedCompanyName: string | undefined,
+  appliedKitta: string,
+  transactionPIN: string,
+  emitEvent: (event: AutomationEvent) => void,
+  { signal, dryRun = false, jobId }: AutomationOptions = {},
+): Promise<void> {
+  let browser: Browser | null = null;
+  let page: Page | null = null;
+  // Errors are captured from the page before the browser closes
+  let failed = false;
+  const onEvent = (event: AutomationEvent) => {
+    if (event.type === 'error') failed = true;
+    emitEvent(event);
+  };
+
+  try {
+    const dryRunLabel = dryRun ? ' (dry run)' : '';
+    onEvent({ type: 'log', message: `Starting IPO application for "${accountName}"${dryRunLabel} ...` });
+
+    checkpoint(signal);
+    browser = await chromium.launch(BROWSER_LAUNCH_OPTIONS);
+
+    // ── Login ────────────────────────────────────────────────────────────
+    page = await openLoggedInPage(browser, cred, onEvent, signal);
+    checkpoint(signal);
+
+    // ── Find the target IPO by its ID ────────────────────────────────────
+    const issues = await scrapeOpenIssues(page, onEvent, { signal });
+    checkpoint(signal);
+
+    if (issues.length === 0) {
       throw new Error('No open issues found in "Apply for Issue" tab');
     }
-    if (companyIndex < 0 || companyIndex >= itemCount) {
-      throw new Error(`Invalid company index ${companyIndex}. Found ${itemCount} issues.`);
+    const targetIndex = issues.findIndex((issue) => matchesIssueId(targetIssueId, issue));
+    if (targetIndex === -1) {
+      const label = expectedCompanyName ? ` (${expectedCompanyName})` : '';
+      throw new Error(`Issue ${targetIssueId}${label} is not in the "Apply for Issue" list any more`);
     }
 
-    const targetItem = companyItems.nth(companyIndex);
-    const nameEl = targetItem.locator('.company-name span[tooltip="Company Name"]');
-    const companyName = (await nameEl.textContent().catch(() => ''))?.trim() || 'Unknown';
+    const companyName = issues[targetIndex].name;
+    if (expectedCompanyName && !sameCompany(companyName, expectedCompanyName)) {
+      throw new Error(`Issue ${targetIssueId} is "${companyName}", not "${expectedCompanyName}" — not applying`);
+    }
+    const targetItem = page.locator('.company-list').nth(targetIndex);
     onEvent({ type: 'log', message: `Applying for: ${companyName}` });
 
     // Click the Apply button
-    const applyBtn = targetItem.locator('button').filter({ hasText: /apply/i }).first();
-    const applyBtnCount = await applyBtn.count();
-    if (applyBtnCount > 0) {
-      await applyBtn.click();
-    } else {
-      const actionBtn = targetItem.locator('.action-buttons button:visible').first();
-      const actionBtnCount = await actionBtn.count();
-      if (actionBtnCount > 0) {
-        await actionBtn.click();
+    await openApplyForm(page, async () => {
+      const applyBtn = targetItem.locator('button').filter({ hasText: /apply/i }).first();
+      const applyBtnCount = await applyBtn.count();
+      if (applyBtnCount > 0) {
+        await applyBtn.click();
       } else {
-        await targetItem.click();
+        const actionBtn = targetItem.locator('.action-buttons button:visible').first();
+        const actionBtnCount = await actionBtn.count();
+        if (actionBtnCount > 0) {
+          await actionBtn.click();
+        } else {
+          await targetItem.click();
+        }
       }
-    }
-
-    await page.waitForTimeout(3000);
+    }, onEvent, signal);
+    await assertFormIsFor(page, companyName);
     onEvent({ type: 'log', message: 'Apply form loaded' });
 
+    // Check kitta against the issue's rules before touching the form
+    const rules = await readApplyFormDetails(page);
+    const kitta = validateKitta(appliedKitta, rules);
+    checkpoint(signal);
+
     // ── Fill Bank ────────────────────────────────────────────────────────
     const bankSelect = page.locator('select#selectBank');
-    const bankValue = await selectFirstRealOption(bankSelect, 'Bank');
+    const bankValue = await selectPreferredOption(bankSelect, 'Bank', cred.bankName, onEvent);
     onEvent({ type: 'log', message: `Bank selected: ${bankValue}` });
     await page.waitForTimeout(2000);
 
     // ── Fill Account Number (appears after bank selection) ───────────────
     const accountSelect = page.locator('main#main select').nth(1);
-    const accountValue = await selectFirstRealOption(accountSelect, 'Account Number');
+    const accountValue = await selectPreferredOption(accountSelect, 'Account Number', cred.accountNumber, onEvent);
     onEvent({ type: 'log', message: `Account Number selected: ${accountValue}` });
     await page.waitForTimeout(2000);
 
     // ── Branch auto-populates — just log it ──────────────────────────────
     const branchInput = page.locator('input#selectBranch');
     const branchCount = await branchInput.count();
+    let branchValue = '';
     if (branchCount > 0) {
-      const branchValue = await branchInput.inputValue();
+      branchValue = await branchInput.inputValue();
       onEvent({ type: 'log', message: `Branch: ${branchValue || '(auto-populated)'}` });
     }
 
-    // ── Fill Applied Kitta ───────────────────────────────────────────────
-    const kittaInput = page.locator('input#appliedKitta');
-    await typeIntoField(kittaInput, appliedKitta);
-    await kittaInput.dispatchEvent('input');
-    await kittaInput.dispatchEvent('change');
-    await kittaInput.press('Tab');
-    onEvent({ type: 'log', message: `Applied Kitta: ${appliedKitta}` });
-    await page.waitForTimeout(1500);
-
-    // ── Check Amount (auto-populated) ────────────────────────────────────
-    const amountInput = page.locator('input#amount');
-    const amountCount = await amountInput.count();
-    if (amountCount > 0) {
-      const amountValue = await amountInput.inputValue();
-      onEvent({ type: 'log', message: `Amount: ${amountValue || '(auto-calculated)'}` });
-    }
+    // ── Fill Applied Kitta and check Amount (auto-populated) ─────────────
+    const amountValue = await fillAppliedKitta(page, kitta, rules.pricePerUnit);
+    onEvent({ type: 'log', message: `Applied Kitta: ${kitta}` });
+    onEvent({ type: 'log', message: `Amount: ${amountValue || '(auto-calculated)'}` });
 
     // ── Fill CRN ─────────────────────────────────────────────────────────
     const crnInput = page.locator('input#crnNumber');
@@ -531,6 +1342,7 @@ export async function applyForIPO(
       await disclaimer.click({ force: true });
     }
     onEvent({ type: 'log', message: 'Declaration checkbox checked' });
+    checkpoint(signal);
 
     // ── Click Proceed ────────────────────────────────────────────────────
     const proceedBtn = page.locator('button').filter({ hasText: /proceed/i }).first();
@@ -541,29 +1353,53 @@ export async function applyForIPO(
     // ── Transaction PIN page ─────────────────────────────────────────────
     const pinInput = page.locator('input#transactionPIN');
     await pinInput.waitFor({ state: 'visible', timeout: 10000 });
+    if (dryRun) {
+      reportDryRun(accountName, {
+        companyName,
+        bank: bankValue,
+        accountNumber: accountValue,
+        branch: branchValue || undefined,
+        appliedKitta: kitta,
+        amount: parseAmount(amountValue),
+        crn: cred.CRN,
+      }, onEvent);
+      onEvent({ type: 'done' });
+      return;
+    }
     await typeIntoField(pinInput, transactionPIN);
     onEvent({ type: 'log', message: 'Transaction PIN entered' });
     await page.waitForTimeout(500);
 
+    // Last chance to stop — once Apply is clicked we always read the result
+    checkpoint(signal);
+
     // Click the Apply button on the PIN page
     const finalApplyBtn = page.locator('button').filter({ hasText: /apply/i }).first();
     await finalApplyBtn.waitFor({ state: 'visible', timeout: 5000 });
+    const response = waitForApplyResponse(page);
     await finalApplyBtn.click();
     onEvent({ type: 'log', message: 'Clicked Apply — submitting application...' });
-    await page.waitForTimeout(5000);
-
-    // Check for success or error messages on the page
-    const pageText = await page.locator('body').innerText();
-    if (pageText.toLowerCase().includes('success') || pageText.toLowerCase().includes('applied')) {
-      onEvent({ type: 'apply_success', message: `Successfully applied for ${companyName}` });
-    } else {
-      onEvent({ type: 'log', message: `Application submitted for ${companyName}. Check Meroshare for status.` });
-    }
 
-    onEvent({ type: 'done' });
+    const result = await readApplyResult(page, response);
+    onEvent({ type: 'log', message: `Meroshare answered: ${result.message}` });
+    await recordReceiptFromPage(page, jobId, {
+      account: accountName,
+      companyName,
+      appliedKitta: kitta,
+      amount: parseAmount(amountValue),
+      bank: bankValue,
+      accountNumber: accountValue,
+      outcome: result.outcome,
+      message: result.message,
+    }, onEvent);
+
+    // ── Confirm in the Application Report ────────────────────────────────
+    const verification = needsVerification(result) ? await verifyInReport(page, companyName, kitta) : undefined;
+    finishApply(accountName, companyName, result, verification, onEvent);
   } catch (err: any) {
-    onEvent({ type: 'error', message: err.message || String(err) });
+    emitFailure(err, onEvent);
   } finally {
+    if (failed) await captureFailureArtifacts(page, accountName, jobId, onEvent);
     if (browser) {
       await browser.close();
     }
@@ -573,19 +1409,14 @@ export async function applyForIPO(
 // ── Bulk Apply Function ─────────────────────────────────────────────────────
 
 /**
- * Apply for a specific IPO across multiple accounts sequentially.
- * For each account: login → ASBA → find IPO by name → check Apply vs Edit → apply.
+ * Accounts that share the same DP + username log into the same Meroshare
+ * account. Warn about them, report all but the first as errors, and return
+ * the entries that should actually be processed.
  */
-export async function bulkApplyForIPO(
+export function dedupeLogins(
   accountEntries: { name: string; cred: Credential }[],
-  targetCompanyName: string,
-  appliedKitta: string,
-  defaultPIN: string,
-  accountPINs: Record<string, string>,
   onEvent: (event: AutomationEvent) => void,
-): Promise<void> {
-  onEvent({ type: 'log', message: `Bulk apply starting for "${targetCompanyName}" across ${accountEntries.length} account(s)` });
-
+): { name: string; cred: Credential }[] {
   // Warn about accounts that share the same DP + username (same Meroshare login)
   const loginKeyMap = new Map<string, string[]>();
   for (const { name, cred } of accountEntries) {
@@ -607,6 +1438,7 @@ export async function bulkApplyForIPO(
             account: n,
             status: 'error',
             message: `Duplicate login — same DP (${dp}) and DMAT (${user}) as "${names[0]}". Update the username/DP_CODE for this account.`,
+            duplicateOf: names[0],
           },
         });
       }
@@ -615,198 +1447,754 @@ export async function bulkApplyForIPO(
 
   // Filter out duplicate-login accounts (keep only the first of each group)
   const seenLogins = new Set<string>();
-  const deduped = accountEntries.filter(({ name, cred }) => {
+  return accountEntries.filter(({ cred }) => {
     const key = `${cred.DP_CODE}|${cred.username}`;
     if (seenLogins.has(key)) return false;
     seenLogins.add(key);
     return true;
   });
+}
 
-  for (const entry of deduped) {
-    const { name: accountName, cred } = entry;
-    let browser: Browser | null = null;
+/**
+ * Accounts in a bulk run work side by side, so tag their log lines with the
+ * account name to keep the interleaved stream readable.
+ */
+export function accountEvents(
+  accountName: string,
+  onEvent: (event: AutomationEvent) => void,
+): (event: AutomationEvent) => void {
+  return (event) => onEvent(event.type === 'log' ? { ...event, message: `[${accountName}] ${event.message}` } : event);
+}
 
-    onEvent({
-      type: 'account_status',
-      data: { account: accountName, status: 'running', message: 'Logging in...' },
-    });
+/**
+ * Run `work` for every account, as many at once as `limit` allows. Accounts
+ * start in the order given; any not started by the time the job is cancelled
+ * are reported as cancelled. `work` resolves true if it stopped for a cancel.
+ * Resolves true if the run was cancelled.
+ */
+export async function runForEachAccount(
+  entries: { name: string; cred: Credential }[],
+  limit: Limiter,
+  onEvent: (event: AutomationEvent) => void,
+  signal: AbortSignal | undefined,
+  work: (entry: { name: string; cred: Credential }) => Promise<boolean>,
+): Promise<boolean> {
+  let cancelled = false;
+  await Promise.all(entries.map((entry) => limit(async () => {
+    if (signal?.aborted) {
+      cancelled = true;
+      onEvent({
+        type: 'account_status',
+        data: { account: entry.name, status: 'cancelled', message: 'Cancelled before this account was processed' },
+      });
+      return;
+    }
+    if (await work(entry)) cancelled = true;
+  })));
+  return cancelled;
+}
 
-    try {
-      browser = await chromium.launch(BROWSER_LAUNCH_OPTIONS);
-      const context = await browser.newContext();
-      const page = await context.newPage();
+/**
+ * How a bulk job gets one account logged in — a page, an API client — and
+ * lets go of it afterwards. `failed` is true if the account ended in error.
+ */
+export interface AccountSession<S> {
+  open: (cred: Credential, onEvent: (event: AutomationEvent) => void, signal?: AbortSignal) => Promise<S>;
+  close?: (session: S | null, accountName: string, failed: boolean, onEvent: (event: AutomationEvent) => void) => Promise<void>;
+}
 
-      // ── Login ──────────────────────────────────────────────────────────
+/**
+ * runForEachAccount for jobs that log every account in first. The login, a
+ * cancel (reported with `cancelledMessage`) and any error become the
+ * account's status, so `step` only does the account's work and reports how
+ * it went. Resolves true if the run was cancelled.
+ */
+export async function runForEachLoggedInAccount<S>(
+  entries: { name: string; cred: Credential }[],
+  limit: Limiter,
+  onEvent: (event: AutomationEvent) => void,
+  signal: AbortSignal | undefined,
+  session: AccountSession<S>,
+  cancelledMessage: string,
+  step: (session: S, entry: { name: string; cred: Credential }, emit: (event: AutomationEvent) => void) => Promise<void>,
+): Promise<boolean> {
+  return runForEachAccount(entries, limit, onEvent, signal, async (entry) => {
+    const { name, cred } = entry;
+    const tagged = accountEvents(name, onEvent);
+    let opened: S | null = null;
+    let failed = false;
+    const emit = (event: AutomationEvent) => {
+      if (event.type === 'account_status') failed = event.data.status === 'error';
+      tagged(event);
+    };
+
+    emit({ type: 'account_status', data: { account: name, status: 'running', message: 'Logging in...' } });
+    try {
       try {
-        await loginToMeroshare(page, cred, cred.DP_CODE, onEvent);
+        opened = await session.open(cred, emit, signal);
       } catch (loginErr: any) {
-        onEvent({
+        // Cancelled while waiting to retry the login
+        if (loginErr instanceof AutomationCancelledError) throw loginErr;
+        emit({
           type: 'account_status',
-          data: {
-            account: accountName,
-            status: 'login_failed',
-            message: `Login failed: ${loginErr.message || String(loginErr)}`,
-          },
+          data: { account: name, status: 'login_failed', message: `Login failed: ${loginErr.message || String(loginErr)}` },
         });
-        continue; // skip to next account
+        return false;
       }
+      checkpoint(signal);
 
-      // ── Navigate to My ASBA ────────────────────────────────────────────
-      const asbaLink = page.locator('a[href="#/asba"]');
-      await asbaLink.waitFor({ state: 'visible', timeout: 10000 });
-      await asbaLink.click();
-      await page.waitForURL('**/asba', { timeout: 15000 });
-      await page.waitForTimeout(3000);
+      await step(opened, entry, emit);
+      return false;
+    } catch (err: any) {
+      if (err instanceof AutomationCancelledError) {
+        emit({ type: 'account_status', data: { account: name, status: 'cancelled', message: cancelledMessage } });
+        return true;
+      }
+      emit({
+        type: 'account_status',
+        data: {
+          account: name,
+          status: 'error',
+          message: err.message || String(err),
+          violation: err instanceof KittaValidationError ? err.violation : undefined,
+        },
+      });
+      return false;
+    } finally {
+      await session.close?.(opened, name, failed, emit);
+    }
+  });
+}
 
-      // ── Find the target company by name ────────────────────────────────
-      const companyItems = page.locator('.company-list');
-      const itemCount = await companyItems.count();
+/** Each account in its own page of a pooled browser; with a job id, a failed account's page is captured before it closes */
+function browserSession(pool: BrowserPool, jobId?: string): AccountSession<Page> {
+  return {
+    open: async (cred, onEvent, signal) => openLoggedInPage(await pool.getBrowser(), cred, onEvent, signal),
+    close: async (page, accountName, failed, onEvent) => {
+      if (failed) await captureFailureArtifacts(page, accountName, jobId, onEvent);
+      await page?.context().close();
+    },
+  };
+}
 
-      if (itemCount === 0) {
-        onEvent({
-          type: 'account_status',
-          data: { account: accountName, status: 'error', message: 'No open issues found on this account' },
-        });
-        continue;
-      }
+/** Summary line for one account of a bulk scan */
+export function describeScan(issues: { hasApplyButton: boolean }[]): string {
+  if (issues.length === 0) return 'No open issues';
+  const open = issues.filter((i) => i.hasApplyButton).length;
+  return `${issues.length} open issue(s), ${open} not applied yet`;
+}
 
-      let targetIndex = -1;
-      for (let i = 0; i < itemCount; i++) {
-        const item = companyItems.nth(i);
-        const nameEl = item.locator('.company-name span[tooltip="Company Name"]');
-        const name = (await nameEl.textContent().catch(() => ''))?.trim() || '';
-        if (name.toLowerCase() === targetCompanyName.toLowerCase()) {
-          targetIndex = i;
-          break;
-        }
-      }
+/** End of a bulk scan: every issue against every account that was scanned, in the order they were asked for */
+export function reportIssueMatrix(
+  accountEntries: { name: string }[],
+  scans: Map<string, IssueInfo[]>,
+  onEvent: (event: AutomationEvent) => void,
+) {
+  const matrix = buildIssueMatrix(
+    accountEntries.filter(({ name }) => scans.has(name)).map(({ name }) => ({ account: name, issues: scans.get(name)! })),
+  );
+  onEvent({ type: 'issue_matrix', data: matrix });
+  onEvent({ type: 'log', message: describeIssueMatrix(matrix) });
+}
 
-      if (targetIndex === -1) {
-        onEvent({
-          type: 'account_status',
-          data: { account: accountName, status: 'error', message: `IPO "${targetCompanyName}" not found in this account's issue list` },
-        });
-        continue;
-      }
+/**
+ * Apply for a specific IPO across multiple accounts, up to BULK_CONCURRENCY at
+ * a time on one shared browser.
+ * For each account: login → ASBA → find IPO by its ID → check Apply vs Edit → apply.
+ */
+export async function bulkApplyForIPO(
+  accountEntries: { name: string; cred: Credential }[],
+  targetIssueId: string,
+  targetCompanyName: string,
+  appliedKitta: string,
+  defaultPIN: string,
+  accountPINs: Record<string, string>,
+  onEvent: (event: AutomationEvent) => void,
+  { signal, dryRun = false, jobId }: AutomationOptions = {},
+): Promise<void> {
+  const dryRunLabel = dryRun ? ' (dry run)' : '';
+  onEvent({ type: 'log', message: `Bulk apply${dryRunLabel} starting for "${targetCompanyName}" across ${accountEntries.length} account(s)` });
 
-      const targetItem = companyItems.nth(targetIndex);
-
-      // ── Detect Apply vs Edit button ────────────────────────────────────
-      // Check all visible buttons in this IPO item to detect Apply vs Edit
-      const buttons = targetItem.locator('button');
-      const btnCount = await buttons.count();
-      let applyBtn: any = null;
-      let hasEdit = false;
-
-      for (let b = 0; b < btnCount; b++) {
-        const btn = buttons.nth(b);
-        const visible = await btn.isVisible().catch(() => false);
-        if (!visible) continue;
-        const btnText = ((await btn.textContent()) || '').trim().toLowerCase();
-        if (btnText === 'edit') {
-          hasEdit = true;
-        } else if (btnText === 'apply') {
-          applyBtn = btn;
-        }
-      }
+  const deduped = dedupeLogins(accountEntries, onEvent);
+  const pool = new BrowserPool(() => chromium.launch(BROWSER_LAUNCH_OPTIONS));
 
-      if (hasEdit && !applyBtn) {
-        onEvent({
-          type: 'account_status',
-          data: { account: accountName, status: 'already_applied', message: 'Already applied (Edit button found)' },
-        });
-        continue;
-      }
+  let cancelled: boolean;
+  try {
+    cancelled = await runForEachLoggedInAccount(
+      deduped, pool.limit, onEvent, signal, browserSession(pool, jobId), 'Stopped before the application was submitted',
+      (page, { name, cred }, emit) => {
+        const pin = accountPINs[name] || defaultPIN;
+        return applyOnAccount(page, name, cred, targetIssueId, targetCompanyName, appliedKitta, pin, emit, signal, dryRun, jobId);
+      },
+    );
+  } finally {
+    await pool.close();
+  }
 
-      if (!applyBtn) {
-        onEvent({
-          type: 'account_status',
-          data: { account: accountName, status: 'error', message: 'No Apply button found for this IPO' },
-        });
-        continue;
-      }
+  if (cancelled) {
+    onEvent({ type: 'cancelled', message: 'Bulk apply cancelled by user' });
+    return;
+  }
 
-      // ── Click Apply and fill the form ──────────────────────────────────
-      onEvent({
-        type: 'account_status',
-        data: { account: accountName, status: 'running', message: 'Filling application form...' },
-      });
+  onEvent({ type: 'done' });
+}
 
-      await applyBtn.click();
-      await page.waitForTimeout(3000);
-
-      // Fill Bank
-      const bankSelect = page.locator('select#selectBank');
-      await selectFirstRealOption(bankSelect, 'Bank');
-      await page.waitForTimeout(2000);
-
-      // Fill Account Number (appears dynamically after bank)
-      const accountSelect = page.locator('main#main select').nth(1);
-      await selectFirstRealOption(accountSelect, 'Account Number');
-      await page.waitForTimeout(2000);
-
-      // Fill Applied Kitta
-      const kittaInput = page.locator('input#appliedKitta');
-      await typeIntoField(kittaInput, appliedKitta);
-      await kittaInput.dispatchEvent('input');
-      await kittaInput.dispatchEvent('change');
-      await kittaInput.press('Tab');
-      await page.waitForTimeout(1500);
+/** One account of a bulk apply, on a page that is already logged in */
+async function applyOnAccount(
+  page: Page,
+  accountName: string,
+  cred: Credential,
+  targetIssueId: string,
+  targetCompanyName: string,
+  appliedKitta: string,
+  pin: string,
+  onEvent: (event: AutomationEvent) => void,
+  signal?: AbortSignal,
+  dryRun = false,
+  jobId?: string,
+): Promise<void> {
+  // ── Find the target IPO by its ID ──────────────────────────────────
+  const issues = await scrapeOpenIssues(page, onEvent, { signal });
+  checkpoint(signal);
 
-      // Fill CRN
-      const crnInput = page.locator('input#crnNumber');
-      await typeIntoField(crnInput, cred.CRN);
-      await page.waitForTimeout(500);
+  if (issues.length === 0) {
+    onEvent({
+      type: 'account_status',
+      data: { account: accountName, status: 'error', message: 'No open issues found on this account' },
+    });
+    return;
+  }
 
-      // Check declaration checkbox
-      const disclaimer = page.locator('input#disclaimer');
-      const isChecked = await disclaimer.isChecked();
-      if (!isChecked) {
-        await disclaimer.click({ force: true });
-      }
+  // A company can have several open issues (e.g. ordinary and reserved shares), so never go by name alone
+  const targetIndex = issues.findIndex((issue) => matchesIssueId(targetIssueId, issue));
+  if (targetIndex === -1) {
+    onEvent({
+      type: 'account_status',
+      data: {
+        account: accountName,
+        status: 'error',
+        message: `Issue ${targetIssueId} (${targetCompanyName}) not found in this account's issue list`,
+      },
+    });
+    return;
+  }
+  if (!sameCompany(issues[targetIndex].name, targetCompanyName)) {
+    onEvent({
+      type: 'account_status',
+      data: {
+        account: accountName,
+        status: 'error',
+        message: `Issue ${targetIssueId} is "${issues[targetIndex].name}", not "${targetCompanyName}" — not applying`,
+      },
+    });
+    return;
+  }
 
-      // Click Proceed
-      const proceedBtn = page.locator('button').filter({ hasText: /proceed/i }).first();
-      await proceedBtn.click();
-      await page.waitForTimeout(3000);
-
-      // Enter Transaction PIN (per-account override or default)
-      const pin = accountPINs[accountName] || defaultPIN;
-      const pinInput = page.locator('input#transactionPIN');
-      await pinInput.waitFor({ state: 'visible', timeout: 10000 });
-      await typeIntoField(pinInput, pin);
-      await page.waitForTimeout(500);
-
-      // Click final Apply button
-      const finalBtn = page.locator('button').filter({ hasText: /apply/i }).first();
-      await finalBtn.waitFor({ state: 'visible', timeout: 5000 });
-      await finalBtn.click();
-      await page.waitForTimeout(5000);
-
-      // Check result
-      const bodyText = await page.locator('body').innerText();
-      if (bodyText.toLowerCase().includes('success') || bodyText.toLowerCase().includes('applied')) {
-        onEvent({
-          type: 'account_status',
-          data: { account: accountName, status: 'success', message: 'Application submitted successfully' },
-        });
-      } else {
-        onEvent({
-          type: 'account_status',
-          data: { account: accountName, status: 'success', message: 'Application submitted. Check Meroshare for confirmation.' },
-        });
-      }
-    } catch (err: any) {
-      onEvent({
-        type: 'account_status',
-        data: { account: accountName, status: 'error', message: err.message || String(err) },
+  const targetItem = page.locator('.company-list').nth(targetIndex);
+
+  // ── Detect Apply vs Edit button ────────────────────────────────────
+  // Check all visible buttons in this IPO item to detect Apply vs Edit
+  const buttons = targetItem.locator('button');
+  const btnCount = await buttons.count();
+  let applyBtn: any = null;
+  let hasEdit = false;
+
+  for (let b = 0; b < btnCount; b++) {
+    const btn = buttons.nth(b);
+    const visible = await btn.isVisible().catch(() => false);
+    if (!visible) continue;
+    const btnText = ((await btn.textContent()) || '').trim().toLowerCase();
+    if (btnText === 'edit') {
+      hasEdit = true;
+    } else if (btnText === 'apply') {
+      applyBtn = btn;
+    }
+  }
+
+  if (hasEdit && !applyBtn) {
+    onEvent({
+      type: 'account_status',
+      data: { account: accountName, status: 'already_applied', message: 'Already applied (Edit button found)' },
+    });
+    return;
+  }
+
+  if (!applyBtn) {
+    onEvent({
+      type: 'account_status',
+      data: { account: accountName, status: 'error', message: 'No Apply button found for this IPO' },
+    });
+    return;
+  }
+
+  // ── Click Apply and fill the form ──────────────────────────────────
+  onEvent({
+    type: 'account_status',
+    data: { account: accountName, status: 'running', message: 'Filling application form...' },
+  });
+
+  checkpoint(signal);
+  await openApplyForm(page, () => applyBtn.click(), onEvent, signal);
+  await assertFormIsFor(page, targetCompanyName);
+  const rules = await readApplyFormDetails(page);
+  const kitta = validateKitta(appliedKitta, rules);
+
+  // Fill Bank
+  const bankSelect = page.locator('select#selectBank');
+  const bank = await selectPreferredOption(bankSelect, 'Bank', cred.bankName, onEvent);
+  await page.waitForTimeout(2000);
+
+  // Fill Account Number (appears dynamically after bank)
+  const accountSelect = page.locator('main#main select').nth(1);
+  const accountNumber = await selectPreferredOption(accountSelect, 'Account Number', cred.accountNumber, onEvent);
+  await page.waitForTimeout(2000);
+
+  // Fill Applied Kitta (and check the amount it gives)
+  const amount = await fillAppliedKitta(page, kitta, rules.pricePerUnit);
+  const branchInput = page.locator('input#selectBranch');
+  const branch = (await branchInput.count()) > 0 ? await branchInput.inputValue() : '';
+
+  // Fill CRN
+  const crnInput = page.locator('input#crnNumber');
+  await typeIntoField(crnInput, cred.CRN);
+  await page.waitForTimeout(500);
+
+  // Check declaration checkbox
+  const disclaimer = page.locator('input#disclaimer');
+  const isChecked = await disclaimer.isChecked();
+  if (!isChecked) {
+    await disclaimer.click({ force: true });
+  }
+  checkpoint(signal);
+
+  // Click Proceed
+  const proceedBtn = page.locator('button').filter({ hasText: /proceed/i }).first();
+  await proceedBtn.click();
+  await page.waitForTimeout(3000);
+
+  // Enter Transaction PIN (per-account override or default)
+  const pinInput = page.locator('input#transactionPIN');
+  await pinInput.waitFor({ state: 'visible', timeout: 10000 });
+  if (dryRun) {
+    reportDryRun(accountName, {
+      companyName: targetCompanyName,
+      bank,
+      accountNumber,
+      branch: branch || undefined,
+      appliedKitta: kitta,
+      amount: parseAmount(amount),
+      crn: cred.CRN,
+    }, onEvent);
+    return;
+  }
+  await typeIntoField(pinInput, pin);
+  await page.waitForTimeout(500);
+
+  // Last chance to stop — once Apply is clicked we always read the result
+  checkpoint(signal);
+
+  // Click final Apply button
+  const finalBtn = page.locator('button').filter({ hasText: /apply/i }).first();
+  await finalBtn.waitFor({ state: 'visible', timeout: 5000 });
+  const response = waitForApplyResponse(page);
+  await finalBtn.click();
+
+  // Classify what Meroshare answered, then confirm it in the Application Report
+  const result = await readApplyResult(page, response);
+  await recordReceiptFromPage(page, jobId, {
+    account: accountName,
+    companyName: targetCompanyName,
+    appliedKitta: kitta,
+    amount: parseAmount(amount),
+    bank,
+    accountNumber,
+    outcome: result.outcome,
+    message: result.message,
+  }, onEvent);
+  const verification = needsVerification(result) ? await verifyInReport(page, targetCompanyName, kitta) : undefined;
+  reportApplyResult(accountName, targetCompanyName, result, verification, onEvent);
+}
+
+// ── Bulk Scan ────────────────────────────────────────────────────────────────
+
+/**
+ * Scan the open issues of several accounts, up to BULK_CONCURRENCY at a time.
+ * Every `issue` event carries the account it was seen on.
+ */
+export async function bulkScanForIssues(
+  accountEntries: { name: string; cred: Credential }[],
+  onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
+): Promise<void> {
+  onEvent({ type: 'log', message: `Bulk scan starting across ${accountEntries.length} account(s)` });
+
+  const deduped = dedupeLogins(accountEntries, onEvent);
+  const scans = new Map<string, IssueInfo[]>();
+  const pool = new BrowserPool(() => chromium.launch(BROWSER_LAUNCH_OPTIONS));
+
+  let cancelled: boolean;
+  try {
+    cancelled = await runForEachLoggedInAccount(
+      deduped, pool.limit, onEvent, signal, browserSession(pool), 'Stopped before the scan finished',
+      async (page, { name }, emit) => {
+        const issues = await scrapeOpenIssues(page, emit, { withDetails: true, signal });
+        scans.set(name, issues);
+        for (const issue of issues) emit({ type: 'issue', data: { ...issue, account: name } });
+        emit({ type: 'account_status', data: { account: name, status: 'success', message: describeScan(issues) } });
+      },
+    );
+  } finally {
+    await pool.close();
+  }
+
+  if (cancelled) {
+    onEvent({ type: 'cancelled', message: 'Bulk scan cancelled by user' });
+    return;
+  }
+
+  reportIssueMatrix(deduped, scans, onEvent);
+  onEvent({ type: 'done' });
+}
+
+// ── Allotment Results ────────────────────────────────────────────────────────
+
+/** The 16-digit BOID the dashboard shows, if it can be found there */
+async function readBoid(page: Page): Promise<string | undefined> {
+  const main = page.locator('main#main');
+  await main.getByText(/BOID/).first().waitFor({ state: 'visible', timeout: 5000 }).catch(() => {});
+  const text = await main.innerText().catch(() => '');
+  return text.match(/BOID\D{0,5}(\d{16})/)?.[1];
+}
+
+/** The account's Application Report entry for the company, read off its details page */
+async function readReportedApplication(page: Page, companyName: string): Promise<ReportedApplication | null> {
+  const entry = await openReportEntry(page, companyName);
+  if (!entry) return null;
+  return {
+    companyName: entry.name,
+    status: entry.value('Status') || 'N/A',
+    remarks: entry.value('Remarks'),
+    appliedKitta: reportNumber(entry.value('Applied Kitta')),
+    receivedKitta: reportNumber(entry.value('Received Kitta')),
+  };
+}
+
+/**
+ * Check the allotment result for `companyName` on several accounts, up to
+ * BULK_CONCURRENCY at a time. Each account's answer is an `allotment` event.
+ */
+export async function checkAllotmentResults(
+  accountEntries: { name: string; cred: Credential }[],
+  companyName: string,
+  provider: AllotmentProvider,
+  onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
+): Promise<void> {
+  onEvent({ type: 'log', message: `Checking allotment for "${companyName}" on ${accountEntries.length} account(s)` });
+
+  const deduped = dedupeLogins(accountEntries, onEvent);
+  const pool = new BrowserPool(() => chromium.launch(BROWSER_LAUNCH_OPTIONS));
+  const results: AllotmentResult[] = [];
+
+  let cancelled: boolean;
+  try {
+    cancelled = await runForEachLoggedInAccount(
+      deduped, pool.limit, onEvent, signal, browserSession(pool), 'Stopped before the result was checked',
+      async (page, { name }, emit) => {
+        const boid = await readBoid(page);
+        const report = await readReportedApplication(page, companyName);
+        checkpoint(signal);
+        const result = await checkAllotment(name, provider, { companyName, report, boid }, retryOptions(emit, signal));
+        results.push(result);
+        emit({ type: 'allotment', data: result });
+        emit({ type: 'account_status', data: { account: name, status: 'success', message: describeAllotment(result) } });
+      },
+    );
+  } finally {
+    await pool.close();
+  }
+
+  if (cancelled) {
+    onEvent({ type: 'cancelled', message: 'Allotment check cancelled by user' });
+    return;
+  }
+
+  onEvent({ type: 'log', message: summarizeAllotments(results) });
+  onEvent({ type: 'done' });
+}
+
+// ── Portfolio ────────────────────────────────────────────────────────────────
+
+/** Resolves with the next response whose URL contains `part`; never rejects unobserved */
+function waitForApiResponse(page: Page, part: string): Promise<Response> {
+  const response = page.waitForResponse((resp) => resp.url().includes(part), { timeout: 20000 });
+  response.catch(() => {});
+  return response;
+}
+
+/** Follow a sidebar link, repeating a click that doesn't get there */
+async function openSidebarPage(page: Page, route: string, step: RetryStep, options: RetryOptions) {
+  await withRetry(step, async () => {
+    const link = page.locator(`a[href="#/${route}"]`);
+    await link.waitFor({ state: 'visible', timeout: 10000 });
+    await link.click();
+    await page.waitForURL(`**/${route}`, { timeout: 15000 });
+  }, options);
+}
+
+/**
+ * Open My Portfolio and wait for its holdings to load. A click that doesn't
+ * get there is repeated, and holdings that fail or never come are reloaded,
+ * each with backoff.
+ */
+async function openMyPortfolio(page: Page, onEvent: (event: AutomationEvent) => void, signal?: AbortSignal) {
+  const options = retryOptions(onEvent, signal);
+  let response = waitForApiResponse(page, '/myPortfolio');
+  await openSidebarPage(page, 'portfolio', 'portfolio', options);
+  onEvent({ type: 'log', message: 'Navigated to My Portfolio' });
+
+  await withRetry('portfolio', async (attempt) => {
+    if (attempt > 1) {
+      response = waitForApiResponse(page, '/myPortfolio');
+      await page.reload();
+    }
+    const res = await response;
+    if (!res.ok()) throw httpStatusError(res.status(), `My Portfolio failed with HTTP ${res.status()}`);
+  }, options);
+  // Give the table a moment to render
+  await page.waitForTimeout(1000);
+}
+
+/** My Portfolio's columns, found by their headings rather than their position */
+const PORTFOLIO_COLUMNS = {
+  script: /^scrip/i,
+  currentBalance: /^current balance/i,
+  previousClosingPrice: /^(previous|last) closing price/i,
+  previousCloseValue: /^value as of (previous|last) closing price/i,
+  ltp: /^(last transaction price|ltp)/i,
+  ltpValue: /^value as of (ltp|last transaction price)/i,
+};
+
+/**
+ * The rows of the page's main table, each cell keyed by the column its
+ * heading matched. Rows with fewer cells than headings, like "no records"
+ * rows, are skipped. Throws if a `required` column is missing.
+ */
+async function readTableRows<K extends string>(
+  page: Page,
+  tableName: string,
+  columns: Record<K, RegExp>,
+  required: NoInfer<K>[],
+): Promise<Record<K, string | undefined>[]> {
+  const table = page.locator('main#main table').first();
+  const headings = (await table.locator('thead th').allInnerTexts()).map((h) => h.trim());
+  const column = Object.fromEntries(
+    Object.entries<RegExp>(columns).map(([key, pattern]) => [key, headings.findIndex((h) => pattern.test(h))]),
+  ) as Record<K, number>;
+  if (required.some((key) => column[key] < 0)) {
+    throw new Error(`${tableName} table has unexpected columns: ${headings.join(', ') || 'none'}`);
+  }
+
+  const rows = await table.locator('tbody tr').evaluateAll((trs) =>
+    trs.map((tr) => Array.from(tr.querySelectorAll('td')).map((td) => (td.textContent || '').trim())),
+  );
+  return rows
+    .filter((cells) => cells.length >= headings.length)
+    .map((cells) => Object.fromEntries(
+      (Object.keys(columns) as K[]).map((key) => [key, column[key] >= 0 ? cells[column[key]] : undefined]),
+    ) as Record<K, string | undefined>);
+}
+
+/** Read the holdings off the My Portfolio table. Its total row and "no records" row are skipped. */
+async function scrapeHoldings(page: Page, accountName: string): Promise<Holding[]> {
+  const rows = await readTableRows(page, 'My Portfolio', PORTFOLIO_COLUMNS, ['script', 'currentBalance']);
+  const holdings: Holding[] = [];
+  for (const row of rows) {
+    const script = row.script;
+    if (!script || /^total/i.test(script)) continue;
+    const amount = (key: keyof typeof PORTFOLIO_COLUMNS) => (row[key] !== undefined ? parseAmount(row[key]) : undefined);
+    holdings.push({
+      account: accountName,
+      script,
+      currentBalance: amount('currentBalance') ?? 0,
+      previousClosingPrice: amount('previousClosingPrice'),
+      previousCloseValue: amount('previousCloseValue') ?? 0,
+      ltp: amount('ltp'),
+      ltpValue: amount('ltpValue') ?? 0,
+    });
+  }
+  return holdings;
+}
+
+/**
+ * Read My Portfolio on several accounts, up to BULK_CONCURRENCY at a time.
+ * Every script held is a `holding` event carrying the account it is held in.
+ */
+export async function readPortfolios(
+  accountEntries: { name: string; cred: Credential }[],
+  onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
+): Promise<void> {
+  onEvent({ type: 'log', message: `Reading My Portfolio on ${accountEntries.length} account(s)` });
+
+  const deduped = dedupeLogins(accountEntries, onEvent);
+  const pool = new BrowserPool(() => chromium.launch(BROWSER_LAUNCH_OPTIONS));
+  const family: Holding[] = [];
+
+  let cancelled: boolean;
+  try {
+    cancelled = await runForEachLoggedInAccount(
+      deduped, pool.limit, onEvent, signal, browserSession(pool), 'Stopped before the portfolio was read',
+      async (page, { name }, emit) => {
+        await openMyPortfolio(page, emit, signal);
+        const holdings = await scrapeHoldings(page, name);
+        family.push(...holdings);
+        for (const holding of holdings) emit({ type: 'holding', data: holding });
+        emit({ type: 'account_status', data: { account: name, status: 'success', message: describePortfolio(holdings) } });
+      },
+    );
+  } finally {
+    await pool.close();
+  }
+
+  if (cancelled) {
+    onEvent({ type: 'cancelled', message: 'Portfolio job cancelled by user' });
+    return;
+  }
+
+  onEvent({ type: 'log', message: summarizeFamilyPortfolio(family) });
+  onEvent({ type: 'done' });
+}
+
+// ── Transaction History ──────────────────────────────────────────────────────
+
+const TRANSACTION_COLUMNS = {
+  script: /^scrip/i,
+  date: /^transaction date/i,
+  credit: /^credit/i,
+  debit: /^debit/i,
+  balance: /^balance/i,
+  description: /description/i,
+};
+
+const PURCHASE_COLUMNS = {
+  script: /^scrip/i,
+  date: /^transaction date/i,
+  quantity: /quantity/i,
+  rate: /^rate/i,
+  source: /^purchase source/i,
+};
+
+/** Open My Transaction History and read every line of it, oldest first */
+async function scrapeTransactions(page: Page, onEvent: (event: AutomationEvent) => void, signal?: AbortSignal): Promise<Transaction[]> {
+  const options = retryOptions(onEvent, signal);
+  let response = waitForApiResponse(page, '/myTransaction');
+  await openSidebarPage(page, 'transaction', 'history', options);
+  onEvent({ type: 'log', message: 'Navigated to My Transaction History' });
+
+  await withRetry('history', async (attempt) => {
+    if (attempt > 1) {
+      response = waitForApiResponse(page, '/myTransaction');
+      await page.reload();
+    }
+    const res = await response;
+    if (!res.ok()) throw httpStatusError(res.status(), `My Transaction History failed with HTTP ${res.status()}`);
+  }, options);
+  await page.waitForTimeout(1000);
+
+  const rows = await readTableRows(page, 'My Transaction History', TRANSACTION_COLUMNS, ['script', 'date', 'credit', 'debit']);
+  return sortTransactions(rows.map((row) => ({
+    script: row.script ?? '',
+    date: row.date ?? '',
+    credit: quantityOf(row.credit),
+    debit: quantityOf(row.debit),
+    balance: row.balance && row.balance !== '-' ? quantityOf(row.balance) : undefined,
+    description: row.description ?? '',
+  })));
+}
+
+/** Open My Purchase Source and search it for each script */
+async function scrapePurchaseSources(
+  page: Page,
+  scripts: string[],
+  onEvent: (event: AutomationEvent) => void,
+  signal?: AbortSignal,
+): Promise<PurchaseSource[]> {
+  const options = retryOptions(onEvent, signal);
+  await openSidebarPage(page, 'purchase', 'history', options);
+  onEvent({ type: 'log', message: 'Navigated to My Purchase Source' });
+
+  const purchases: PurchaseSource[] = [];
+  for (const script of scripts) {
+    checkpoint(signal);
+    await withRetry('history', async () => {
+      const response = waitForApiResponse(page, '/myPurchase');
+      await page.locator('main#main input[name="scrip"]').fill(script);
+      await page.locator('main#main button[type="submit"]').click();
+      const res = await response;
+      if (!res.ok()) throw httpStatusError(res.status(), `My Purchase Source failed with HTTP ${res.status()}`);
+    }, options);
+    await page.waitForTimeout(500);
+
+    const rows = await readTableRows(page, 'My Purchase Source', PURCHASE_COLUMNS, ['script', 'quantity', 'rate']);
+    for (const row of rows) {
+      if (row.script !== script) continue;
+      purchases.push({
+        script,
+        date: row.date || undefined,
+        quantity: quantityOf(row.quantity),
+        rate: rateOf(row.rate),
+        source: row.source ?? '',
       });
-    } finally {
-      if (browser) {
-        await browser.close();
-      }
     }
   }
+  return purchases;
+}
+
+/**
+ * Import My Transaction History and My Purchase Source on several accounts,
+ * up to BULK_CONCURRENCY at a time. Each account's rows are saved under
+ * DATA_DIR/transactions and its WACC per script is sent as `wacc` events.
+ */
+export async function importTransactionHistory(
+  accountEntries: { name: string; cred: Credential }[],
+  onEvent: (event: AutomationEvent) => void,
+  { signal }: AutomationOptions = {},
+): Promise<void> {
+  onEvent({ type: 'log', message: `Importing transaction history on ${accountEntries.length} account(s)` });
+
+  const deduped = dedupeLogins(accountEntries, onEvent);
+  const pool = new BrowserPool(() => chromium.launch(BROWSER_LAUNCH_OPTIONS));
+  let imported = 0;
+
+  let cancelled: boolean;
+  try {
+    cancelled = await runForEachLoggedInAccount(
+      deduped, pool.limit, onEvent, signal, browserSession(pool), 'Stopped before the history was imported',
+      async (page, { name }, emit) => {
+        const transactions = await scrapeTransactions(page, emit, signal);
+        checkpoint(signal);
+        const scripts = [...new Set(transactions.map((t) => t.script))];
+        const purchases = scripts.length > 0 ? await scrapePurchaseSources(page, scripts, emit, signal) : [];
+        checkpoint(signal);
+
+        const history = { account: name, importedAt: new Date().toISOString(), transactions, purchases };
+        saveTransactionHistory(history);
+        imported++;
+        const wacc = calculateWacc(history);
+        for (const entry of wacc) emit({ type: 'wacc', data: entry });
+        emit({ type: 'account_status', data: { account: name, status: 'success', message: describeImport(history, wacc) } });
+      },
+    );
+  } finally {
+    await pool.close();
+  }
+
+  if (cancelled) {
+    onEvent({ type: 'cancelled', message: 'Transaction history import cancelled by user' });
+    return;
+  }
 
+  onEvent({ type: 'log', message: `Transaction history saved for ${imported} of ${deduped.length} account(s)` });
   onEvent({ type: 'done' });
 }
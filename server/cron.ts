@@ -0,0 +1,121 @@
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** A parsed five-field cron expression: minute hour day-of-month month day-of-week */
+export interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month / day-of-week fields were restricted (not `*`) */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+/** Wall-clock time in a particular timezone */
+export interface ZonedTime {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+// ── Parser ───────────────────────────────────────────────────────────────────
+
+const FIELD_RANGES: [string, number, number][] = [
+  ['minute', 0, 59],
+  ['hour', 0, 23],
+  ['day of month', 1, 31],
+  ['month', 1, 12],
+  ['day of week', 0, 7],
+];
+
+function parseField(field: string, name: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid ${name} field "${field}"`);
+
+    const [, range, stepText] = match;
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [a, b] = range.split('-').map((n) => parseInt(n, 10));
+      start = a;
+      end = b ?? (stepText ? max : a);
+    }
+
+    if (step < 1 || start < min || end > max || start > end) {
+      throw new Error(`Invalid ${name} field "${field}" (allowed ${min}-${max})`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/** Parse "m h dom mon dow". Throws with a readable message on bad input. */
+export function parseCron(expression: string): CronSpec {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i][0], FIELD_RANGES[i][1], FIELD_RANGES[i][2]),
+  );
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*',
+  };
+}
+
+// ── Matching ─────────────────────────────────────────────────────────────────
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function toZonedTime(date: Date, timeZone: string): ZonedTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    minute: 'numeric',
+    hour: 'numeric',
+    day: 'numeric',
+    month: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    minute: parseInt(get('minute'), 10),
+    hour: parseInt(get('hour'), 10),
+    day: parseInt(get('day'), 10),
+    month: parseInt(get('month'), 10),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+export function cronMatches(spec: CronSpec, time: ZonedTime): boolean {
+  if (!spec.minutes.has(time.minute) || !spec.hours.has(time.hour) || !spec.months.has(time.month)) {
+    return false;
+  }
+
+  // Standard cron: when both day fields are restricted, either may match
+  const domMatch = spec.daysOfMonth.has(time.day);
+  const dowMatch = spec.daysOfWeek.has(time.weekday);
+  if (spec.domRestricted && spec.dowRestricted) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
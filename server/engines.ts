@@ -0,0 +1,69 @@
+import {
+  runMeroshareAutomation, scanForIssues, applyForIPO, bulkApplyForIPO, bulkScanForIssues, checkAllotmentResults, readPortfolios,
+  importTransactionHistory, exportApplicationReport,
+} from './automation';
+import {
+  runMeroshareAutomationViaApi, scanForIssuesViaApi, applyForIPOViaApi, bulkApplyForIPOViaApi, bulkScanForIssuesViaApi,
+  checkAllotmentResultsViaApi, readPortfoliosViaApi, importTransactionHistoryViaApi,
+  exportApplicationReportViaApi,
+} from './api-automation';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** How a job talks to Meroshare: a headless browser, or the JSON API directly */
+export type AutomationEngine = 'browser' | 'api';
+
+export interface EngineFunctions {
+  run: typeof runMeroshareAutomation;
+  scan: typeof scanForIssues;
+  apply: typeof applyForIPO;
+  bulkApply: typeof bulkApplyForIPO;
+  bulkScan: typeof bulkScanForIssues;
+  allotment: typeof checkAllotmentResults;
+  portfolio: typeof readPortfolios;
+  transactions: typeof importTransactionHistory;
+  exportReports: typeof exportApplicationReport;
+}
+
+// ── Registry ─────────────────────────────────────────────────────────────────
+
+export const ENGINES: Record<AutomationEngine, EngineFunctions> = {
+  browser: {
+    run: runMeroshareAutomation,
+    scan: scanForIssues,
+    apply: applyForIPO,
+    bulkApply: bulkApplyForIPO,
+    bulkScan: bulkScanForIssues,
+    allotment: checkAllotmentResults,
+    portfolio: readPortfolios,
+    transactions: importTransactionHistory,
+    exportReports: exportApplicationReport,
+  },
+  api: {
+    run: runMeroshareAutomationViaApi,
+    scan: scanForIssuesViaApi,
+    apply: applyForIPOViaApi,
+    bulkApply: bulkApplyForIPOViaApi,
+    bulkScan: bulkScanForIssuesViaApi,
+    allotment: checkAllotmentResultsViaApi,
+    portfolio: readPortfoliosViaApi,
+    transactions: importTransactionHistoryViaApi,
+    exportReports: exportApplicationReportViaApi,
+  },
+};
+
+function isEngine(value: unknown): value is AutomationEngine {
+  return typeof value === 'string' && Object.hasOwn(ENGINES, value);
+}
+
+/** Engine used when a request doesn't pick one. Set AUTOMATION_ENGINE=api to opt in to the API engine. */
+export function getDefaultEngine(): AutomationEngine {
+  const env = process.env.AUTOMATION_ENGINE;
+  return isEngine(env) ? env : 'browser';
+}
+
+/** Resolve a request's `engine` field; null if it names an unknown engine */
+export function resolveEngine(value: unknown): AutomationEngine | null {
+  if (value === undefined || value === null || value === '') return getDefaultEngine();
+  return isEngine(value) ? value : null;
+}
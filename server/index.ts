@@ -3,11 +3,29 @@ import cors from 'cors';
 import path from 'path';
 import crypto from 'crypto';
 import dotenv from 'dotenv';
-import { loadAllCredentials, setInMemoryCredentials, runMeroshareAutomation, scanForIssues, applyForIPO, bulkApplyForIPO, type AutomationEvent } from './automation';
+import {
+  loadAllCredentials, setInMemoryCredentials, isRetryableFailure, type AutomationEvent, type Credential,
+} from './automation';
+import { ENGINES, resolveEngine, type AutomationEngine } from './engines';
+import { validateKitta, KittaValidationError } from './issues';
+import { findArtifact } from './artifacts';
+import { listReceipts, receiptsZip } from './receipts';
+import { resolveAllotmentProvider, listAllotmentProviders } from './allotment';
+import { loadTransactionHistory, calculateWacc } from './transactions';
+import { resolveExportFormat, listExportFormats, renderReportExport, type ReportRecord } from './report-export';
+import { queryHistory, markInterruptedJobs, rotateHistory, type HistoryFilters } from './store';
+import {
+  loadSchedulerSettings, createSchedule, updateSchedule, deleteSchedule, saveRules, triggerSchedule,
+  validateSchedule, validateRules, startScheduler, DEFAULT_CRON,
+} from './scheduler';
+import {
+  enqueueJob, cancelJob, getJob, getJobEvents, getJobSecrets, finalAccountStatuses, listJobs, subscribeToJob, getQueueStats,
+  isTerminalStatus, type Job,
+} from './jobs';
 
 dotenv.config();
 
-const app = express();
+export const app = express();
 const PORT = parseInt(process.env.PORT || '3000', 10);
 
 app.use(cors());
@@ -52,9 +70,64 @@ app.use('/api', (req, res, next) => {
   next();
 });
 
-// ── State ────────────────────────────────────────────────────────────────────
+// ── SSE ──────────────────────────────────────────────────────────────────────
 
-let running = false;
+/** Stream a job's events to the client until the job finishes */
+function streamJob(res: express.Response, job: Job) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Job-Id': job.id,
+  });
+
+  const sendEvent = (event: AutomationEvent) => {
+    if (res.writableEnded) return;
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+    if (event.type === 'job' && isTerminalStatus(event.data.status)) {
+      res.end();
+    }
+  };
+
+  const unsubscribe = subscribeToJob(job.id, sendEvent);
+
+  // The job keeps running (or waiting in the queue) if the client goes away
+  res.on('close', () => {
+    unsubscribe();
+    if (!res.writableFinished) {
+      console.log(`[SSE] Client disconnected (${job.type} job ${job.id})`);
+    }
+  });
+}
+
+// ── Request Helpers ──────────────────────────────────────────────────────────
+
+/** The engine a request asks for, or null once it has been answered 400 for naming an unknown one */
+function resolveRequestEngine(res: express.Response, value: unknown): AutomationEngine | null {
+  const engine = resolveEngine(value);
+  if (!engine) res.status(400).json({ error: `Unknown engine "${value}" (expected "browser" or "api")` });
+  return engine;
+}
+
+/** The named accounts with their credentials, or null once the request has been answered 404 for a missing one */
+function resolveAccounts(res: express.Response, names: string[]): { name: string; cred: Credential }[] | null {
+  const creds = loadAllCredentials();
+  const entries: { name: string; cred: Credential }[] = [];
+  for (const name of names) {
+    const cred = creds[name];
+    if (!cred) {
+      res.status(404).json({ error: `Account "${name}" not found` });
+      return null;
+    }
+    entries.push({ name, cred });
+  }
+  return entries;
+}
+
+/** One account's credentials, or null once the request has been answered 404 */
+function resolveAccount(res: express.Response, name: string): Credential | null {
+  return resolveAccounts(res, [name])?.[0].cred ?? null;
+}
 
 // ── API Routes ───────────────────────────────────────────────────────────────
 
@@ -92,210 +165,526 @@ app.get('/api/accounts', (_req, res) => {
 
 /** Run automation for a given account — returns SSE stream */
 app.post('/api/run', (req, res) => {
-  if (running) {
-    res.status(409).json({ error: 'An automation is already running. Please wait.' });
-    return;
-  }
-
   const { account, maxReports = 5 } = req.body;
   if (!account) {
     res.status(400).json({ error: 'Missing "account" in request body' });
     return;
   }
 
-  const creds = loadAllCredentials();
-  const cred = creds[account];
-  if (!cred) {
-    res.status(404).json({ error: `Account "${account}" not found` });
-    return;
-  }
+  const engine = resolveRequestEngine(res, req.body.engine);
+  if (!engine) return;
 
-  // Set up SSE
-  res.writeHead(200, {
-    'Content-Type': 'text/event-stream',
-    'Cache-Control': 'no-cache',
-    Connection: 'keep-alive',
-  });
-
-  running = true;
+  const cred = resolveAccount(res, account);
+  if (!cred) return;
 
-  const sendEvent = (event: AutomationEvent) => {
-    res.write(`data: ${JSON.stringify(event)}\n\n`);
-  };
-
-  // Run automation in background
-  runMeroshareAutomation(account, cred, maxReports, sendEvent).finally(() => {
-    running = false;
-    res.end();
-  });
-
-  // If client disconnects, we still let automation finish gracefully
-  req.on('close', () => {
-    // Automation will complete on its own; we just note the disconnect
-    console.log('[SSE] Client disconnected');
-  });
+  const job = enqueueJob('run', [account], { maxReports, engine }, (emit, signal) =>
+    ENGINES[engine].run(account, cred, maxReports, emit, { signal }),
+  );
+  streamJob(res, job);
 });
 
 /** Scan for open issues only (no reports) — returns SSE stream */
 app.post('/api/scan', (req, res) => {
-  if (running) {
-    res.status(409).json({ error: 'An automation is already running. Please wait.' });
-    return;
-  }
-
   const { account } = req.body;
   if (!account) {
     res.status(400).json({ error: 'Missing "account" in request body' });
     return;
   }
 
-  const creds = loadAllCredentials();
-  const cred = creds[account];
-  if (!cred) {
-    res.status(404).json({ error: `Account "${account}" not found` });
-    return;
-  }
+  const engine = resolveRequestEngine(res, req.body.engine);
+  if (!engine) return;
 
-  res.writeHead(200, {
-    'Content-Type': 'text/event-stream',
-    'Cache-Control': 'no-cache',
-    Connection: 'keep-alive',
-  });
+  const cred = resolveAccount(res, account);
+  if (!cred) return;
 
-  running = true;
+  const job = enqueueJob('scan', [account], { engine }, (emit, signal) =>
+    ENGINES[engine].scan(account, cred, emit, { signal }),
+  );
+  streamJob(res, job);
+});
 
-  const sendEvent = (event: AutomationEvent) => {
-    res.write(`data: ${JSON.stringify(event)}\n\n`);
-  };
+/** Scan open issues on several accounts at once — returns SSE stream */
+app.post('/api/bulk-scan', (req, res) => {
+  const { accounts: accountNames } = req.body;
+  if (!Array.isArray(accountNames) || accountNames.length === 0) {
+    res.status(400).json({ error: 'Missing or empty "accounts" array in request body' });
+    return;
+  }
 
-  scanForIssues(account, cred, sendEvent).finally(() => {
-    running = false;
-    res.end();
-  });
+  const engine = resolveRequestEngine(res, req.body.engine);
+  if (!engine) return;
 
-  req.on('close', () => {
-    console.log('[SSE] Client disconnected (scan)');
-  });
+  const entries = resolveAccounts(res, accountNames);
+  if (!entries) return;
+
+  const job = enqueueJob('bulk-scan', accountNames, { engine }, (emit, signal) =>
+    ENGINES[engine].bulkScan(entries, emit, { signal }),
+  );
+  streamJob(res, job);
 });
 
 /** Apply for a specific IPO — returns SSE stream */
 app.post('/api/apply', (req, res) => {
-  if (running) {
-    res.status(409).json({ error: 'An automation is already running. Please wait.' });
+  const { account, issueId, companyName, appliedKitta, transactionPIN, dryRun = false } = req.body;
+  if (!account) {
+    res.status(400).json({ error: 'Missing "account" in request body' });
+    return;
+  }
+  if (typeof issueId !== 'string' || !issueId) {
+    res.status(400).json({ error: 'Missing "issueId" in request body (the "id" of an issue from a scan)' });
+    return;
+  }
+  if (!appliedKitta) {
+    res.status(400).json({ error: 'Missing "appliedKitta" in request body' });
+    return;
+  }
+  try {
+    validateKitta(String(appliedKitta));
+  } catch (err) {
+    if (!(err instanceof KittaValidationError)) throw err;
+    res.status(400).json({ error: err.message, violation: err.violation });
+    return;
+  }
+  if (typeof dryRun !== 'boolean') {
+    res.status(400).json({ error: '"dryRun" must be true or false' });
+    return;
+  }
+  // A dry run stops before the PIN is asked for
+  if (!transactionPIN && !dryRun) {
+    res.status(400).json({ error: 'Missing "transactionPIN" in request body' });
     return;
   }
 
-  const { account, companyIndex, appliedKitta, transactionPIN } = req.body;
-  if (!account) {
-    res.status(400).json({ error: 'Missing "account" in request body' });
+  const engine = resolveRequestEngine(res, req.body.engine);
+  if (!engine) return;
+
+  const cred = resolveAccount(res, account);
+  if (!cred) return;
+
+  const job = enqueueJob('apply', [account], { issueId, companyName, appliedKitta, engine, dryRun }, (emit, signal, jobId) =>
+    ENGINES[engine].apply(
+      account, cred, issueId, companyName || undefined, appliedKitta, transactionPIN || '', emit, { signal, dryRun, jobId },
+    ),
+  );
+  streamJob(res, job);
+});
+
+interface BulkApplySettings {
+  issueId: string;
+  companyName: string;
+  appliedKitta: string;
+  transactionPIN: string;
+  accountPINs: Record<string, string>;
+  dryRun: boolean;
+  engine: AutomationEngine;
+}
+
+/** Enqueue a bulk apply. The PINs are kept with the job, outside its params, so it can be retried. */
+function enqueueBulkApply(
+  entries: { name: string; cred: Credential }[],
+  settings: BulkApplySettings,
+  extraParams: Record<string, unknown> = {},
+): Job {
+  const { issueId, companyName, appliedKitta, transactionPIN, accountPINs, dryRun, engine } = settings;
+  return enqueueJob(
+    'bulk-apply',
+    entries.map((e) => e.name),
+    { issueId, companyName, appliedKitta, engine, dryRun, ...extraParams },
+    (emit, signal, jobId) => ENGINES[engine].bulkApply(
+      entries, issueId, companyName, appliedKitta, transactionPIN, accountPINs, emit, { signal, dryRun, jobId },
+    ),
+    { transactionPIN, accountPINs },
+  );
+}
+
+/** Bulk apply for a specific IPO across multiple accounts — returns SSE stream */
+app.post('/api/bulk-apply', (req, res) => {
+  const { accounts: accountNames, issueId, companyName, appliedKitta, transactionPIN, accountPINs = {}, dryRun = false } = req.body;
+  if (!Array.isArray(accountNames) || accountNames.length === 0) {
+    res.status(400).json({ error: 'Missing or empty "accounts" array in request body' });
+    return;
+  }
+  if (typeof issueId !== 'string' || !issueId) {
+    res.status(400).json({ error: 'Missing "issueId" in request body (the "id" of an issue from a scan)' });
     return;
   }
-  if (companyIndex === undefined || companyIndex === null) {
-    res.status(400).json({ error: 'Missing "companyIndex" in request body' });
+  if (!companyName) {
+    res.status(400).json({ error: 'Missing "companyName" in request body' });
     return;
   }
   if (!appliedKitta) {
     res.status(400).json({ error: 'Missing "appliedKitta" in request body' });
     return;
   }
-  if (!transactionPIN) {
+  try {
+    validateKitta(String(appliedKitta));
+  } catch (err) {
+    if (!(err instanceof KittaValidationError)) throw err;
+    res.status(400).json({ error: err.message, violation: err.violation });
+    return;
+  }
+  if (typeof dryRun !== 'boolean') {
+    res.status(400).json({ error: '"dryRun" must be true or false' });
+    return;
+  }
+  // A dry run stops before the PIN is asked for
+  if (!transactionPIN && !dryRun) {
     res.status(400).json({ error: 'Missing "transactionPIN" in request body' });
     return;
   }
 
-  const creds = loadAllCredentials();
-  const cred = creds[account];
-  if (!cred) {
-    res.status(404).json({ error: `Account "${account}" not found` });
+  const engine = resolveRequestEngine(res, req.body.engine);
+  if (!engine) return;
+
+  const entries = resolveAccounts(res, accountNames);
+  if (!entries) return;
+
+  const job = enqueueBulkApply(entries, {
+    issueId, companyName, appliedKitta, transactionPIN: transactionPIN || '', accountPINs, dryRun, engine,
+  });
+  streamJob(res, job);
+});
+
+/** Check allotment results for a company across several accounts — returns SSE stream */
+app.post('/api/allotment', (req, res) => {
+  const { accounts: accountNames, companyName } = req.body;
+  if (!Array.isArray(accountNames) || accountNames.length === 0) {
+    res.status(400).json({ error: 'Missing or empty "accounts" array in request body' });
+    return;
+  }
+  if (typeof companyName !== 'string' || !companyName.trim()) {
+    res.status(400).json({ error: 'Missing "companyName" in request body' });
     return;
   }
 
-  // Set up SSE
-  res.writeHead(200, {
-    'Content-Type': 'text/event-stream',
-    'Cache-Control': 'no-cache',
-    Connection: 'keep-alive',
+  const engine = resolveRequestEngine(res, req.body.engine);
+  if (!engine) return;
+
+  const provider = resolveAllotmentProvider(req.body.provider);
+  if (!provider) {
+    res.status(400).json({
+      error: `Unknown provider "${req.body.provider}" (expected one of: ${listAllotmentProviders().join(', ')})`,
+    });
+    return;
+  }
+
+  const entries = resolveAccounts(res, accountNames);
+  if (!entries) return;
+
+  const job = enqueueJob('allotment', accountNames, { companyName, engine, provider: provider.name }, (emit, signal) =>
+    ENGINES[engine].allotment(entries, companyName.trim(), provider, emit, { signal }),
+  );
+  streamJob(res, job);
+});
+
+/** Read My Portfolio on several accounts — returns SSE stream */
+app.post('/api/portfolio', (req, res) => {
+  const { accounts: accountNames } = req.body;
+  if (!Array.isArray(accountNames) || accountNames.length === 0) {
+    res.status(400).json({ error: 'Missing or empty "accounts" array in request body' });
+    return;
+  }
+
+  const engine = resolveRequestEngine(res, req.body.engine);
+  if (!engine) return;
+
+  const entries = resolveAccounts(res, accountNames);
+  if (!entries) return;
+
+  const job = enqueueJob('portfolio', accountNames, { engine }, (emit, signal) =>
+    ENGINES[engine].portfolio(entries, emit, { signal }),
+  );
+  streamJob(res, job);
+});
+
+/** Import transaction history and purchase sources on several accounts — returns SSE stream */
+app.post('/api/transactions', (req, res) => {
+  const { accounts: accountNames } = req.body;
+  if (!Array.isArray(accountNames) || accountNames.length === 0) {
+    res.status(400).json({ error: 'Missing or empty "accounts" array in request body' });
+    return;
+  }
+
+  const engine = resolveRequestEngine(res, req.body.engine);
+  if (!engine) return;
+
+  const entries = resolveAccounts(res, accountNames);
+  if (!entries) return;
+
+  const job = enqueueJob('transactions', accountNames, { engine }, (emit, signal) =>
+    ENGINES[engine].transactions(entries, emit, { signal }),
+  );
+  streamJob(res, job);
+});
+
+/** Weighted average cost per script, from the account's last transaction history import */
+app.get('/api/accounts/:name/wacc', (req, res) => {
+  const { name } = req.params;
+  if (!resolveAccount(res, name)) return;
+  const history = loadTransactionHistory(name);
+  if (!history) {
+    res.status(404).json({ error: `No transaction history imported for "${name}" yet` });
+    return;
+  }
+  res.json({
+    account: name,
+    importedAt: history.importedAt,
+    transactions: history.transactions.length,
+    purchases: history.purchases.length,
+    scripts: calculateWacc(history),
   });
+});
 
-  running = true;
+/**
+ * Every Application Report entry of the account, with its details, as a CSV,
+ * XLSX or JSON download. Runs as a `report-export` job and answers once it finishes.
+ */
+app.get('/api/accounts/:name/reports/export', (req, res) => {
+  const { name } = req.params;
+  const format = resolveExportFormat(req.query.format);
+  if (!format) {
+    res.status(400).json({ error: `Unknown format "${req.query.format}" (expected one of: ${listExportFormats().join(', ')})` });
+    return;
+  }
 
-  const sendEvent = (event: AutomationEvent) => {
-    res.write(`data: ${JSON.stringify(event)}\n\n`);
-  };
+  const engine = resolveRequestEngine(res, req.query.engine);
+  if (!engine) return;
+
+  const cred = resolveAccount(res, name);
+  if (!cred) return;
+
+  const job = enqueueJob('report-export', [name], { format, engine }, (emit, signal) =>
+    ENGINES[engine].exportReports(name, cred, emit, { signal }),
+  );
+  res.setHeader('X-Job-Id', job.id);
+
+  const records: ReportRecord[] = [];
+  const unsubscribe = subscribeToJob(job.id, (event) => {
+    if (event.type === 'report_record') records.push(event.data);
+    if (event.type !== 'job' || !isTerminalStatus(event.data.status) || res.headersSent) return;
 
-  applyForIPO(account, cred, companyIndex, appliedKitta, transactionPIN, sendEvent).finally(() => {
-    running = false;
-    res.end();
+    const finished = getJob(job.id)!;
+    if (finished.status !== 'succeeded') {
+      res.status(finished.status === 'cancelled' ? 409 : 502).json({ error: finished.error || `Export ${finished.status}` });
+      return;
+    }
+    const file = renderReportExport(records, format);
+    const slug = name.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'account';
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="application-report-${slug}.${file.extension}"`);
+    res.send(file.data);
   });
 
-  req.on('close', () => {
-    console.log('[SSE] Client disconnected (apply)');
+  // Nobody is left to hand the file to
+  res.on('close', () => {
+    unsubscribe();
+    if (!res.headersSent) cancelJob(job.id);
   });
 });
 
-/** Bulk apply for a specific IPO across multiple accounts — returns SSE stream */
-app.post('/api/bulk-apply', (req, res) => {
-  if (running) {
-    res.status(409).json({ error: 'An automation is already running. Please wait.' });
+/** List queued, running and recently finished jobs */
+app.get('/api/jobs', (_req, res) => {
+  res.json(listJobs());
+});
+
+/** A single job, including every event it has emitted so far */
+app.get('/api/jobs/:id', (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: `Job "${req.params.id}" not found` });
     return;
   }
+  res.json({ ...job, events: getJobEvents(job.id) });
+});
 
-  const { accounts: accountNames, companyName, appliedKitta, transactionPIN, accountPINs = {} } = req.body;
-  if (!Array.isArray(accountNames) || accountNames.length === 0) {
-    res.status(400).json({ error: 'Missing or empty "accounts" array in request body' });
+/** Cancel a queued or running job */
+app.post('/api/jobs/:id/cancel', (req, res) => {
+  const result = cancelJob(req.params.id);
+  if ('error' in result) {
+    res.status(result.status).json({ error: result.error });
     return;
   }
-  if (!companyName) {
-    res.status(400).json({ error: 'Missing "companyName" in request body' });
+  res.json({ ok: true, job: getJob(req.params.id) });
+});
+
+/** A screenshot, HTML snapshot or trace saved when the job failed on an account */
+app.get('/api/jobs/:id/artifacts/:name', (req, res) => {
+  const file = findArtifact(req.params.id, req.params.name);
+  if (!file) {
+    res.status(404).json({ error: `Artifact "${req.params.name}" not found for job "${req.params.id}"` });
     return;
   }
-  if (!appliedKitta) {
-    res.status(400).json({ error: 'Missing "appliedKitta" in request body' });
+  res.sendFile(file);
+});
+
+/** Receipts of the applications the job submitted */
+app.get('/api/jobs/:id/receipts', (req, res) => {
+  res.json(listReceipts(req.params.id));
+});
+
+/** Every receipt of the job, with confirmation screenshots, as one ZIP */
+app.get('/api/jobs/:id/receipts.zip', (req, res) => {
+  const zip = receiptsZip(req.params.id);
+  if (!zip) {
+    res.status(404).json({ error: `No receipts for job "${req.params.id}"` });
     return;
   }
-  if (!transactionPIN) {
-    res.status(400).json({ error: 'Missing "transactionPIN" in request body' });
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="receipts-${req.params.id}.zip"`);
+  res.send(zip);
+});
+
+/** Bulk apply again, with the same settings, for only the accounts that ended in error or login_failed — returns SSE stream */
+app.post('/api/jobs/:id/retry-failed', (req, res) => {
+  const original = getJob(req.params.id);
+  if (!original) {
+    res.status(404).json({
+      error: `Job "${req.params.id}" not found. PINs are kept in memory only, so a job can't be retried once it has been ` +
+        'pruned from the job list or the server has restarted',
+    });
+    return;
+  }
+  if (original.type !== 'bulk-apply') {
+    res.status(400).json({ error: `Only bulk-apply jobs can be retried, not "${original.type}"` });
+    return;
+  }
+  if (!isTerminalStatus(original.status)) {
+    res.status(409).json({ error: `Job is still ${original.status}` });
     return;
   }
 
-  const creds = loadAllCredentials();
+  const statuses = finalAccountStatuses(original.id);
+  const failed = original.accounts.filter((name) => statuses[name] && isRetryableFailure(statuses[name]));
+  if (failed.length === 0) {
+    res.status(409).json({ error: 'No accounts in this job failed in a way that retrying could fix' });
+    return;
+  }
 
-  // Validate all accounts exist before starting
-  const entries: { name: string; cred: any }[] = [];
-  for (const name of accountNames) {
-    const cred = creds[name];
-    if (!cred) {
-      res.status(404).json({ error: `Account "${name}" not found` });
+  const entries = resolveAccounts(res, failed);
+  if (!entries) return;
+
+  const params = original.params as Omit<BulkApplySettings, 'transactionPIN' | 'accountPINs'>;
+  const secrets = getJobSecrets(original.id) as { transactionPIN: string; accountPINs: Record<string, string> };
+  const job = enqueueBulkApply(entries, {
+    issueId: params.issueId,
+    companyName: params.companyName,
+    appliedKitta: params.appliedKitta,
+    dryRun: params.dryRun,
+    engine: params.engine,
+    transactionPIN: secrets.transactionPIN,
+    accountPINs: secrets.accountPINs,
+  }, { retryOf: original.id });
+  streamJob(res, job);
+});
+
+/** Past jobs with their events — filter by account, company, type and date range */
+app.get('/api/history', (req, res) => {
+  const { account, company, type, from, to, limit } = req.query;
+  const filters: HistoryFilters = {};
+  if (typeof account === 'string' && account) filters.account = account;
+  if (typeof company === 'string' && company) filters.company = company;
+  if (typeof type === 'string' && type) filters.type = type as HistoryFilters['type'];
+  if (typeof from === 'string' && from) filters.from = from;
+  if (typeof to === 'string' && to) filters.to = to;
+  if (typeof limit === 'string' && limit) filters.limit = parseInt(limit, 10);
+
+  for (const key of ['from', 'to'] as const) {
+    const value = filters[key];
+    if (value && Number.isNaN(Date.parse(value))) {
+      res.status(400).json({ error: `Invalid "${key}" date: ${value}` });
       return;
     }
-    entries.push({ name, cred });
+  }
+  if (filters.limit !== undefined && (!Number.isFinite(filters.limit) || filters.limit < 1)) {
+    res.status(400).json({ error: 'Invalid "limit"' });
+    return;
   }
 
-  res.writeHead(200, {
-    'Content-Type': 'text/event-stream',
-    'Cache-Control': 'no-cache',
-    Connection: 'keep-alive',
-  });
+  try {
+    res.json(queryHistory(filters));
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+  }
+});
 
-  running = true;
+/** Schedules and per-account auto-apply rules */
+app.get('/api/schedules', (_req, res) => {
+  try {
+    res.json({ ...loadSchedulerSettings(), defaultCron: DEFAULT_CRON });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+  }
+});
 
-  const sendEvent = (event: AutomationEvent) => {
-    res.write(`data: ${JSON.stringify(event)}\n\n`);
-  };
+app.post('/api/schedules', (req, res) => {
+  const input = { cron: DEFAULT_CRON, ...req.body };
+  const invalid = validateSchedule(input);
+  if (invalid) {
+    res.status(400).json({ error: invalid });
+    return;
+  }
+  try {
+    res.status(201).json(createSchedule(input));
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+  }
+});
 
-  bulkApplyForIPO(entries, companyName, appliedKitta, transactionPIN, accountPINs, sendEvent).finally(() => {
-    running = false;
-    res.end();
-  });
+/** Replace the per-account auto-apply rules */
+app.put('/api/schedules/rules', (req, res) => {
+  const invalid = validateRules(req.body);
+  if (invalid) {
+    res.status(400).json({ error: invalid });
+    return;
+  }
+  try {
+    saveRules(req.body);
+    res.json(loadSchedulerSettings().rules);
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+  }
+});
 
-  req.on('close', () => {
-    console.log('[SSE] Client disconnected (bulk-apply)');
-  });
+app.put('/api/schedules/:id', (req, res) => {
+  const existing = loadSchedulerSettings().schedules.find((s) => s.id === req.params.id);
+  if (!existing) {
+    res.status(404).json({ error: `Schedule "${req.params.id}" not found` });
+    return;
+  }
+  const invalid = validateSchedule({ ...existing, ...req.body });
+  if (invalid) {
+    res.status(400).json({ error: invalid });
+    return;
+  }
+  res.json(updateSchedule(req.params.id, req.body));
+});
+
+app.delete('/api/schedules/:id', (req, res) => {
+  if (!deleteSchedule(req.params.id)) {
+    res.status(404).json({ error: `Schedule "${req.params.id}" not found` });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+/** Run a schedule immediately instead of waiting for its cron time */
+app.post('/api/schedules/:id/run', (req, res) => {
+  const schedule = loadSchedulerSettings().schedules.find((s) => s.id === req.params.id);
+  if (!schedule) {
+    res.status(404).json({ error: `Schedule "${req.params.id}" not found` });
+    return;
+  }
+  const jobId = triggerSchedule(schedule);
+  if (!jobId) {
+    res.status(409).json({ error: 'This schedule is already queued or running' });
+    return;
+  }
+  res.json({ ok: true, jobId });
 });
 
 /** Check if automation is currently running */
 app.get('/api/status', (_req, res) => {
-  res.json({ running });
+  res.json(getQueueStats());
 });
 
 /** Health check (no auth required) */
@@ -313,6 +702,19 @@ app.get('*', (_req, res) => {
 
 // ── Start ────────────────────────────────────────────────────────────────────
 
-app.listen(PORT, '0.0.0.0', () => {
-  console.log(`Server running on port ${PORT}`);
-});
+// Only when run as the server — tests import `app` and listen on their own port
+if (require.main === module) {
+  const interrupted = markInterruptedJobs();
+  if (interrupted > 0) {
+    console.log(`[Jobs] Marked ${interrupted} job(s) interrupted by the last shutdown as failed`);
+  }
+  const removed = rotateHistory();
+  if (removed > 0) {
+    console.log(`[Jobs] Removed ${removed} job(s) older than the history retention from history`);
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Server running on port ${PORT}`);
+    startScheduler();
+  });
+}
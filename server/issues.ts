@@ -0,0 +1,179 @@
+import * as crypto from 'crypto';
+
+// ── Issue Identity ───────────────────────────────────────────────────────────
+
+/** The fields of an open issue that both engines can read */
+export interface IssueFields {
+  name: string;
+  shareType: string;
+  shareGroup: string;
+}
+
+/** Fallback ID when Meroshare's companyShareId is unknown: a hash of what the issue list shows */
+export function issueHash({ name, shareType, shareGroup }: IssueFields): string {
+  const key = [name, shareType, shareGroup].map((s) => s.trim().toLowerCase()).join('|');
+  return `hash-${crypto.createHash('sha1').update(key).digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Stable ID for an open issue, so a later apply can find the issue even if
+ * Meroshare reordered the list. Meroshare's companyShareId when known.
+ */
+export function issueId(fields: IssueFields, companyShareId?: number): string {
+  return companyShareId !== undefined ? String(companyShareId) : issueHash(fields);
+}
+
+/**
+ * Whether `id` names this issue. Accepts either form, so a hashed ID (from a
+ * scan that couldn't see companyShareId) still matches once it is known.
+ */
+export function matchesIssueId(id: string, issue: IssueFields & { id: string }): boolean {
+  return id === issue.id || id === issueHash(issue);
+}
+
+/**
+ * Whether two listings are the same issue. Hashes only decide when one side
+ * has no companyShareId: an ordinary and a reserved issue of one company can
+ * hash alike, since the hash leaves out the sub group.
+ */
+function sameIssue(a: IssueFields & { id: string }, b: IssueFields & { id: string }): boolean {
+  if (a.id === b.id) return true;
+  const hashed = a.id.startsWith('hash-') || b.id.startsWith('hash-');
+  return hashed && issueHash(a) === issueHash(b);
+}
+
+/** Company name for comparisons: case and extra spaces ignored */
+export function normalizeCompanyName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function sameCompany(a: string, b: string): boolean {
+  return normalizeCompanyName(a) === normalizeCompanyName(b);
+}
+
+// ── Kitta Rules ──────────────────────────────────────────────────────────────
+
+/** An issue's limits on applied kitta; any that are unknown are not checked */
+export interface KittaRules {
+  minUnit?: number;
+  maxUnit?: number;
+  multipleOf?: number;
+  pricePerUnit?: number;
+}
+
+export interface KittaViolation {
+  field: 'appliedKitta' | 'amount';
+  rule: 'numeric' | 'min' | 'max' | 'multiple' | 'amount';
+  /** What was given */
+  value: string;
+  /** What the rule needs, e.g. "≥ 10" */
+  expected: string;
+}
+
+/** Applied kitta (or the amount Meroshare computed from it) breaks the issue's rules */
+export class KittaValidationError extends Error {
+  constructor(message: string, readonly violation: KittaViolation) {
+    super(message);
+    this.name = 'KittaValidationError';
+  }
+}
+
+/** Check applied kitta against the issue's rules; returns it as a number or throws KittaValidationError */
+export function validateKitta(appliedKitta: string, rules: KittaRules = {}): number {
+  const value = String(appliedKitta).trim();
+  const fail = (rule: KittaViolation['rule'], expected: string, message: string): never => {
+    throw new KittaValidationError(`[Applied Kitta] ${message}`, { field: 'appliedKitta', rule, value, expected });
+  };
+
+  if (!/^\d+$/.test(value) || Number(value) < 1) {
+    fail('numeric', 'a positive whole number', `"${value}" is not a positive whole number`);
+  }
+  const kitta = Number(value);
+  const { minUnit, maxUnit, multipleOf } = rules;
+  if (minUnit !== undefined && kitta < minUnit) {
+    fail('min', `≥ ${minUnit}`, `${kitta} is below the minimum of ${minUnit}`);
+  }
+  if (maxUnit !== undefined && kitta > maxUnit) {
+    fail('max', `≤ ${maxUnit}`, `${kitta} is above the maximum of ${maxUnit}`);
+  }
+  if (multipleOf !== undefined && multipleOf > 1 && kitta % multipleOf !== 0) {
+    fail('multiple', `a multiple of ${multipleOf}`, `${kitta} is not a multiple of ${multipleOf}`);
+  }
+  return kitta;
+}
+
+/** Check the amount the apply form filled in is price × kitta */
+export function validateAmount(amountText: string, kitta: number, pricePerUnit: number) {
+  const expected = kitta * pricePerUnit;
+  const amount = Number(amountText.replace(/[^0-9.]/g, ''));
+  if (!amountText.trim() || Math.abs(amount - expected) > 0.01) {
+    throw new KittaValidationError(
+      `[Amount] The form shows "${amountText}" but ${kitta} kitta × Rs ${pricePerUnit} is Rs ${expected}`,
+      { field: 'amount', rule: 'amount', value: amountText, expected: String(expected) },
+    );
+  }
+}
+
+// ── Family Matrix ────────────────────────────────────────────────────────────
+
+/**
+ * Where one account stands on an issue:
+ * - can_apply: listed with an Apply button
+ * - already_applied: listed without one (applied, or its window closed)
+ * - not_listed: the account doesn't see it, e.g. a quota reserved for others
+ */
+export type IssueAccountState = 'can_apply' | 'already_applied' | 'not_listed';
+
+export interface IssueMatrixRow<T> {
+  issue: T;
+  /** One entry per scanned account */
+  states: Record<string, IssueAccountState>;
+}
+
+/** Every issue any account sees, against every account that was scanned */
+export interface IssueMatrix<T> {
+  /** Scanned accounts, in the order they were asked for */
+  accounts: string[];
+  issues: IssueMatrixRow<T>[];
+}
+
+/**
+ * Line up each account's scan by issue. The same issue is matched across
+ * accounts by ID or, when one side only has the hashed form, by its hash.
+ * Details are taken from an account that can apply, since only its apply
+ * form shows them.
+ */
+export function buildIssueMatrix<T extends IssueFields & { id: string; hasApplyButton: boolean }>(
+  scans: { account: string; issues: T[] }[],
+): IssueMatrix<T> {
+  const rows: IssueMatrixRow<T>[] = [];
+  for (const { account, issues } of scans) {
+    for (const issue of issues) {
+      let row = rows.find((r) => sameIssue(r.issue, issue));
+      if (!row) {
+        row = { issue, states: {} };
+        rows.push(row);
+      } else if (issue.hasApplyButton && !row.issue.hasApplyButton) {
+        row.issue = issue;
+      }
+      row.states[account] = issue.hasApplyButton ? 'can_apply' : 'already_applied';
+    }
+  }
+
+  const accounts = scans.map((s) => s.account);
+  for (const row of rows) {
+    row.states = Object.fromEntries(accounts.map((account) => [account, row.states[account] ?? 'not_listed']));
+  }
+  return { accounts, issues: rows };
+}
+
+/** Accounts that can still apply for the matrix row's issue */
+export function eligibleAccounts(row: IssueMatrixRow<unknown>): string[] {
+  return Object.keys(row.states).filter((account) => row.states[account] === 'can_apply');
+}
+
+/** Summary line for a family scan, e.g. "3 issue(s) across 2 account(s) — 4 application(s) still open" */
+export function describeIssueMatrix(matrix: IssueMatrix<unknown>): string {
+  const open = matrix.issues.reduce((total, row) => total + eligibleAccounts(row).length, 0);
+  return `${matrix.issues.length} issue(s) across ${matrix.accounts.length} account(s) — ${open} application(s) still open`;
+}
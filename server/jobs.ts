@@ -0,0 +1,255 @@
+import crypto from 'crypto';
+import type { AutomationEvent, AccountStatus } from './automation';
+import { recordJob, recordEvent } from './store';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type JobType =
+  | 'run' | 'scan' | 'bulk-scan' | 'apply' | 'bulk-apply' | 'auto-apply' | 'allotment' | 'portfolio' | 'transactions' | 'report-export';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  /** Account name(s) this job logs into */
+  accounts: string[];
+  /** Request parameters safe to expose (never PINs or passwords) */
+  params: Record<string, unknown>;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+}
+
+/** Runs the job; `jobId` is for anything it stores alongside the job, such as failure artifacts */
+export type JobRunner = (emit: (event: AutomationEvent) => void, signal: AbortSignal, jobId: string) => Promise<void>;
+
+type JobListener = (event: AutomationEvent) => void;
+
+interface JobEntry {
+  job: Job;
+  run: JobRunner;
+  /** Settings kept to re-run the job (e.g. PINs) — held in memory only, never exposed or persisted */
+  secrets: Record<string, unknown>;
+  events: AutomationEvent[];
+  listeners: Set<JobListener>;
+  controller: AbortController;
+}
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+/** How many finished jobs to keep in memory for GET /api/jobs */
+export const MAX_FINISHED_JOBS = 100;
+
+// ── Queue State ──────────────────────────────────────────────────────────────
+
+const entries = new Map<string, JobEntry>();
+const queue: string[] = [];
+let activeId: string | null = null;
+
+export function isTerminalStatus(status: JobStatus): boolean {
+  return status === 'succeeded' || status === 'failed' || status === 'cancelled';
+}
+
+function queuePosition(id: string): number {
+  return queue.indexOf(id) + 1;
+}
+
+/** Write to the history store; a full disk must not take the job down with it */
+function persist(write: () => void) {
+  try {
+    write();
+  } catch (err: any) {
+    console.error(`[Jobs] Failed to write history: ${err.message}`);
+  }
+}
+
+function publish(entry: JobEntry, event: AutomationEvent) {
+  entry.events.push(event);
+  persist(() => recordEvent(entry.job.id, entry.events.length, event));
+  for (const listener of entry.listeners) {
+    listener(event);
+  }
+}
+
+function publishStatus(entry: JobEntry, statusChanged = true) {
+  const { id, status } = entry.job;
+  if (statusChanged) persist(() => recordJob(entry.job));
+  publish(entry, { type: 'job', data: { id, status, position: queuePosition(id) } });
+}
+
+/** Tell waiting jobs their new place after the queue moved */
+function publishQueuePositions() {
+  for (const waitingId of queue) {
+    const waiting = entries.get(waitingId);
+    if (waiting) publishStatus(waiting, false);
+  }
+}
+
+function pruneFinished() {
+  const finished = [...entries.values()].filter((e) => isTerminalStatus(e.job.status));
+  for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    entries.delete(entry.job.id);
+  }
+}
+
+// ── Worker ───────────────────────────────────────────────────────────────────
+
+async function runEntry(entry: JobEntry) {
+  const { job } = entry;
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  publishStatus(entry);
+
+  let lastError: string | null = null;
+  let cancelled = false;
+  try {
+    await entry.run((event) => {
+      if (event.type === 'error') lastError = event.message;
+      if (event.type === 'cancelled') cancelled = true;
+      publish(entry, event);
+    }, entry.controller.signal, job.id);
+  } catch (err: any) {
+    lastError = err.message || String(err);
+    publish(entry, { type: 'error', message: lastError! });
+  }
+
+  job.status = cancelled ? 'cancelled' : lastError ? 'failed' : 'succeeded';
+  job.error = lastError;
+  job.finishedAt = new Date().toISOString();
+  publishStatus(entry);
+  entry.listeners.clear();
+}
+
+/** Run queued jobs one at a time, in the order they were enqueued */
+async function drain() {
+  if (activeId) return;
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const entry = entries.get(id);
+    if (!entry || entry.job.status !== 'queued') continue;
+
+    activeId = id;
+    publishQueuePositions();
+
+    try {
+      await runEntry(entry);
+    } finally {
+      activeId = null;
+    }
+    pruneFinished();
+  }
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+export function enqueueJob(
+  type: JobType,
+  accounts: string[],
+  params: Record<string, unknown>,
+  run: JobRunner,
+  secrets: Record<string, unknown> = {},
+): Job {
+  const job: Job = {
+    id: crypto.randomUUID(),
+    type,
+    status: 'queued',
+    accounts,
+    params,
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    error: null,
+  };
+
+  const entry: JobEntry = { job, run, secrets, events: [], listeners: new Set(), controller: new AbortController() };
+  entries.set(job.id, entry);
+  queue.push(job.id);
+  publishStatus(entry);
+
+  console.log(`[Jobs] Queued ${type} job ${job.id} for [${accounts.join(', ')}]`);
+  void drain();
+
+  return job;
+}
+
+/**
+ * Cancel a job. A queued job is dropped immediately; a running job is asked to
+ * stop and finishes as `cancelled` once the automation reaches a safe checkpoint.
+ */
+export function cancelJob(id: string): { ok: true } | { error: string; status: number } {
+  const entry = entries.get(id);
+  if (!entry) return { error: `Job "${id}" not found`, status: 404 };
+
+  const { job } = entry;
+  if (isTerminalStatus(job.status)) {
+    return { error: `Job is already ${job.status}`, status: 409 };
+  }
+
+  if (job.status === 'queued') {
+    queue.splice(queue.indexOf(id), 1);
+    job.status = 'cancelled';
+    job.finishedAt = new Date().toISOString();
+    publish(entry, { type: 'cancelled', message: 'Cancelled before it started' });
+    publishStatus(entry);
+    entry.listeners.clear();
+    publishQueuePositions();
+  } else {
+    entry.controller.abort();
+    publish(entry, { type: 'log', message: 'Cancellation requested — stopping at the next safe point...' });
+  }
+
+  console.log(`[Jobs] Cancel requested for ${job.type} job ${id}`);
+  return { ok: true };
+}
+
+/** Job summary, with `position` (1-based) while it is waiting in the queue */
+export function getJob(id: string): (Job & { position: number }) | null {
+  const entry = entries.get(id);
+  if (!entry) return null;
+  return { ...entry.job, position: queuePosition(id) };
+}
+
+export function getJobEvents(id: string): AutomationEvent[] {
+  return entries.get(id)?.events.slice() ?? [];
+}
+
+/** The settings a job was enqueued with besides its params, or null once it has been pruned */
+export function getJobSecrets(id: string): Record<string, unknown> | null {
+  return entries.get(id)?.secrets ?? null;
+}
+
+/** Last account_status each account reached, for bulk jobs */
+export function finalAccountStatuses(id: string): Record<string, AccountStatus> {
+  const statuses: Record<string, AccountStatus> = {};
+  for (const event of entries.get(id)?.events ?? []) {
+    if (event.type === 'account_status') statuses[event.data.account] = event.data;
+  }
+  return statuses;
+}
+
+export function listJobs(): (Job & { position: number })[] {
+  return [...entries.values()].map((e) => ({ ...e.job, position: queuePosition(e.job.id) }));
+}
+
+/**
+ * Replay the job's events so far, then forward new ones until it finishes.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToJob(id: string, listener: JobListener): () => void {
+  const entry = entries.get(id);
+  if (!entry) return () => {};
+
+  for (const event of entry.events) listener(event);
+  if (isTerminalStatus(entry.job.status)) return () => {};
+
+  entry.listeners.add(listener);
+  return () => entry.listeners.delete(listener);
+}
+
+export function getQueueStats(): { running: boolean; queued: number } {
+  return { running: activeId !== null, queued: queue.length };
+}
@@ -0,0 +1,377 @@
+import type { Credential } from './automation';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** Depository Participant, as returned by GET meroShare/capital/ */
+export interface Capital {
+  id: number;
+  code: string;
+  name: string;
+}
+
+export interface OwnDetail {
+  name: string;
+  demat: string;
+  boid: string;
+  clientCode: string;
+}
+
+export interface ApplicableIssue {
+  companyShareId: number;
+  companyName: string;
+  scrip: string;
+  subGroup: string;
+  shareTypeName: string;
+  shareGroupName: string;
+  statusName: string;
+  /** Present once the user has acted on the issue — "edit" after applying, "inProcess" while it is processed */
+  action?: string;
+  issueOpenDate?: string;
+  issueCloseDate?: string;
+}
+
+/** What the apply form shows about an issue (`meroShare/active/:companyShareId`) */
+export interface IssueDetail {
+  companyShareId: number;
+  companyName: string;
+  scrip: string;
+  /** Price per unit in Rs */
+  sharePerUnit: number;
+  minUnit: number;
+  maxUnit: number;
+  multipleOf: number;
+  issueOpenDate: string;
+  issueCloseDate: string;
+  /** Issue manager */
+  clientName: string;
+}
+
+export interface Bank {
+  id: number;
+  code: string;
+  name: string;
+}
+
+export interface BankAccount {
+  id: number;
+  accountNumber: string;
+  accountBranchId: number;
+  accountTypeId: number;
+  accountTypeName?: string;
+  branchName?: string;
+}
+
+export interface ApplyRequest {
+  companyShareId: number;
+  appliedKitta: string;
+  crnNumber: string;
+  transactionPIN: string;
+  bankId: number;
+  account: BankAccount;
+  owner: OwnDetail;
+}
+
+export interface ApplicationReport {
+  applicantFormId: number;
+  companyShareId: number;
+  companyName: string;
+  scrip: string;
+  shareTypeName: string;
+  subGroup: string;
+  statusName?: string;
+}
+
+export interface ApplicationReportDetail {
+  statusName: string;
+  meroshareRemark?: string;
+  reasonOrRemark?: string;
+  appliedKitta: number;
+  amount: number;
+  appliedDate: string;
+  receivedKitta?: number;
+}
+
+/** One row of My Portfolio. Prices come back as strings on some accounts, so read them with Number(). */
+export interface PortfolioItem {
+  script: string;
+  scriptDesc?: string;
+  currentBalance: number;
+  previousClosingPrice: number | string;
+  valueOfPrevClosingPrice: number;
+  lastTransactionPrice: number | string;
+  valueOfLastTransPrice: number;
+}
+
+export interface Portfolio {
+  meroShareMyPortfolio: PortfolioItem[];
+  totalItems: number;
+  totalValueOfLastTransPrice: number;
+  totalValueOfPrevClosingPrice: number;
+}
+
+/** One line of My Transaction History. Quantities are strings, "-" when there is none. */
+export interface TransactionItem {
+  id?: number;
+  scrip: string;
+  transactionDate: string;
+  creditQuantity: string;
+  debitQuantity: string;
+  balanceAfterTransaction: string;
+  historyDescription: string;
+}
+
+export interface TransactionHistory {
+  transactionView: TransactionItem[];
+  totalItems: number;
+}
+
+/** How some units of a script were bought, from My Purchase Source */
+export interface PurchaseItem {
+  scrip: string;
+  transactionDate?: string;
+  transactionQuantity: number | string;
+  rate: number | string;
+  purchaseSource: string;
+}
+
+interface PagedResponse<T> {
+  object: T[];
+  totalCount: number;
+}
+
+// ── Errors ───────────────────────────────────────────────────────────────────
+
+/** Non-2xx response from the Meroshare backend */
+export class MeroshareApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body: string,
+  ) {
+    super(message);
+    this.name = 'MeroshareApiError';
+  }
+}
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+const DEFAULT_API_URL = 'https://webbackend.cdsc.com.np/api/';
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/** Backend base URL (MEROSHARE_API_URL), always ending in a slash */
+export function getMeroshareApiUrl(): string {
+  const url = process.env.MEROSHARE_API_URL || DEFAULT_API_URL;
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+// ── Client ───────────────────────────────────────────────────────────────────
+
+/**
+ * Typed client for the JSON API behind the Meroshare web app. Talks HTTP
+ * directly, so no browser is needed. Call `login()` (or `useToken()` with a
+ * saved token) before anything else.
+ */
+export class MeroshareApiClient {
+  private token: string | null = null;
+
+  constructor(private readonly baseUrl: string = getMeroshareApiUrl()) {}
+
+  get authorization(): string | null {
+    return this.token;
+  }
+
+  /** Resume a session from an earlier `login()` instead of logging in again */
+  useToken(token: string) {
+    this.token = token;
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    endpoint: string,
+    body?: unknown,
+  ): Promise<{ data: T; headers: Headers; status: number }> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json, text/plain, */*',
+      'Content-Type': 'application/json',
+    };
+    if (this.token) headers.Authorization = this.token;
+
+    const res = await fetch(new URL(endpoint, this.baseUrl), {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    const text = await res.text();
+    if (!res.ok) {
+      throw new MeroshareApiError(`${method} ${endpoint} failed with HTTP ${res.status}: ${text}`, res.status, text);
+    }
+
+    let data: T;
+    try {
+      data = (text ? JSON.parse(text) : null) as T;
+    } catch {
+      throw new MeroshareApiError(`${method} ${endpoint} returned a non-JSON response`, res.status, text);
+    }
+    return { data, headers: res.headers, status: res.status };
+  }
+
+  // ── Auth ───────────────────────────────────────────────────────────────
+
+  async getCapitals(): Promise<Capital[]> {
+    const { data } = await this.request<Capital[]>('GET', 'meroShare/capital/');
+    return data.map((c) => ({ id: c.id, code: String(c.code), name: c.name }));
+  }
+
+  /** Resolve the DP by code and log in, keeping the Authorization token */
+  async login(cred: Credential): Promise<Capital> {
+    this.token = null;
+    const capitals = await this.getCapitals();
+    const dp = capitals.find((c) => c.code === cred.DP_CODE);
+    if (!dp) {
+      const availableCodes = capitals.slice(0, 10).map((c) => `${c.code} (${c.name})`).join(', ');
+      throw new Error(`DP with code ${cred.DP_CODE} not found. Available (first 10): ${availableCodes}...`);
+    }
+
+    try {
+      const { headers } = await this.request('POST', 'meroShare/auth/', {
+        clientId: dp.id,
+        username: cred.username,
+        password: cred.password,
+      });
+      this.token = headers.get('authorization');
+    } catch (err) {
+      if (err instanceof MeroshareApiError) {
+        throw new MeroshareApiError(`Login failed with HTTP ${err.status}: ${err.body}`, err.status, err.body);
+      }
+      throw err;
+    }
+
+    if (!this.token) throw new Error('Login succeeded but no Authorization token was returned');
+    return dp;
+  }
+
+  // ── Account ────────────────────────────────────────────────────────────
+
+  async getOwnDetail(): Promise<OwnDetail> {
+    const { data } = await this.request<OwnDetail>('GET', 'meroShare/ownDetail/');
+    return data;
+  }
+
+  async getBanks(): Promise<Bank[]> {
+    const { data } = await this.request<Bank[]>('GET', 'meroShare/bank/');
+    return data;
+  }
+
+  async getBankAccounts(bankId: number): Promise<BankAccount[]> {
+    const { data } = await this.request<BankAccount[]>('GET', `meroShare/bank/${bankId}`);
+    return data;
+  }
+
+  // ── Issues ─────────────────────────────────────────────────────────────
+
+  async getApplicableIssues(): Promise<ApplicableIssue[]> {
+    const { data } = await this.request<PagedResponse<ApplicableIssue>>('POST', 'meroShare/companyShare/applicableIssue/', {
+      filterFieldParams: [
+        { key: 'companyIssue.companyISIN.script', alias: 'Scrip' },
+        { key: 'companyIssue.companyISIN.company.name', alias: 'Company Name' },
+        { key: 'companyIssue.assignedToClient.name', value: '', alias: 'Issue Manager' },
+      ],
+      page: 1,
+      size: 200,
+      searchRoleViewConstants: 'VIEW_APPLICABLE_SHARE',
+      filterDateParams: [
+        { key: 'minIssueOpenDate', condition: '', alias: '', value: '' },
+        { key: 'maxIssueCloseDate', condition: '', alias: '', value: '' },
+      ],
+    });
+    return data.object;
+  }
+
+  async getIssueDetail(companyShareId: number): Promise<IssueDetail> {
+    const { data } = await this.request<IssueDetail>('GET', `meroShare/active/${companyShareId}`);
+    return data;
+  }
+
+  async applyForIssue(req: ApplyRequest): Promise<{ status: number; message: string }> {
+    const { data, status } = await this.request<{ message?: string }>('POST', 'meroShare/applicantForm/share/apply', {
+      demat: req.owner.demat,
+      boid: req.owner.boid,
+      accountNumber: req.account.accountNumber,
+      customerId: req.account.id,
+      accountBranchId: req.account.accountBranchId,
+      accountTypeId: req.account.accountTypeId,
+      appliedKitta: req.appliedKitta,
+      crnNumber: req.crnNumber,
+      transactionPIN: req.transactionPIN,
+      companyShareId: String(req.companyShareId),
+      bankId: req.bankId,
+    });
+    return { status, message: data?.message || 'Application submitted' };
+  }
+
+  // ── Application Report ─────────────────────────────────────────────────
+
+  async getApplicationReports(page = 1, size = 200): Promise<PagedResponse<ApplicationReport>> {
+    const { data } = await this.request<PagedResponse<ApplicationReport>>('POST', 'meroShare/applicantForm/active/search/', {
+      filterFieldParams: [
+        { key: 'companyShare.companyIssue.companyISIN.script', alias: 'Scrip' },
+        { key: 'companyShare.companyIssue.companyISIN.company.name', alias: 'Company Name' },
+      ],
+      page,
+      size,
+      searchRoleViewConstants: 'VIEW_APPLICANT_FORM_COMPLETE',
+      filterDateParams: [
+        { key: 'appliedDate', condition: '', alias: '', value: '' },
+        { key: 'appliedDate', condition: '', alias: '', value: '' },
+      ],
+    });
+    return data;
+  }
+
+  async getApplicationReportDetail(applicantFormId: number): Promise<ApplicationReportDetail> {
+    const { data } = await this.request<ApplicationReportDetail>('GET', `meroShare/applicantForm/report/detail/${applicantFormId}`);
+    return data;
+  }
+
+  // ── Portfolio ──────────────────────────────────────────────────────────
+
+  /** My Portfolio for the logged-in account — it lives under meroShareView/, not meroShare/ */
+  async getMyPortfolio(owner: OwnDetail, page = 1, size = 200): Promise<Portfolio> {
+    const { data } = await this.request<Portfolio>('POST', 'meroShareView/myPortfolio/', {
+      sortBy: 'script',
+      demat: [owner.demat],
+      clientCode: owner.clientCode,
+      page,
+      size,
+      sortAsc: true,
+    });
+    return data;
+  }
+
+  // ── Transaction History ────────────────────────────────────────────────
+
+  /** My Transaction History for every script, newest first */
+  async getTransactionHistory(owner: OwnDetail, page = 1, size = 200): Promise<TransactionHistory> {
+    const { data } = await this.request<TransactionHistory>('POST', 'meroShareView/myTransaction/', {
+      boid: owner.demat,
+      clientCode: owner.clientCode,
+      script: null,
+      requestTypeScript: false,
+      page,
+      size,
+    });
+    return data;
+  }
+
+  /** My Purchase Source for one script */
+  async getPurchaseSources(owner: OwnDetail, scrip: string): Promise<PurchaseItem[]> {
+    const { data } = await this.request<PurchaseItem[]>('POST', 'meroShareView/myPurchase/search/', {
+      demat: owner.demat,
+      scrip,
+    });
+    return data;
+  }
+}
@@ -0,0 +1,78 @@
+import type { Browser } from 'playwright';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+const DEFAULT_BULK_CONCURRENCY = 3;
+
+/** How many accounts a bulk run works on at once. Set BULK_CONCURRENCY=1 for one at a time. */
+export function getBulkConcurrency(): number {
+  const value = parseInt(process.env.BULK_CONCURRENCY || '', 10);
+  return Number.isFinite(value) && value >= 1 ? value : DEFAULT_BULK_CONCURRENCY;
+}
+
+// ── Limiter ──────────────────────────────────────────────────────────────────
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/** Runs at most `size` tasks at a time; waiting tasks start in the order they were queued */
+export function createLimiter(size: number): Limiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  return async (task) => {
+    if (active >= size) await new Promise<void>((resolve) => waiting.push(resolve));
+    active++;
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
+
+// ── Browser Pool ─────────────────────────────────────────────────────────────
+
+/**
+ * One shared browser for a bulk run, with at most `size` tasks using it at
+ * once (schedule them through `limit`). Each task opens and closes its own
+ * context, so accounts never share cookies. The browser is launched on first
+ * use and relaunched if it crashes.
+ */
+export class BrowserPool {
+  private browser: Promise<Browser> | null = null;
+  readonly limit: Limiter;
+
+  constructor(
+    private readonly launch: () => Promise<Browser>,
+    readonly size: number = getBulkConcurrency(),
+  ) {
+    this.limit = createLimiter(size);
+  }
+
+  getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      const launching = this.launch();
+      this.browser = launching;
+      launching.then(
+        (browser) => browser.on('disconnected', () => {
+          if (this.browser === launching) this.browser = null;
+        }),
+        () => {
+          if (this.browser === launching) this.browser = null;
+        },
+      );
+    }
+    return this.browser;
+  }
+
+  async close() {
+    const launching = this.browser;
+    this.browser = null;
+    if (launching) await (await launching.catch(() => null))?.close();
+  }
+}
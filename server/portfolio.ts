@@ -0,0 +1,42 @@
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** One script held by an account, as My Portfolio shows it */
+export interface Holding {
+  account: string;
+  script: string;
+  /** Company name, when Meroshare gives it */
+  companyName?: string;
+  /** Units held */
+  currentBalance: number;
+  /** Rs per unit */
+  previousClosingPrice?: number;
+  /** Rs, current balance × previous closing price */
+  previousCloseValue: number;
+  /** Last transaction price, Rs per unit */
+  ltp?: number;
+  /** Rs, current balance × LTP */
+  ltpValue: number;
+}
+
+// ── Summaries ────────────────────────────────────────────────────────────────
+
+function rupees(amount: number): string {
+  return `Rs ${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+}
+
+function totalLtpValue(holdings: Holding[]): number {
+  return holdings.reduce((sum, h) => sum + h.ltpValue, 0);
+}
+
+/** Summary line for one account, e.g. "4 script(s) worth Rs 1,23,450 at LTP" */
+export function describePortfolio(holdings: Holding[]): string {
+  if (holdings.length === 0) return 'No holdings';
+  return `${holdings.length} script(s) worth ${rupees(totalLtpValue(holdings))} at LTP`;
+}
+
+/** One line for the whole family, e.g. "Family portfolio: 6 script(s) across 3 account(s) worth Rs 2,50,000 at LTP" */
+export function summarizeFamilyPortfolio(holdings: Holding[]): string {
+  const scripts = new Set(holdings.map((h) => h.script)).size;
+  const accounts = new Set(holdings.map((h) => h.account)).size;
+  return `Family portfolio: ${scripts} script(s) across ${accounts} account(s) worth ${rupees(totalLtpValue(holdings))} at LTP`;
+}
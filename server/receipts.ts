@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDataDir } from './store';
+import { createZip, type ZipEntry } from './zip';
+import { toCsv } from './spreadsheet';
+import type { ApplyOutcome } from './apply-result';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** Evidence of one submitted application, whatever Meroshare answered */
+export interface Receipt {
+  account: string;
+  companyName: string;
+  appliedKitta: number;
+  /** Rs, when the price per unit was known */
+  amount?: number;
+  bank: string;
+  accountNumber: string;
+  outcome: ApplyOutcome;
+  /** Meroshare's answer to the apply request */
+  message: string;
+  /** When the application was submitted (ISO) */
+  submittedAt: string;
+  /** File name of the confirmation screenshot — browser engine only */
+  screenshot?: string;
+}
+
+// ── Files ────────────────────────────────────────────────────────────────────
+
+function jobReceiptsDir(jobId: string): string {
+  return path.join(getDataDir(), 'receipts', jobId);
+}
+
+function receiptsFile(jobId: string): string {
+  return path.join(jobReceiptsDir(jobId), 'receipts.jsonl');
+}
+
+function isJobId(jobId: string): boolean {
+  return /^[A-Za-z0-9-]+$/.test(jobId);
+}
+
+// ── Writers ──────────────────────────────────────────────────────────────────
+
+/** Store a receipt, and its confirmation screenshot if there is one, under the job */
+export function saveReceipt(jobId: string, details: Omit<Receipt, 'screenshot'>, screenshot?: Buffer): Receipt {
+  const dir = jobReceiptsDir(jobId);
+  fs.mkdirSync(dir, { recursive: true });
+
+  const receipt: Receipt = { ...details };
+  if (screenshot) {
+    const slug = details.account.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'account';
+    receipt.screenshot = `${slug}-${Date.parse(details.submittedAt)}.png`;
+    fs.writeFileSync(path.join(dir, receipt.screenshot), screenshot);
+  }
+  fs.appendFileSync(receiptsFile(jobId), JSON.stringify(receipt) + '\n');
+  return receipt;
+}
+
+// ── Readers ──────────────────────────────────────────────────────────────────
+
+export function listReceipts(jobId: string): Receipt[] {
+  if (!isJobId(jobId)) return [];
+  const file = receiptsFile(jobId);
+  if (!fs.existsSync(file)) return [];
+  const receipts: Receipt[] = [];
+  for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      receipts.push(JSON.parse(line));
+    } catch {
+      // A torn last line after a crash — skip it
+    }
+  }
+  return receipts;
+}
+
+/** One row per receipt, for spreadsheets */
+function receiptsCsv(receipts: Receipt[]): string {
+  const columns: (keyof Receipt)[] = [
+    'account', 'companyName', 'appliedKitta', 'amount', 'bank', 'accountNumber', 'outcome', 'message', 'submittedAt', 'screenshot',
+  ];
+  return toCsv(columns, receipts.map((r) => columns.map((c) => r[c])));
+}
+
+/**
+ * The job's receipts as a ZIP: receipts.json and receipts.csv with every
+ * receipt's details, plus each confirmation screenshot. Null if there are none.
+ */
+export function receiptsZip(jobId: string): Buffer | null {
+  const receipts = listReceipts(jobId);
+  if (receipts.length === 0) return null;
+
+  const entries: ZipEntry[] = [
+    { name: 'receipts.json', data: JSON.stringify(receipts, null, 2) },
+    { name: 'receipts.csv', data: receiptsCsv(receipts) },
+  ];
+  for (const receipt of receipts) {
+    if (!receipt.screenshot) continue;
+    const file = path.join(jobReceiptsDir(jobId), receipt.screenshot);
+    if (fs.existsSync(file)) {
+      entries.push({ name: `screenshots/${receipt.screenshot}`, data: fs.readFileSync(file), modifiedAt: new Date(receipt.submittedAt) });
+    }
+  }
+  return createZip(entries);
+}
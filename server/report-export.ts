@@ -0,0 +1,76 @@
+import { toCsv, createXlsx, type Cell } from './spreadsheet';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** One Application Report entry with the details its page shows */
+export interface ReportRecord {
+  account: string;
+  companyName: string;
+  /** Left out by the browser engine, whose list doesn't show it */
+  scrip?: string;
+  shareType: string;
+  subGroup?: string;
+  appliedDate?: string;
+  appliedKitta?: number;
+  /** Rs */
+  amount?: number;
+  status: string;
+  remarks?: string;
+  /** Once the result is published */
+  receivedKitta?: number;
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface ExportFile {
+  data: Buffer | string;
+  contentType: string;
+  extension: ExportFormat;
+}
+
+// ── Formats ──────────────────────────────────────────────────────────────────
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+/** Resolve a request's `format`; csv when left out, null if it names an unknown one */
+export function resolveExportFormat(value: unknown): ExportFormat | null {
+  if (value === undefined || value === '') return 'csv';
+  return EXPORT_FORMATS.find((f) => f === value) ?? null;
+}
+
+export function listExportFormats(): ExportFormat[] {
+  return [...EXPORT_FORMATS];
+}
+
+/** Spreadsheet columns, in order, with their headings */
+const COLUMNS: [keyof ReportRecord, string][] = [
+  ['account', 'Account'],
+  ['companyName', 'Company'],
+  ['scrip', 'Scrip'],
+  ['shareType', 'Share Type'],
+  ['subGroup', 'Sub Group'],
+  ['appliedDate', 'Applied Date'],
+  ['appliedKitta', 'Applied Kitta'],
+  ['amount', 'Amount'],
+  ['status', 'Status'],
+  ['remarks', 'Remarks'],
+  ['receivedKitta', 'Received Kitta'],
+];
+
+/** The records as a file in the requested format */
+export function renderReportExport(records: ReportRecord[], format: ExportFormat): ExportFile {
+  const headings = COLUMNS.map(([, heading]) => heading);
+  const rows: Cell[][] = records.map((r) => COLUMNS.map(([key]) => r[key]));
+  switch (format) {
+    case 'csv':
+      return { data: toCsv(headings, rows), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+    case 'xlsx':
+      return {
+        data: createXlsx('Application Report', headings, rows),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        extension: 'xlsx',
+      };
+    case 'json':
+      return { data: JSON.stringify(records, null, 2), contentType: 'application/json', extension: 'json' };
+  }
+}
@@ -0,0 +1,151 @@
+import { MeroshareApiError } from './meroshare-api';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** Automation steps that are safe to repeat. Nothing at or after the final Apply is. */
+export type RetryStep = 'login' | 'navigate' | 'issueList' | 'applyForm' | 'allotment' | 'portfolio' | 'history';
+
+export interface RetryPolicy {
+  /** Tries in total, the first included — 1 turns retrying off */
+  maxAttempts: number;
+  /** Wait before the second try */
+  initialDelayMs: number;
+  /** Cap on the wait, however many tries have failed */
+  maxDelayMs: number;
+  /** Each wait is this many times the last */
+  factor: number;
+}
+
+export interface RetryOptions {
+  /** Told about each failed try that will be retried */
+  onRetry?: (message: string) => void;
+  /** Cuts the wait between tries short once the job is cancelled */
+  signal?: AbortSignal;
+  /** Runs after each wait, before the next try — e.g. to stop a cancelled job */
+  beforeRetry?: () => void;
+}
+
+// ── Errors ───────────────────────────────────────────────────────────────────
+
+/** A failure worth another try — the page or server was slow or briefly down, not wrong */
+export class TransientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransientError';
+  }
+}
+
+// ── Policies ─────────────────────────────────────────────────────────────────
+
+const DEFAULT_POLICIES: Record<RetryStep, RetryPolicy> = {
+  login: { maxAttempts: 3, initialDelayMs: 2000, maxDelayMs: 15000, factor: 2 },
+  navigate: { maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 8000, factor: 2 },
+  issueList: { maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 8000, factor: 2 },
+  applyForm: { maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 8000, factor: 2 },
+  allotment: { maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 8000, factor: 2 },
+  portfolio: { maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 8000, factor: 2 },
+  history: { maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 8000, factor: 2 },
+};
+
+const STEP_LABELS: Record<RetryStep, string> = {
+  login: 'Login',
+  navigate: 'Opening My ASBA',
+  issueList: 'Loading the issue list',
+  applyForm: 'Loading the apply form',
+  allotment: 'Checking the allotment result',
+  portfolio: 'Loading My Portfolio',
+  history: 'Loading the transaction history',
+};
+
+/** The policy for a step; RETRY_MAX_ATTEMPTS and RETRY_BASE_DELAY_MS apply to every step */
+export function getRetryPolicy(step: RetryStep): RetryPolicy {
+  const policy = { ...DEFAULT_POLICIES[step] };
+  const attempts = parseInt(process.env.RETRY_MAX_ATTEMPTS || '', 10);
+  if (Number.isFinite(attempts) && attempts >= 1) policy.maxAttempts = attempts;
+  const delay = parseInt(process.env.RETRY_BASE_DELAY_MS || '', 10);
+  if (Number.isFinite(delay) && delay >= 0) policy.initialDelayMs = delay;
+  return policy;
+}
+
+/** Wait before try `attempt + 1`, after `attempt` tries have failed */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  return Math.min(policy.initialDelayMs * policy.factor ** (attempt - 1), policy.maxDelayMs);
+}
+
+// ── Classification ───────────────────────────────────────────────────────────
+
+/** Network errors Node reports for a connection that dropped or never came up */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND',
+  'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+/** HTTP statuses that mean "try again later" rather than "no" */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Timeouts, 5xx/429 answers and dropped connections are retryable. Everything
+ * else — a wrong password, a rejected PIN, "already applied", a missing DP,
+ * a cancelled job — would fail the same way again, so it is not.
+ */
+export function isRetryable(err: unknown): boolean {
+  if (err instanceof TransientError) return true;
+  if (err instanceof MeroshareApiError) return isRetryableStatus(err.status);
+
+  const e = err as any;
+  // Playwright waits and fetch's AbortSignal.timeout() both throw a TimeoutError
+  if (e?.name === 'TimeoutError') return true;
+  const code = e?.cause?.code ?? e?.code;
+  if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) return true;
+  // Playwright navigation failures, e.g. "net::ERR_CONNECTION_RESET"
+  return typeof e?.message === 'string' && /net::ERR_(CONNECTION|TIMED_OUT|NETWORK|INTERNET)/.test(e.message);
+}
+
+/** An error for a non-2xx HTTP status the browser saw, retryable when the status is */
+export function httpStatusError(status: number, message: string): Error {
+  return isRetryableStatus(status) ? new TransientError(message) : new Error(message);
+}
+
+// ── Retrying ─────────────────────────────────────────────────────────────────
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Run `task`, trying again with exponential backoff while it fails with a
+ * retryable error. The last error is thrown once the step's attempts run out,
+ * and a non-retryable one straight away. `task` is told which try it is on.
+ */
+export async function withRetry<T>(
+  step: RetryStep,
+  task: (attempt: number) => Promise<T>,
+  { onRetry, signal, beforeRetry }: RetryOptions = {},
+): Promise<T> {
+  const policy = getRetryPolicy(step);
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (err: any) {
+      if (attempt >= policy.maxAttempts || !isRetryable(err)) throw err;
+      const delay = retryDelay(policy, attempt);
+      const reason = String(err?.message || err).split('\n')[0];
+      onRetry?.(
+        `↻ ${STEP_LABELS[step]} failed (${reason}) — retrying in ${Math.round(delay / 100) / 10}s ` +
+        `(attempt ${attempt + 1} of ${policy.maxAttempts})`,
+      );
+      await sleep(delay, signal);
+      beforeRetry?.();
+    }
+  }
+}
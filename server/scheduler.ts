@@ -0,0 +1,394 @@
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  loadAllCredentials, loadFileCredentials, isRetryableFailure,
+  type AutomationEvent, type AccountStatus, type AccountStatusType, type Credential,
+} from './automation';
+import { ENGINES, getDefaultEngine, type AutomationEngine } from './engines';
+import { enqueueJob, listJobs } from './jobs';
+import { getDataDir } from './store';
+import { parseCron, cronMatches, toZonedTime } from './cron';
+import { validateKitta, KittaValidationError } from './issues';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface Schedule {
+  id: string;
+  name: string;
+  /** Five-field cron expression, evaluated in Nepal time */
+  cron: string;
+  enabled: boolean;
+  /** Account used to log in and scan for open issues */
+  scanAccount: string;
+  createdAt: string;
+  lastRunAt: string | null;
+}
+
+/** Per-account auto-apply rule */
+export interface AccountRule {
+  enabled: boolean;
+  /** Share types to apply for, e.g. ["IPO"]; empty means any */
+  shareTypes: string[];
+  defaultKitta: number;
+  /** Skip issues where kitta × price would exceed this (Rs); null for no limit */
+  maxAmount: number | null;
+}
+
+export interface SchedulerSettings {
+  schedules: Schedule[];
+  rules: Record<string, AccountRule>;
+}
+
+type ScannedIssue = Extract<AutomationEvent, { type: 'issue' }>['data'];
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const SCHEDULE_TIMEZONE = 'Asia/Kathmandu';
+
+/** Weekdays at 10:00 Nepal time, Sunday to Friday */
+export const DEFAULT_CRON = '0 10 * * 0-5';
+
+/** Price assumed for max amount when the scan couldn't read one — IPO shares are issued at Rs 100 face value */
+const ASSUMED_PRICE_PER_UNIT = 100;
+
+/** Bulk apply statuses after which an account needs nothing more for the issue */
+const SETTLED_STATUSES: AccountStatusType[] = ['success', 'already_applied'];
+
+/**
+ * Whether a scheduled run is done with the account for this issue: it
+ * applied, or failed in a way the next run would only repeat (a refused PIN
+ * tried on every run could lock the TPIN).
+ */
+function isSettled(status: AccountStatus | undefined): boolean {
+  if (!status) return false;
+  return SETTLED_STATUSES.includes(status.status) || (status.status === 'error' && !isRetryableFailure(status));
+}
+
+// ── Persistence ──────────────────────────────────────────────────────────────
+
+function settingsFile(): string {
+  return path.join(getDataDir(), 'schedules.json');
+}
+
+function seenIssuesFile(): string {
+  return path.join(getDataDir(), 'seen-issues.json');
+}
+
+/** Issue key → accounts done with an issue that is still being tried for others */
+function settledAccountsFile(): string {
+  return path.join(getDataDir(), 'settled-accounts.json');
+}
+
+function readJSON<T>(file: string, fallback: T): T {
+  if (!fs.existsSync(file)) return fallback;
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function writeJSON(file: string, data: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(data, null, 2));
+}
+
+export function loadSchedulerSettings(): SchedulerSettings {
+  return readJSON<SchedulerSettings>(settingsFile(), { schedules: [], rules: {} });
+}
+
+function saveSchedulerSettings(settings: SchedulerSettings) {
+  writeJSON(settingsFile(), settings);
+}
+
+function issueKey(issue: ScannedIssue): string {
+  return `${issue.name}|${issue.shareType}|${issue.shareGroup}`.toLowerCase();
+}
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+/** Validate a schedule payload; returns an error message or null */
+export function validateSchedule(input: Partial<Schedule>): string | null {
+  if (!input.name || typeof input.name !== 'string' || !input.name.trim()) return 'Missing "name"';
+  if (!input.scanAccount || typeof input.scanAccount !== 'string') return 'Missing "scanAccount"';
+  if (typeof input.cron !== 'string') return 'Missing "cron"';
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') return '"enabled" must be true or false';
+  try {
+    parseCron(input.cron);
+  } catch (err: any) {
+    return err.message;
+  }
+  return null;
+}
+
+/** Validate a rules map; returns an error message or null */
+export function validateRules(rules: unknown): string | null {
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    return 'Rules must be an object keyed by account name';
+  }
+  for (const [account, rule] of Object.entries(rules as Record<string, any>)) {
+    if (!rule || typeof rule !== 'object') return `"${account}": rule must be an object`;
+    if (typeof rule.enabled !== 'boolean') return `"${account}": "enabled" must be true or false`;
+    if (!Array.isArray(rule.shareTypes) || rule.shareTypes.some((t: unknown) => typeof t !== 'string')) {
+      return `"${account}": "shareTypes" must be an array of strings`;
+    }
+    if (!Number.isInteger(rule.defaultKitta) || rule.defaultKitta < 1) {
+      return `"${account}": "defaultKitta" must be a positive whole number`;
+    }
+    if (rule.maxAmount !== null && (typeof rule.maxAmount !== 'number' || rule.maxAmount <= 0)) {
+      return `"${account}": "maxAmount" must be a positive number or null`;
+    }
+  }
+  return null;
+}
+
+// ── CRUD ─────────────────────────────────────────────────────────────────────
+
+export function createSchedule(input: Pick<Schedule, 'name' | 'cron' | 'scanAccount'> & { enabled?: boolean }): Schedule {
+  const settings = loadSchedulerSettings();
+  const schedule: Schedule = {
+    id: crypto.randomUUID(),
+    name: input.name.trim(),
+    cron: input.cron.trim(),
+    enabled: input.enabled ?? true,
+    scanAccount: input.scanAccount,
+    createdAt: new Date().toISOString(),
+    lastRunAt: null,
+  };
+  settings.schedules.push(schedule);
+  saveSchedulerSettings(settings);
+  return schedule;
+}
+
+export function updateSchedule(id: string, changes: Partial<Schedule>): Schedule | null {
+  const settings = loadSchedulerSettings();
+  const schedule = settings.schedules.find((s) => s.id === id);
+  if (!schedule) return null;
+
+  if (changes.name !== undefined) schedule.name = changes.name.trim();
+  if (changes.cron !== undefined) schedule.cron = changes.cron.trim();
+  if (changes.scanAccount !== undefined) schedule.scanAccount = changes.scanAccount;
+  if (changes.enabled !== undefined) schedule.enabled = changes.enabled;
+
+  saveSchedulerSettings(settings);
+  return schedule;
+}
+
+export function deleteSchedule(id: string): boolean {
+  const settings = loadSchedulerSettings();
+  const before = settings.schedules.length;
+  settings.schedules = settings.schedules.filter((s) => s.id !== id);
+  if (settings.schedules.length === before) return false;
+  saveSchedulerSettings(settings);
+  return true;
+}
+
+export function saveRules(rules: Record<string, AccountRule>) {
+  const settings = loadSchedulerSettings();
+  settings.rules = rules;
+  saveSchedulerSettings(settings);
+}
+
+// ── Auto-apply ───────────────────────────────────────────────────────────────
+
+/** Issues not seen on a previous run */
+export function findNewIssues(issues: ScannedIssue[], seen: ReadonlySet<string>): ScannedIssue[] {
+  return issues.filter((issue) => !seen.has(issueKey(issue)));
+}
+
+/** Why the rule doesn't apply for the issue, or null if it does */
+export function ruleAllows(rule: AccountRule, issue: ScannedIssue): string | null {
+  if (rule.shareTypes.length > 0 && !rule.shareTypes.some((t) => t.toLowerCase() === issue.shareType.toLowerCase())) {
+    return `share type ${issue.shareType} not in [${rule.shareTypes.join(', ')}]`;
+  }
+  try {
+    validateKitta(String(rule.defaultKitta), issue);
+  } catch (err) {
+    if (err instanceof KittaValidationError) return err.message;
+    throw err;
+  }
+  const amount = rule.defaultKitta * (issue.pricePerUnit ?? ASSUMED_PRICE_PER_UNIT);
+  if (rule.maxAmount !== null && amount > rule.maxAmount) {
+    return `Rs ${amount} exceeds max amount Rs ${rule.maxAmount}`;
+  }
+  return null;
+}
+
+/**
+ * Scan with the schedule's account, then bulk-apply for every issue not seen
+ * on a previous run, for each account whose rule allows it. Whether an
+ * account already applied is up to its own bulk apply status, not the scan
+ * account's Apply button. An issue is only marked seen once every account
+ * is settled or was skipped by its rule; otherwise the next run tries again,
+ * for only the accounts that aren't settled yet.
+ */
+export async function runAutoApply(
+  schedule: Schedule,
+  engine: AutomationEngine,
+  emit: (event: AutomationEvent) => void,
+  signal: AbortSignal,
+  jobId: string,
+): Promise<void> {
+  const creds = loadAllCredentials();
+  const scanCred = creds[schedule.scanAccount];
+  if (!scanCred) {
+    emit({ type: 'error', message: `Scan account "${schedule.scanAccount}" not found` });
+    return;
+  }
+
+  // ── Scan ─────────────────────────────────────────────────────────────
+  const issues: ScannedIssue[] = [];
+  let scanFailed = false;
+  let cancelled = false;
+  await ENGINES[engine].scan(schedule.scanAccount, scanCred, (event) => {
+    if (event.type === 'issue') issues.push(event.data);
+    if (event.type === 'error') scanFailed = true;
+    if (event.type === 'cancelled') cancelled = true;
+    if (event.type !== 'done') emit(event);
+  }, { signal });
+  if (scanFailed || cancelled) return;
+
+  // ── Diff against previously seen issues ──────────────────────────────
+  const seen = new Set(readJSON<string[]>(seenIssuesFile(), []));
+  const settledAccounts = readJSON<Record<string, string[]>>(settledAccountsFile(), {});
+  const newIssues = findNewIssues(issues, seen);
+  emit({ type: 'log', message: `${newIssues.length} new issue(s) since the last scheduled run` });
+
+  const { rules } = loadSchedulerSettings();
+  // Credentials synced from the browser never include a TPIN — fall back to the file
+  const fileCreds = loadFileCredentials() ?? {};
+
+  for (const issue of newIssues) {
+    if (signal.aborted) {
+      emit({ type: 'cancelled', message: 'Scheduled run cancelled by user' });
+      return;
+    }
+
+    // Group eligible accounts by kitta so each group is one bulk apply
+    const settledBefore = settledAccounts[issueKey(issue)] ?? [];
+    const byKitta = new Map<number, { name: string; cred: Credential }[]>();
+    for (const [account, rule] of Object.entries(rules)) {
+      if (!rule.enabled || settledBefore.includes(account)) continue;
+      const cred = creds[account];
+      if (!cred) {
+        emit({ type: 'log', message: `Rule for "${account}" skipped — account not found` });
+        continue;
+      }
+      const tpin = cred.TPIN || fileCreds[account]?.TPIN;
+      if (!tpin) {
+        emit({ type: 'log', message: `Rule for "${account}" skipped — no TPIN saved for this account` });
+        continue;
+      }
+      const reason = ruleAllows(rule, issue);
+      if (reason) {
+        emit({ type: 'log', message: `"${issue.name}" skipped for "${account}": ${reason}` });
+        continue;
+      }
+      if (!byKitta.has(rule.defaultKitta)) byKitta.set(rule.defaultKitta, []);
+      byKitta.get(rule.defaultKitta)!.push({ name: account, cred: { ...cred, TPIN: tpin } });
+    }
+
+    if (byKitta.size === 0 && settledBefore.length === 0) {
+      emit({ type: 'log', message: `No account rules match "${issue.name}" (${issue.shareType})` });
+    }
+
+    const statuses: Record<string, AccountStatus> = {};
+    for (const [kitta, entries] of byKitta) {
+      const accountPINs = Object.fromEntries(entries.map(({ name, cred }) => [name, cred.TPIN!]));
+      await ENGINES[engine].bulkApply(entries, issue.id, issue.name, String(kitta), '', accountPINs, (event) => {
+        if (event.type === 'account_status') statuses[event.data.account] = event.data;
+        if (event.type === 'cancelled') cancelled = true;
+        if (event.type !== 'done') emit(event);
+      }, { signal, jobId });
+      if (cancelled) return;
+    }
+
+    const names = [...byKitta.values()].flat().map(({ name }) => name);
+    for (const name of names) {
+      if (statuses[name]?.status === 'error' && isSettled(statuses[name])) {
+        emit({ type: 'log', message: `"${issue.name}" won't be tried again for ${name}: ${statuses[name].message}` });
+      }
+    }
+    const unsettled = names.filter((name) => !isSettled(statuses[name]));
+    if (unsettled.length > 0) {
+      settledAccounts[issueKey(issue)] = [...settledBefore, ...names.filter((name) => isSettled(statuses[name]))];
+      writeJSON(settledAccountsFile(), settledAccounts);
+      emit({ type: 'log', message: `"${issue.name}" will be tried again on the next run for ${unsettled.join(', ')}` });
+      continue;
+    }
+
+    seen.add(issueKey(issue));
+    writeJSON(seenIssuesFile(), [...seen]);
+    if (settledAccounts[issueKey(issue)]) {
+      delete settledAccounts[issueKey(issue)];
+      writeJSON(settledAccountsFile(), settledAccounts);
+    }
+  }
+
+  writeJSON(seenIssuesFile(), [...seen]);
+  emit({ type: 'done' });
+}
+
+/** Queue a scheduled run now, unless one for this schedule is already waiting or running */
+export function triggerSchedule(schedule: Schedule): string | null {
+  const pending = listJobs().some(
+    (j) => j.type === 'auto-apply' && j.params.scheduleId === schedule.id && (j.status === 'queued' || j.status === 'running'),
+  );
+  if (pending) return null;
+
+  const settings = loadSchedulerSettings();
+  const stored = settings.schedules.find((s) => s.id === schedule.id);
+  if (stored) {
+    stored.lastRunAt = new Date().toISOString();
+    saveSchedulerSettings(settings);
+  }
+
+  const engine = getDefaultEngine();
+  const accounts = [schedule.scanAccount, ...Object.keys(settings.rules).filter((a) => settings.rules[a].enabled)];
+  const job = enqueueJob(
+    'auto-apply',
+    [...new Set(accounts)],
+    { scheduleId: schedule.id, scheduleName: schedule.name, engine },
+    (emit, signal, jobId) => runAutoApply(schedule, engine, emit, signal, jobId),
+  );
+  return job.id;
+}
+
+// ── Timer ────────────────────────────────────────────────────────────────────
+
+function tick(now: Date) {
+  let settings: SchedulerSettings;
+  try {
+    settings = loadSchedulerSettings();
+  } catch (err: any) {
+    console.error(`[Scheduler] Could not read schedules: ${err.message}`);
+    return;
+  }
+
+  const time = toZonedTime(now, SCHEDULE_TIMEZONE);
+  for (const schedule of settings.schedules) {
+    if (!schedule.enabled) continue;
+    try {
+      if (!cronMatches(parseCron(schedule.cron), time)) continue;
+    } catch (err: any) {
+      console.error(`[Scheduler] Schedule "${schedule.name}" has an invalid cron: ${err.message}`);
+      continue;
+    }
+    const jobId = triggerSchedule(schedule);
+    console.log(jobId
+      ? `[Scheduler] Started "${schedule.name}" (job ${jobId})`
+      : `[Scheduler] Skipped "${schedule.name}" — previous run still in progress`);
+  }
+}
+
+function scheduleNextTick() {
+  // Re-align to the minute boundary every time so the timer never drifts
+  const msToNextMinute = 60_000 - (Date.now() % 60_000);
+  setTimeout(() => {
+    tick(new Date());
+    scheduleNextTick();
+  }, msToNextMinute + 50);
+}
+
+/** Check schedules at the start of every minute */
+export function startScheduler() {
+  scheduleNextTick();
+  console.log(`[Scheduler] Started (timezone ${SCHEDULE_TIMEZONE})`);
+}
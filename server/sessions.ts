@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import type { BrowserContextOptions } from 'playwright';
+import type { Credential } from './automation';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+/**
+ * What a logged-in browser needs to skip the login page. Playwright's storage
+ * state has cookies and localStorage; Meroshare keeps its token in
+ * sessionStorage, so that is snapshotted separately.
+ */
+export interface BrowserSession {
+  storageState: StorageState;
+  sessionStorage: Record<string, string>;
+}
+
+interface SessionEntry {
+  browser?: BrowserSession;
+  apiToken?: string;
+  expiresAt: number;
+}
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+const DEFAULT_TTL_MINUTES = 10;
+
+/** How long a saved session is trusted without use. 0 turns caching off. */
+function getSessionTtlMs(): number {
+  const minutes = Number(process.env.SESSION_TTL_MINUTES);
+  return (Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_TTL_MINUTES) * 60 * 1000;
+}
+
+// ── Cache ────────────────────────────────────────────────────────────────────
+
+// In memory only — tokens never touch the disk
+const sessions = new Map<string, SessionEntry>();
+
+/**
+ * Accounts with the same DP and username share one Meroshare login. The
+ * password is part of the key (hashed), so a session saved before the
+ * credential changed is never handed to the new one.
+ */
+export function sessionKey(cred: Credential): string {
+  const passwordHash = createHash('sha256').update(cred.password).digest('hex');
+  return `${cred.DP_CODE}|${cred.username}|${passwordHash}`;
+}
+
+function liveEntry(cred: Credential): SessionEntry | null {
+  const key = sessionKey(cred);
+  const entry = sessions.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    sessions.delete(key);
+    return null;
+  }
+  return entry;
+}
+
+function saveEntry(cred: Credential, changes: Partial<SessionEntry>) {
+  const ttl = getSessionTtlMs();
+  if (ttl === 0) return;
+  const key = sessionKey(cred);
+  sessions.set(key, { ...sessions.get(key), ...changes, expiresAt: Date.now() + ttl });
+}
+
+export function getBrowserSession(cred: Credential): BrowserSession | null {
+  return liveEntry(cred)?.browser ?? null;
+}
+
+/** Save (or refresh the expiry of) a browser session after it was used successfully */
+export function saveBrowserSession(cred: Credential, browser: BrowserSession) {
+  saveEntry(cred, { browser });
+}
+
+export function getApiToken(cred: Credential): string | null {
+  return liveEntry(cred)?.apiToken ?? null;
+}
+
+/** Save (or refresh the expiry of) an API token after it was used successfully */
+export function saveApiToken(cred: Credential, apiToken: string) {
+  saveEntry(cred, { apiToken });
+}
+
+/** Forget everything saved for this login, e.g. after Meroshare rejected it */
+export function invalidateSession(cred: Credential) {
+  sessions.delete(sessionKey(cred));
+}
+
+export function clearSessions() {
+  sessions.clear();
+}
+
+export function getSessionCount(): number {
+  return sessions.size;
+}
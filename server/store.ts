@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AutomationEvent } from './automation';
+import type { Job, JobType } from './jobs';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface StoredEvent {
+  jobId: string;
+  seq: number;
+  at: string;
+  event: AutomationEvent;
+}
+
+export interface HistoryFilters {
+  account?: string;
+  company?: string;
+  type?: JobType;
+  /** Inclusive lower bound on the job's creation time (ISO date or datetime) */
+  from?: string;
+  /** Inclusive upper bound on the job's creation time (ISO date or datetime) */
+  to?: string;
+  limit?: number;
+}
+
+export type HistoryEntry = Job & { events: StoredEvent[] };
+
+// ── Files ────────────────────────────────────────────────────────────────────
+
+/**
+ * Directory for everything the server keeps on disk (DATA_DIR).
+ *
+ * Like every setting taken from the environment, it is read when needed
+ * rather than when the module loads: dotenv runs after the server's modules
+ * are imported, and tests point it elsewhere between runs.
+ */
+export function getDataDir(): string {
+  return path.resolve(process.env.DATA_DIR || path.resolve(__dirname, '..', 'data'));
+}
+
+function jobsFile(): string {
+  return path.join(getDataDir(), 'jobs.jsonl');
+}
+
+/** One file per job, so reading a job's events never means reading everyone's */
+function eventsFile(jobId: string): string {
+  return path.join(getDataDir(), 'events', `${jobId}.jsonl`);
+}
+
+function appendLine(file: string, record: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, JSON.stringify(record) + '\n');
+}
+
+function readLines<T>(file: string): T[] {
+  if (!fs.existsSync(file)) return [];
+  const records: T[] = [];
+  for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // A torn last line after a crash — skip it
+    }
+  }
+  return records;
+}
+
+// ── Writers ──────────────────────────────────────────────────────────────────
+
+/** Append a snapshot of the job; the latest snapshot per ID wins on read */
+export function recordJob(job: Job) {
+  appendLine(jobsFile(), job);
+}
+
+export function recordEvent(jobId: string, seq: number, event: AutomationEvent) {
+  const stored: StoredEvent = { jobId, seq, at: new Date().toISOString(), event };
+  appendLine(eventsFile(jobId), stored);
+}
+
+// ── Readers ──────────────────────────────────────────────────────────────────
+
+function loadJobs(): Map<string, Job> {
+  const jobs = new Map<string, Job>();
+  for (const job of readLines<Job>(jobsFile())) {
+    jobs.set(job.id, job);
+  }
+  return jobs;
+}
+
+function loadEvents(jobId: string): StoredEvent[] {
+  return readLines<StoredEvent>(eventsFile(jobId)).sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * Jobs that were queued or running when the server stopped can never finish.
+ * Record them as failed so history doesn't show them as still in progress.
+ */
+export function markInterruptedJobs(): number {
+  let count = 0;
+  for (const job of loadJobs().values()) {
+    if (job.status === 'queued' || job.status === 'running') {
+      recordJob({
+        ...job,
+        status: 'failed',
+        error: 'Interrupted by a server restart',
+        finishedAt: new Date().toISOString(),
+      });
+      count++;
+    }
+  }
+  return count;
+}
+
+/** Parse a date filter; a bare date (YYYY-MM-DD) covers the whole day */
+function parseBound(value: string, endOfDay: boolean): number {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return Date.parse(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}`);
+  }
+  return Date.parse(value);
+}
+
+function mentionsCompany(job: Job, events: StoredEvent[], company: string): boolean {
+  const needle = company.toLowerCase();
+  const companyName = job.params.companyName;
+  if (typeof companyName === 'string' && companyName.toLowerCase().includes(needle)) return true;
+
+  return events.some(({ event }) =>
+    (event.type === 'issue' || event.type === 'report') && event.data.name.toLowerCase().includes(needle),
+  );
+}
+
+/**
+ * Past and current jobs with their ordered events, newest first. Jobs are
+ * filtered on their snapshot first; events are read only for the jobs that
+ * are left, newest first, until `limit` of them have matched.
+ */
+export function queryHistory(filters: HistoryFilters = {}): HistoryEntry[] {
+  const from = filters.from ? parseBound(filters.from, false) : null;
+  const to = filters.to ? parseBound(filters.to, true) : null;
+  const account = filters.account?.toLowerCase();
+  const limit = filters.limit ?? 50;
+
+  const candidates = [...loadJobs().values()].filter((job) => {
+    if (filters.type && job.type !== filters.type) return false;
+    if (account && !job.accounts.some((a) => a.toLowerCase() === account)) return false;
+
+    const created = Date.parse(job.createdAt);
+    if (from !== null && created < from) return false;
+    if (to !== null && created > to) return false;
+    return true;
+  });
+  candidates.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const matches: HistoryEntry[] = [];
+  for (const job of candidates) {
+    if (matches.length >= limit) break;
+    const events = loadEvents(job.id);
+    if (filters.company && !mentionsCompany(job, events, filters.company)) continue;
+    matches.push({ ...job, events });
+  }
+  return matches;
+}
+
+// ── Rotation ─────────────────────────────────────────────────────────────────
+
+const DEFAULT_RETENTION_DAYS = 90;
+
+/** Days a finished job stays in history; 0 keeps every job */
+function getRetentionDays(): number {
+  const days = Number(process.env.HISTORY_RETENTION_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Rewrite jobs.jsonl with only the latest snapshot of each job, leaving out
+ * finished jobs created more than HISTORY_RETENTION_DAYS ago and deleting
+ * their events, failure artifacts and receipts. Run at startup, before any
+ * job is queued. Returns how many jobs were removed.
+ */
+export function rotateHistory(now = Date.now()): number {
+  const jobs = loadJobs();
+  const days = getRetentionDays();
+  const cutoff = days > 0 ? now - days * 24 * 60 * 60 * 1000 : null;
+  const expired = [...jobs.values()].filter((job) =>
+    cutoff !== null && job.status !== 'queued' && job.status !== 'running' && Date.parse(job.createdAt) < cutoff,
+  );
+  for (const job of expired) jobs.delete(job.id);
+
+  for (const job of expired) {
+    fs.rmSync(eventsFile(job.id), { force: true });
+    // Kept by artifacts.ts and receipts.ts, one directory per job
+    fs.rmSync(path.join(getDataDir(), 'artifacts', job.id), { recursive: true, force: true });
+    fs.rmSync(path.join(getDataDir(), 'receipts', job.id), { recursive: true, force: true });
+  }
+  if (fs.existsSync(jobsFile())) {
+    const compacted = `${jobsFile()}.tmp`;
+    fs.writeFileSync(compacted, [...jobs.values()].map((job) => JSON.stringify(job) + '\n').join(''));
+    fs.renameSync(compacted, jobsFile());
+  }
+  return expired.length;
+}
@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDataDir } from './store';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** One line of My Transaction History */
+export interface Transaction {
+  script: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** Units in, 0 when none */
+  credit: number;
+  /** Units out, 0 when none */
+  debit: number;
+  balance?: number;
+  description: string;
+}
+
+/** How some units of a script were bought, from My Purchase Source */
+export interface PurchaseSource {
+  script: string;
+  date?: string;
+  quantity: number;
+  /** Rs per unit, when Meroshare has one */
+  rate?: number;
+  /** e.g. "IPO", "SECONDARY", "BONUS" */
+  source: string;
+}
+
+/** Everything imported for one account, as stored under DATA_DIR/transactions */
+export interface TransactionHistory {
+  account: string;
+  importedAt: string;
+  /** Oldest first */
+  transactions: Transaction[];
+  purchases: PurchaseSource[];
+}
+
+/** Weighted average cost of one script in one account */
+export interface ScriptWacc {
+  account: string;
+  script: string;
+  /** Units held according to the transaction history */
+  quantity: number;
+  /** Rs paid for the units with a known cost */
+  totalCost: number;
+  /** Rs per unit over the units with a known cost; left out when none have one */
+  averageCost?: number;
+  /** Units whose purchase price couldn't be found — they are left out of averageCost */
+  unpricedQuantity: number;
+}
+
+// ── Files ────────────────────────────────────────────────────────────────────
+
+function historyFile(account: string): string {
+  return path.join(getDataDir(), 'transactions', `${encodeURIComponent(account)}.json`);
+}
+
+/** Replace the account's stored history with a fresh import */
+export function saveTransactionHistory(history: TransactionHistory): void {
+  const file = historyFile(history.account);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(history, null, 2));
+}
+
+/** The account's last import, or null if it was never imported */
+export function loadTransactionHistory(account: string): TransactionHistory | null {
+  const file = historyFile(account);
+  if (!fs.existsSync(file)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+/** "1,200.000" → 1200; "-" and blanks → 0 */
+export function quantityOf(value: number | string | undefined): number {
+  const quantity = typeof value === 'number' ? value : Number((value ?? '').replace(/,/g, '').trim());
+  return Number.isFinite(quantity) ? quantity : 0;
+}
+
+/** A rate that may be blank or "-" before Meroshare has one */
+export function rateOf(value: number | string | undefined): number | undefined {
+  if (value === undefined || value === '' || value === '-') return undefined;
+  const rate = typeof value === 'number' ? value : Number(value.replace(/,/g, '').trim());
+  return Number.isFinite(rate) ? rate : undefined;
+}
+
+/** Oldest first; on the same day units come in before they go out */
+export function sortTransactions(transactions: Transaction[]): Transaction[] {
+  return [...transactions].sort((a, b) => a.date.localeCompare(b.date) || (b.credit > 0 ? 1 : 0) - (a.credit > 0 ? 1 : 0));
+}
+
+// ── WACC ─────────────────────────────────────────────────────────────────────
+
+/** Most IPOs are issued at the Rs 100 face value; used when My Purchase Source has no rate */
+const DEFAULT_ISSUE_PRICE = 100;
+
+type CreditKind = 'ipo' | 'bonus' | 'other';
+
+/** What a credit was, from its history description, e.g. "CA-Bonus …" or "INITIAL PUBLIC OFFERING …" */
+function creditKind(description: string): CreditKind {
+  if (/bonus/i.test(description)) return 'bonus';
+  if (/initial public offering|\bipo\b/i.test(description)) return 'ipo';
+  return 'other';
+}
+
+/** The purchase record for a credit: same script and quantity, preferably the same day. Each is used once. */
+function takePurchase(purchases: PurchaseSource[], used: Set<PurchaseSource>, credit: Transaction): PurchaseSource | undefined {
+  const candidates = purchases.filter((p) => !used.has(p) && p.script === credit.script && p.quantity === credit.credit);
+  const match = candidates.find((p) => p.date === credit.date) ?? candidates[0];
+  if (match) used.add(match);
+  return match;
+}
+
+/**
+ * Weighted average cost of every script still held. Credits are priced from
+ * My Purchase Source; IPO allotments fall back to the issue price and bonus
+ * shares cost nothing. Units going out leave the average unchanged.
+ */
+export function calculateWacc(history: TransactionHistory): ScriptWacc[] {
+  const used = new Set<PurchaseSource>();
+  const byScript = new Map<string, { priced: number; unpriced: number; cost: number }>();
+
+  for (const t of sortTransactions(history.transactions)) {
+    const lot = byScript.get(t.script) ?? { priced: 0, unpriced: 0, cost: 0 };
+    byScript.set(t.script, lot);
+
+    if (t.credit > 0) {
+      const kind = creditKind(t.description);
+      const rate = kind === 'bonus' ? 0 : takePurchase(history.purchases, used, t)?.rate ?? (kind === 'ipo' ? DEFAULT_ISSUE_PRICE : undefined);
+      if (rate === undefined) {
+        lot.unpriced += t.credit;
+      } else {
+        lot.priced += t.credit;
+        lot.cost += t.credit * rate;
+      }
+    }
+    if (t.debit > 0) {
+      // Taken from priced and unpriced units in proportion, in whole units, at the average cost
+      const held = lot.priced + lot.unpriced;
+      const out = Math.min(t.debit, held);
+      const unpricedOut = held > 0
+        ? Math.min(lot.unpriced, Math.max(out - lot.priced, Math.round((out * lot.unpriced) / held)))
+        : 0;
+      const pricedOut = out - unpricedOut;
+      if (lot.priced > 0) lot.cost -= (lot.cost * pricedOut) / lot.priced;
+      lot.priced -= pricedOut;
+      lot.unpriced -= unpricedOut;
+    }
+  }
+
+  const result: ScriptWacc[] = [];
+  for (const [script, lot] of [...byScript].sort(([a], [b]) => a.localeCompare(b))) {
+    const quantity = lot.priced + lot.unpriced;
+    if (quantity <= 0) continue;
+    result.push({
+      account: history.account,
+      script,
+      quantity,
+      totalCost: Math.round(lot.cost * 100) / 100,
+      averageCost: lot.priced > 0 ? Math.round((lot.cost / lot.priced) * 100) / 100 : undefined,
+      unpricedQuantity: lot.unpriced,
+    });
+  }
+  return result;
+}
+
+/** Summary line for one account, e.g. "Imported 12 transaction(s) and 5 purchase record(s)" */
+export function describeImport(history: TransactionHistory, wacc: ScriptWacc[]): string {
+  const unpriced = wacc.filter((w) => w.unpricedQuantity > 0).length;
+  let line = `Imported ${history.transactions.length} transaction(s) and ${history.purchases.length} purchase record(s)`;
+  if (unpriced > 0) line += ` — ${unpriced} script(s) have units with no known cost`;
+  return line;
+}
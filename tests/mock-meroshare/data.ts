@@ -0,0 +1,439 @@
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface MockCapital {
+  id: number;
+  code: string;
+  name: string;
+}
+
+export interface MockBank {
+  id: number;
+  code: string;
+  name: string;
+}
+
+export interface MockBankAccount {
+  id: number;
+  accountNumber: string;
+  accountBranchId: number;
+  accountTypeId: number;
+  accountTypeName: string;
+  branchName: string;
+}
+
+export interface MockIssue {
+  companyShareId: number;
+  companyName: string;
+  scrip: string;
+  subGroup: string;
+  shareTypeName: string;
+  shareGroupName: string;
+  statusName: string;
+  issueOpenDate: string;
+  issueCloseDate: string;
+  pricePerUnit: number;
+  minUnit: number;
+  maxUnit: number;
+  multipleOf: number;
+  issueManager: string;
+  /** A reserved quota: only these usernames see the issue. Everyone when left out. */
+  eligibleUsers?: string[];
+}
+
+export interface MockApplication {
+  applicantFormId: number;
+  companyShareId: number;
+  companyName: string;
+  scrip: string;
+  shareTypeName: string;
+  subGroup: string;
+  appliedKitta: number;
+  amount: number;
+  appliedDate: string;
+  statusName: string;
+  meroshareRemark: string;
+  receivedKitta?: number;
+  /** The bank account the application was made from */
+  accountNumber?: string;
+}
+
+/** A script held in the account, as My Portfolio lists it */
+export interface MockHolding {
+  script: string;
+  scriptDesc: string;
+  currentBalance: number;
+  previousClosingPrice: number;
+  lastTransactionPrice: number;
+}
+
+/** One line of My Transaction History. Quantities are strings, "-" when there is none. */
+export interface MockTransaction {
+  scrip: string;
+  transactionDate: string;
+  creditQuantity: string;
+  debitQuantity: string;
+  balanceAfterTransaction: string;
+  historyDescription: string;
+}
+
+/** How some units of a script were bought, as My Purchase Source lists them */
+export interface MockPurchase {
+  scrip: string;
+  transactionDate: string;
+  transactionQuantity: number;
+  rate: number;
+  purchaseSource: string;
+}
+
+export interface MockUser {
+  clientId: number;
+  username: string;
+  password: string;
+  crn: string;
+  pin: string;
+  name: string;
+  demat: string;
+  boid: string;
+  clientCode: string;
+  banks: (MockBank & { accounts: MockBankAccount[] })[];
+  applications: MockApplication[];
+  holdings: MockHolding[];
+  /** Oldest first; the API answers newest first like Meroshare */
+  transactions: MockTransaction[];
+  purchases: MockPurchase[];
+}
+
+/**
+ * Faults the mock can inject:
+ * - wrong_password: auth answers 401 whatever the password
+ * - dp_missing: the user's DP is left out of the DP list
+ * - already_applied: every issue shows Edit, and applying answers 409
+ * - no_bank_accounts: the user has no bank linked
+ * - pin_rejected: applying answers 400 "Invalid transaction PIN."
+ * - insufficient_balance: applying answers 400 "Insufficient balance in the selected bank account."
+ * - issue_closed: applying answers 400 "The issue has already been closed."
+ * - report_lagging: the Application Report lists no applications, as if new ones hadn't shown up yet
+ * - flaky: login and the issue list answer 503 the first time each user calls them
+ * - flaky_records: My Portfolio, My Transaction History, My Purchase Source and the Application Report
+ *   answer 503 the first time each user calls them
+ * - slow: every response is delayed by `slowMs`
+ * - maintenance: every API call answers 503 and the web app shows a maintenance page
+ */
+export type MockScenario =
+  | 'wrong_password'
+  | 'dp_missing'
+  | 'already_applied'
+  | 'no_bank_accounts'
+  | 'pin_rejected'
+  | 'insufficient_balance'
+  | 'issue_closed'
+  | 'report_lagging'
+  | 'flaky'
+  | 'flaky_records'
+  | 'slow'
+  | 'maintenance';
+
+export const MOCK_SCENARIOS: MockScenario[] = [
+  'wrong_password', 'dp_missing', 'already_applied', 'no_bank_accounts', 'pin_rejected', 'insufficient_balance', 'issue_closed',
+  'report_lagging', 'flaky', 'flaky_records', 'slow', 'maintenance',
+];
+
+export interface MockState {
+  capitals: MockCapital[];
+  issues: MockIssue[];
+  users: MockUser[];
+  /** Authorization token → index into `users` */
+  sessions: Map<string, number>;
+  /** Successful logins so far — lets tests tell a reused session from a fresh one */
+  logins: number;
+  nextApplicantFormId: number;
+  /** Username → active scenarios. The "*" key applies to everyone. */
+  scenarios: Record<string, MockScenario[]>;
+  slowMs: number;
+  /** "username path" pairs the flaky scenarios have already failed once */
+  flakyFailed: Set<string>;
+}
+
+// ── Seed Data ────────────────────────────────────────────────────────────────
+
+/** Login details for the seeded users, in the shape of all_credentials.json */
+export const MOCK_CREDENTIALS = {
+  Ram: { DP_CODE: '10700', username: '00100001', password: 'ram-password', CRN: 'CRN-RAM-01', TPIN: '1234' },
+  Sita: { DP_CODE: '11700', username: '00200002', password: 'sita-password', CRN: 'CRN-SITA-02', TPIN: '5678' },
+  Hari: { DP_CODE: '10100', username: '00300003', password: 'hari-password', CRN: 'CRN-HARI-03', TPIN: '1111' },
+  Gita: { DP_CODE: '10400', username: '00400004', password: 'gita-password', CRN: 'CRN-GITA-04', TPIN: '2222' },
+  Shyam: { DP_CODE: '11000', username: '00500005', password: 'shyam-password', CRN: 'CRN-SHYAM-05', TPIN: '3333' },
+};
+
+/** Issues every seeded user can see, in display order */
+export const MOCK_ISSUES = {
+  hydro: 'HIMALAYAN HYDROPOWER LIMITED',
+  energy: 'NEPAL GREEN ENERGY LIMITED',
+  microfinance: 'SUNRISE MICROFINANCE LIMITED',
+};
+
+function seedCapitals(): MockCapital[] {
+  return [
+    { id: 128, code: '10700', name: 'LAXMI SUNRISE CAPITAL LIMITED' },
+    { id: 146, code: '11700', name: 'CITIZENS BANK INTERNATIONAL LIMITED' },
+    { id: 131, code: '10100', name: 'NABIL INVESTMENT BANKING LIMITED' },
+    { id: 135, code: '10400', name: 'NIC ASIA CAPITAL LIMITED' },
+    { id: 139, code: '11000', name: 'GLOBAL IME CAPITAL LIMITED' },
+    { id: 142, code: '11200', name: 'SIDDHARTHA CAPITAL LIMITED' },
+    { id: 150, code: '12300', name: 'SANIMA CAPITAL LIMITED' },
+    { id: 155, code: '13000', name: 'PRABHU CAPITAL LIMITED' },
+    { id: 158, code: '13200', name: 'KUMARI CAPITAL LIMITED' },
+    { id: 161, code: '13500', name: 'MACHHAPUCHCHHRE CAPITAL LIMITED' },
+    { id: 164, code: '13700', name: 'NMB CAPITAL LIMITED' },
+    { id: 167, code: '14000', name: 'SUNRISE CAPITAL LIMITED' },
+  ];
+}
+
+function seedIssues(): MockIssue[] {
+  return [
+    {
+      companyShareId: 701,
+      companyName: MOCK_ISSUES.hydro,
+      scrip: 'HHL',
+      subGroup: 'For General Public',
+      shareTypeName: 'IPO',
+      shareGroupName: 'Ordinary Shares',
+      statusName: 'CREATE_APPROVE',
+      issueOpenDate: 'Oct 14, 2026 10:00:00 AM',
+      issueCloseDate: 'Oct 28, 2026 5:00:00 PM',
+      pricePerUnit: 100,
+      minUnit: 10,
+      maxUnit: 5000,
+      multipleOf: 10,
+      issueManager: 'LAXMI SUNRISE CAPITAL LIMITED',
+    },
+    {
+      companyShareId: 702,
+      companyName: MOCK_ISSUES.energy,
+      scrip: 'NGEL',
+      subGroup: 'For General Public',
+      shareTypeName: 'FPO',
+      shareGroupName: 'Ordinary Shares',
+      statusName: 'CREATE_APPROVE',
+      issueOpenDate: 'Oct 12, 2026 10:00:00 AM',
+      issueCloseDate: 'Oct 26, 2026 5:00:00 PM',
+      pricePerUnit: 320,
+      minUnit: 10,
+      maxUnit: 2000,
+      multipleOf: 10,
+      issueManager: 'NABIL INVESTMENT BANKING LIMITED',
+    },
+    {
+      companyShareId: 703,
+      companyName: MOCK_ISSUES.microfinance,
+      scrip: 'SMFL',
+      subGroup: 'For Foreign Employment',
+      shareTypeName: 'IPO',
+      shareGroupName: 'Ordinary Shares',
+      statusName: 'CREATE_APPROVE',
+      issueOpenDate: 'Oct 16, 2026 10:00:00 AM',
+      issueCloseDate: 'Oct 30, 2026 5:00:00 PM',
+      pricePerUnit: 100,
+      minUnit: 10,
+      maxUnit: 1000,
+      multipleOf: 10,
+      issueManager: 'GLOBAL IME CAPITAL LIMITED',
+    },
+  ];
+}
+
+/** A user with one savings account and no past applications */
+function basicUser(
+  cred: { DP_CODE: string; username: string; password: string; CRN: string; TPIN: string },
+  clientId: number,
+  name: string,
+  bank: MockBank,
+  account: Omit<MockBankAccount, 'accountTypeId' | 'accountTypeName'>,
+): MockUser {
+  return {
+    clientId,
+    username: cred.username,
+    password: cred.password,
+    crn: cred.CRN,
+    pin: cred.TPIN,
+    name,
+    demat: `13010000${cred.username}`,
+    boid: cred.username,
+    clientCode: cred.DP_CODE,
+    banks: [{ ...bank, accounts: [{ ...account, accountTypeId: 1, accountTypeName: 'Saving Account' }] }],
+    applications: [],
+    holdings: [],
+    transactions: [],
+    purchases: [],
+  };
+}
+
+function seedUsers(): MockUser[] {
+  const { Ram, Sita, Hari, Gita, Shyam } = MOCK_CREDENTIALS;
+  return [
+    {
+      clientId: 128,
+      username: Ram.username,
+      password: Ram.password,
+      crn: Ram.CRN,
+      pin: Ram.TPIN,
+      name: 'RAM BAHADUR THAPA',
+      demat: '1301070000100001',
+      boid: '00100001',
+      clientCode: '10700',
+      banks: [
+        {
+          id: 37,
+          code: 'LSBL',
+          name: 'LAXMI SUNRISE BANK LIMITED',
+          accounts: [
+            { id: 5001, accountNumber: '04511000123', accountBranchId: 1101, accountTypeId: 1, accountTypeName: 'Saving Account', branchName: 'NEW ROAD' },
+          ],
+        },
+        {
+          id: 44,
+          code: 'NABIL',
+          name: 'NABIL BANK LIMITED',
+          accounts: [
+            { id: 5002, accountNumber: '00101017500123', accountBranchId: 4401, accountTypeId: 1, accountTypeName: 'Saving Account', branchName: 'TEKU' },
+            { id: 5003, accountNumber: '00101017500456', accountBranchId: 4402, accountTypeId: 1, accountTypeName: 'Saving Account', branchName: 'LAZIMPAT' },
+          ],
+        },
+      ],
+      applications: [
+        {
+          applicantFormId: 9001,
+          companyShareId: 690,
+          companyName: 'ANNAPURNA CEMENT LIMITED',
+          scrip: 'ACL',
+          shareTypeName: 'IPO',
+          subGroup: 'For General Public',
+          appliedKitta: 10,
+          amount: 1000,
+          appliedDate: '2026-09-02',
+          statusName: 'Alloted',
+          meroshareRemark: 'Alloted 10 kitta',
+          receivedKitta: 10,
+        },
+        {
+          applicantFormId: 9002,
+          companyShareId: 685,
+          companyName: 'MADHYA BHOTEKOSHI POWER LIMITED',
+          scrip: 'MBPL',
+          shareTypeName: 'IPO',
+          subGroup: 'For General Public',
+          appliedKitta: 10,
+          amount: 1000,
+          appliedDate: '2026-08-11',
+          statusName: 'Not Alloted',
+          meroshareRemark: 'Not Alloted',
+          receivedKitta: 0,
+        },
+      ],
+      holdings: [
+        { script: 'ACL', scriptDesc: 'ANNAPURNA CEMENT LIMITED', currentBalance: 10, previousClosingPrice: 412, lastTransactionPrice: 418.5 },
+        { script: 'NABIL', scriptDesc: 'NABIL BANK LIMITED', currentBalance: 150, previousClosingPrice: 505, lastTransactionPrice: 510 },
+      ],
+      // Bought 120 NABIL, sold 20, then got a bonus of 50; allotted 10 ACL in the IPO
+      transactions: [
+        {
+          scrip: 'NABIL', transactionDate: '2026-03-10', creditQuantity: '120', debitQuantity: '-',
+          balanceAfterTransaction: '120', historyDescription: 'ON-CR TD:1290034 TX:DR-00100001 1301020000001234 SET:1202026070',
+        },
+        {
+          scrip: 'NABIL', transactionDate: '2026-05-04', creditQuantity: '-', debitQuantity: '20',
+          balanceAfterTransaction: '100', historyDescription: 'ON-DR TD:1377210 TX:CR-00100001 1301020000005678 SET:1202026112',
+        },
+        {
+          scrip: 'NABIL', transactionDate: '2026-07-21', creditQuantity: '50', debitQuantity: '-',
+          balanceAfterTransaction: '150', historyDescription: 'CA-Bonus 00000037 B-50.00%-2025-26 CREDIT',
+        },
+        {
+          scrip: 'ACL', transactionDate: '2026-09-20', creditQuantity: '10', debitQuantity: '-',
+          balanceAfterTransaction: '10', historyDescription: 'INITIAL PUBLIC OFFERING 00000690 CREDIT',
+        },
+      ],
+      purchases: [
+        { scrip: 'NABIL', transactionDate: '2026-03-10', transactionQuantity: 120, rate: 600, purchaseSource: 'SECONDARY' },
+        { scrip: 'ACL', transactionDate: '2026-09-20', transactionQuantity: 10, rate: 100, purchaseSource: 'IPO' },
+      ],
+    },
+    {
+      clientId: 146,
+      username: Sita.username,
+      password: Sita.password,
+      crn: Sita.CRN,
+      pin: Sita.TPIN,
+      name: 'SITA KUMARI SHRESTHA',
+      demat: '1301170000200002',
+      boid: '00200002',
+      clientCode: '11700',
+      banks: [
+        {
+          id: 42,
+          code: 'CTZN',
+          name: 'CITIZENS BANK INTERNATIONAL LIMITED',
+          accounts: [
+            { id: 6001, accountNumber: '01700000456', accountBranchId: 1701, accountTypeId: 1, accountTypeName: 'Saving Account', branchName: 'KAMALADI' },
+          ],
+        },
+      ],
+      applications: [
+        {
+          applicantFormId: 9101,
+          companyShareId: 702,
+          companyName: MOCK_ISSUES.energy,
+          scrip: 'NGEL',
+          shareTypeName: 'FPO',
+          subGroup: 'For General Public',
+          appliedKitta: 20,
+          amount: 6400,
+          appliedDate: '2026-10-13',
+          statusName: 'Transaction Success',
+          meroshareRemark: 'Verified',
+        },
+      ],
+      holdings: [
+        { script: 'NABIL', scriptDesc: 'NABIL BANK LIMITED', currentBalance: 50, previousClosingPrice: 505, lastTransactionPrice: 510 },
+      ],
+      // Bought twice; the second purchase isn't in My Purchase Source yet
+      transactions: [
+        {
+          scrip: 'NABIL', transactionDate: '2026-04-02', creditQuantity: '30', debitQuantity: '-',
+          balanceAfterTransaction: '30', historyDescription: 'ON-CR TD:1318842 TX:DR-00200002 1301020000004321 SET:1202026091',
+        },
+        {
+          scrip: 'NABIL', transactionDate: '2026-10-08', creditQuantity: '20', debitQuantity: '-',
+          balanceAfterTransaction: '50', historyDescription: 'ON-CR TD:1502276 TX:DR-00200002 1301020000008765 SET:1202026201',
+        },
+      ],
+      purchases: [
+        { scrip: 'NABIL', transactionDate: '2026-04-02', transactionQuantity: 30, rate: 520, purchaseSource: 'SECONDARY' },
+      ],
+    },
+    basicUser(Hari, 131, 'HARI PRASAD ADHIKARI',
+      { id: 21, code: 'NABIL', name: 'NABIL BANK LIMITED' },
+      { id: 7001, accountNumber: '00101017500001', accountBranchId: 2101, branchName: 'TEKU' }),
+    basicUser(Gita, 135, 'GITA DEVI KARKI',
+      { id: 28, code: 'NICA', name: 'NIC ASIA BANK LIMITED' },
+      { id: 8001, accountNumber: '3201524478300', accountBranchId: 2801, branchName: 'THAMEL' }),
+    basicUser(Shyam, 139, 'SHYAM KRISHNA JOSHI',
+      { id: 33, code: 'GBIME', name: 'GLOBAL IME BANK LIMITED' },
+      { id: 9001, accountNumber: '1101010000777', accountBranchId: 3301, branchName: 'KAMALPOKHARI' }),
+  ];
+}
+
+/** Fresh copy of the seed data. Tests get their own so applications don't leak. */
+export function createMockState(): MockState {
+  return {
+    capitals: seedCapitals(),
+    issues: seedIssues(),
+    users: seedUsers(),
+    sessions: new Map(),
+    logins: 0,
+    nextApplicantFormId: 9500,
+    scenarios: {},
+    slowMs: 1500,
+    flakyFailed: new Set(),
+  };
+}
@@ -0,0 +1,479 @@
+// Mock Meroshare web app. Mirrors the DOM the automation scrapes — keep
+// selectors in sync with server/automation.ts rather than the real site.
+(function () {
+  'use strict';
+
+  var TOKEN_KEY = 'Authorization';
+  var app = document.getElementById('app');
+  var asbaTab = 'apply';
+  // The Application Report is paged, ten entries at a time
+  var REPORT_PAGE_SIZE = 10;
+  var reportPage = 1;
+
+  // ── Helpers ─────────────────────────────────────────────────────────────
+
+  function esc(value) {
+    return String(value == null ? '' : value).replace(/[&<>"']/g, function (c) {
+      return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+    });
+  }
+
+  function toast(type, message) {
+    var el = document.createElement('div');
+    el.className = 'toast toast-' + type;
+    el.textContent = message;
+    document.getElementById('toast-container').appendChild(el);
+    setTimeout(function () { el.remove(); }, 8000);
+  }
+
+  function api(method, endpoint, body) {
+    var headers = { 'Content-Type': 'application/json' };
+    var token = sessionStorage.getItem(TOKEN_KEY);
+    if (token) headers.Authorization = token;
+    // Like the real app, the portfolio and history live under meroShareView/
+    var url = endpoint.indexOf('meroShareView/') === 0 ? '/api/' + endpoint : '/api/meroShare/' + endpoint;
+    return fetch(url, {
+      method: method,
+      headers: headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }).then(function (res) {
+      return res.json().catch(function () { return {}; }).then(function (data) {
+        if (res.status === 503) renderMaintenance(data.message);
+        if (res.status === 401 && endpoint !== 'auth/') {
+          sessionStorage.removeItem(TOKEN_KEY);
+          location.hash = '#/login';
+        }
+        if (!res.ok) throw new Error(data.message || 'HTTP ' + res.status);
+        return { data: data, headers: res.headers };
+      });
+    });
+  }
+
+  function fail(err) {
+    toast('error', err.message);
+  }
+
+  function layout(content) {
+    app.innerHTML =
+      '<nav class="sidebar-nav">' +
+      '  <a href="#/dashboard">Dashboard</a>' +
+      '  <a href="#/asba">My ASBA</a>' +
+      '  <a href="#/portfolio">My Portfolio</a>' +
+      '  <a href="#/transaction">My Transaction History</a>' +
+      '  <a href="#/purchase">My Purchase Source</a>' +
+      '  <a href="#/login" id="logout">Logout</a>' +
+      '</nav>' +
+      '<main id="main">' + content + '</main>';
+    document.getElementById('logout').addEventListener('click', function () {
+      sessionStorage.removeItem(TOKEN_KEY);
+    });
+    return document.getElementById('main');
+  }
+
+  function companyHeader(item) {
+    return (
+      '<div class="company-name">' +
+      '  <span tooltip="Company Name">' + esc(item.companyName) + '</span>' +
+      '  <span tooltip="Sub Group">' + esc(item.subGroup) + '</span>' +
+      '  <span class="share-of-type">' + esc(item.shareTypeName) + '</span>' +
+      (item.shareGroupName ? '  <span class="isin">' + esc(item.shareGroupName) + '</span>' : '') +
+      '</div>'
+    );
+  }
+
+  // ── Login ───────────────────────────────────────────────────────────────
+
+  function renderLogin() {
+    app.innerHTML =
+      '<div class="login-page">' +
+      '  <h1>Login</h1>' +
+      '  <form id="login-form">' +
+      '    <label for="selectBranch">Depository Participant</label>' +
+      '    <select id="selectBranch" name="selectBranch"><option value="">Please choose one</option></select>' +
+      '    <label for="username">Username</label>' +
+      '    <input type="text" id="username" name="username" />' +
+      '    <label for="password">Password</label>' +
+      '    <input type="password" id="password" name="password" />' +
+      '    <button type="submit">Login</button>' +
+      '  </form>' +
+      '</div>';
+
+    var select = document.getElementById('selectBranch');
+    api('GET', 'capital/').then(function (res) {
+      res.data.forEach(function (dp) {
+        var option = document.createElement('option');
+        option.value = String(dp.id);
+        option.textContent = dp.name + ' (' + dp.code + ')';
+        select.appendChild(option);
+      });
+    }).catch(fail);
+
+    document.getElementById('login-form').addEventListener('submit', function (e) {
+      e.preventDefault();
+      api('POST', 'auth/', {
+        clientId: Number(select.value) || 0,
+        username: document.getElementById('username').value,
+        password: document.getElementById('password').value,
+      }).then(function (res) {
+        sessionStorage.setItem(TOKEN_KEY, res.headers.get('Authorization'));
+        location.hash = '#/dashboard';
+      }).catch(fail);
+    });
+  }
+
+  // ── Dashboard ───────────────────────────────────────────────────────────
+
+  function renderDashboard() {
+    var main = layout('<h1>Dashboard</h1><div id="own-detail"></div>');
+    api('GET', 'ownDetail/').then(function (res) {
+      main.querySelector('#own-detail').innerHTML =
+        '<p>Welcome, ' + esc(res.data.name) + '</p><p>BOID: ' + esc(res.data.demat) + '</p>';
+    }).catch(fail);
+  }
+
+  // ── My ASBA ─────────────────────────────────────────────────────────────
+
+  function renderAsba() {
+    var main = layout(
+      '<h1>My ASBA</h1>' +
+      '<ul class="page-title-action-tab">' +
+      '  <li class="nav-item"><a class="nav-link' + (asbaTab === 'apply' ? ' active' : '') + '" data-tab="apply">Apply for Issue</a></li>' +
+      '  <li class="nav-item"><a class="nav-link' + (asbaTab === 'report' ? ' active' : '') + '" data-tab="report">Application Report</a></li>' +
+      '</ul>' +
+      '<div id="asba-list"></div>'
+    );
+
+    main.querySelectorAll('.page-title-action-tab .nav-link').forEach(function (link) {
+      link.addEventListener('click', function () {
+        asbaTab = link.getAttribute('data-tab');
+        reportPage = 1;
+        renderAsba();
+      });
+    });
+
+    var list = main.querySelector('#asba-list');
+    if (asbaTab === 'apply') {
+      api('POST', 'companyShare/applicableIssue/', { page: 1, size: 200 }).then(function (res) {
+        list.innerHTML = res.data.object.map(function (issue) {
+          var button = issue.action === 'edit'
+            ? '<button type="button" class="btn-edit">Edit</button>'
+            : issue.action ? '' : '<button type="button" class="btn-apply" data-id="' + issue.companyShareId + '">Apply</button>';
+          return '<div class="company-list">' + companyHeader(issue) + '<div class="action-buttons">' + button + '</div></div>';
+        }).join('');
+        list.querySelectorAll('.btn-apply').forEach(function (btn) {
+          btn.addEventListener('click', function () {
+            location.hash = '#/asba/apply/' + btn.getAttribute('data-id');
+          });
+        });
+      }).catch(fail);
+    } else {
+      api('POST', 'applicantForm/active/search/', { page: reportPage, size: REPORT_PAGE_SIZE }).then(function (res) {
+        list.innerHTML = res.data.object.map(function (report) {
+          return (
+            '<div class="company-list">' + companyHeader(report) +
+            '<div class="action-buttons"><button type="button" class="btn-report" data-id="' + report.applicantFormId + '">Report</button></div>' +
+            '</div>'
+          );
+        }).join('') + pagination(Math.ceil(res.data.totalCount / REPORT_PAGE_SIZE));
+        list.querySelectorAll('.btn-report').forEach(function (btn) {
+          btn.addEventListener('click', function () {
+            location.hash = '#/asba/report/' + btn.getAttribute('data-id');
+          });
+        });
+        list.querySelectorAll('.pagination .page-item:not(.disabled) a').forEach(function (link) {
+          link.addEventListener('click', function () {
+            reportPage = Number(link.getAttribute('data-page'));
+            renderAsba();
+          });
+        });
+      }).catch(fail);
+    }
+  }
+
+  /** ngb-pagination's markup: «, the page numbers, » */
+  function pagination(pages) {
+    if (pages <= 1) return '';
+    var item = function (page, label, extra, className) {
+      return '<li class="page-item' + (className ? ' ' + className : '') + '">' +
+        '<a class="page-link" data-page="' + page + '"' + extra + '>' + label + '</a></li>';
+    };
+    var items = [item(reportPage - 1, '«', ' aria-label="Previous"', reportPage === 1 ? 'disabled' : '')];
+    for (var p = 1; p <= pages; p++) items.push(item(p, String(p), '', p === reportPage ? 'active' : ''));
+    items.push(item(reportPage + 1, '»', ' aria-label="Next"', reportPage === pages ? 'disabled' : ''));
+    return '<ul class="pagination">' + items.join('') + '</ul>';
+  }
+
+  // ── My Portfolio ────────────────────────────────────────────────────────
+
+  function renderPortfolio() {
+    var main = layout(
+      '<h1>My Portfolio</h1>' +
+      '<table class="table" id="portfolio">' +
+      '  <thead><tr><th>#</th><th>Scrip</th><th>Current Balance</th><th>Previous Closing Price</th>' +
+      '  <th>Value as of Previous Closing Price</th><th>Last Transaction Price (LTP)</th><th>Value as of LTP</th></tr></thead>' +
+      '  <tbody></tbody>' +
+      '</table>'
+    );
+    api('GET', 'ownDetail/').then(function (own) {
+      return api('POST', 'meroShareView/myPortfolio/', {
+        sortBy: 'script', demat: [own.data.demat], clientCode: own.data.clientCode, page: 1, size: 200, sortAsc: true,
+      });
+    }).then(function (res) {
+      var d = res.data;
+      var body = main.querySelector('#portfolio tbody');
+      if (d.meroShareMyPortfolio.length === 0) {
+        body.innerHTML = '<tr><td colspan="7">No Record(s) Found</td></tr>';
+        return;
+      }
+      body.innerHTML = d.meroShareMyPortfolio.map(function (h, i) {
+        return '<tr><td>' + (i + 1) + '</td><td>' + esc(h.script) + '</td><td>' + esc(h.currentBalance) + '</td>' +
+          '<td>' + esc(h.previousClosingPrice) + '</td><td>' + esc(h.valueOfPrevClosingPrice.toLocaleString('en-IN')) + '</td>' +
+          '<td>' + esc(h.lastTransactionPrice) + '</td><td>' + esc(h.valueOfLastTransPrice.toLocaleString('en-IN')) + '</td></tr>';
+      }).join('') +
+        '<tr><td colspan="4">Total :</td><td>' + esc(d.totalValueOfPrevClosingPrice.toLocaleString('en-IN')) + '</td>' +
+        '<td></td><td>' + esc(d.totalValueOfLastTransPrice.toLocaleString('en-IN')) + '</td></tr>';
+    }).catch(fail);
+  }
+
+  // ── My Transaction History ──────────────────────────────────────────────
+
+  function renderTransactions() {
+    var main = layout(
+      '<h1>My Transaction History</h1>' +
+      '<table class="table" id="transactions">' +
+      '  <thead><tr><th>#</th><th>Scrip</th><th>Transaction Date</th><th>Credit Quantity</th><th>Debit Quantity</th>' +
+      '  <th>Balance After Transaction</th><th>History Description</th></tr></thead>' +
+      '  <tbody></tbody>' +
+      '</table>'
+    );
+    api('GET', 'ownDetail/').then(function (own) {
+      return api('POST', 'meroShareView/myTransaction/', {
+        boid: own.data.demat, clientCode: own.data.clientCode, script: null, requestTypeScript: false, page: 1, size: 200,
+      });
+    }).then(function (res) {
+      var body = main.querySelector('#transactions tbody');
+      if (res.data.transactionView.length === 0) {
+        body.innerHTML = '<tr><td colspan="7">No Record(s) Found</td></tr>';
+        return;
+      }
+      body.innerHTML = res.data.transactionView.map(function (t, i) {
+        return '<tr><td>' + (i + 1) + '</td><td>' + esc(t.scrip) + '</td><td>' + esc(t.transactionDate) + '</td>' +
+          '<td>' + esc(t.creditQuantity) + '</td><td>' + esc(t.debitQuantity) + '</td>' +
+          '<td>' + esc(t.balanceAfterTransaction) + '</td><td>' + esc(t.historyDescription) + '</td></tr>';
+      }).join('');
+    }).catch(fail);
+  }
+
+  // ── My Purchase Source ──────────────────────────────────────────────────
+
+  function renderPurchaseSource() {
+    var main = layout(
+      '<h1>My Purchase Source</h1>' +
+      '<form id="purchase-search">' +
+      '  <label for="scrip">Scrip</label><input id="scrip" name="scrip">' +
+      '  <button type="submit" class="btn btn-primary">Search</button>' +
+      '</form>' +
+      '<table class="table" id="purchases">' +
+      '  <thead><tr><th>#</th><th>Scrip</th><th>Transaction Date</th><th>Quantity</th><th>Rate</th><th>Purchase Source</th></tr></thead>' +
+      '  <tbody></tbody>' +
+      '</table>'
+    );
+    var own = api('GET', 'ownDetail/');
+    main.querySelector('#purchase-search').addEventListener('submit', function (e) {
+      e.preventDefault();
+      var scrip = main.querySelector('#scrip').value.trim().toUpperCase();
+      own.then(function (res) {
+        return api('POST', 'meroShareView/myPurchase/search/', { demat: res.data.demat, scrip: scrip });
+      }).then(function (res) {
+        var body = main.querySelector('#purchases tbody');
+        if (res.data.length === 0) {
+          body.innerHTML = '<tr><td colspan="6">No Record(s) Found</td></tr>';
+          return;
+        }
+        body.innerHTML = res.data.map(function (p, i) {
+          return '<tr><td>' + (i + 1) + '</td><td>' + esc(p.scrip) + '</td><td>' + esc(p.transactionDate) + '</td>' +
+            '<td>' + esc(p.transactionQuantity) + '</td><td>' + esc(p.rate) + '</td><td>' + esc(p.purchaseSource) + '</td></tr>';
+        }).join('');
+      }).catch(fail);
+    });
+  }
+
+  // ── Application Report detail ───────────────────────────────────────────
+
+  function renderReportDetail(applicantFormId) {
+    var main = layout('<h1>Application Report</h1><div id="report-detail"></div>');
+    api('GET', 'applicantForm/report/detail/' + applicantFormId).then(function (res) {
+      var d = res.data;
+      var rows = [
+        ['Company', d.companyName],
+        ['Applied Kitta', d.appliedKitta],
+        ['Amount', d.amount],
+        ['Applied Date', d.appliedDate],
+        ['Status', d.statusName],
+        ['Remarks', d.meroshareRemark],
+      ];
+      if (d.receivedKitta !== undefined) rows.push(['Received Kitta', d.receivedKitta]);
+      main.querySelector('#report-detail').innerHTML = rows.map(function (row) {
+        return '<div class="detail-row"><div class="detail-label">' + esc(row[0]) + '</div><div class="detail-value">' + esc(row[1]) + '</div></div>';
+      }).join('');
+    }).catch(fail);
+  }
+
+  // ── Apply form ──────────────────────────────────────────────────────────
+
+  function renderApplyForm(companyShareId) {
+    var main = layout('<div id="apply-form">Loading...</div>');
+    var form = main.querySelector('#apply-form');
+
+    Promise.all([
+      api('GET', 'active/' + companyShareId),
+      api('GET', 'bank/'),
+    ]).then(function (results) {
+      var issue = results[0].data;
+      var banks = results[1].data;
+
+      var accounts = [];
+      var pricePerUnit = issue.sharePerUnit;
+      var details = [
+        ['Issue Manager', issue.clientName],
+        ['Issue Open Date', issue.issueOpenDate],
+        ['Issue Close Date', issue.issueCloseDate],
+        ['Price Per Unit', 'Rs. ' + issue.sharePerUnit],
+        ['Minimum Unit', issue.minUnit],
+        ['Maximum Unit', issue.maxUnit],
+        ['Multiple Of', issue.multipleOf],
+      ];
+
+      form.innerHTML =
+        '<h2 class="company-title">' + esc(issue.companyName) + ' (' + esc(issue.scrip) + ')</h2>' +
+        '<div class="issue-details">' + details.map(function (row) {
+          return '<div class="detail-row"><div class="detail-label">' + esc(row[0]) + '</div><div class="detail-value">' + esc(row[1]) + '</div></div>';
+        }).join('') + '</div>' +
+        '<div class="form-group"><label for="selectBank">Bank</label>' +
+        '  <select id="selectBank"><option value="">Please choose one</option>' +
+        banks.map(function (b) { return '<option value="' + b.id + '">' + esc(b.name) + '</option>'; }).join('') +
+        '  </select></div>' +
+        '<div class="form-group" id="account-group"></div>' +
+        '<div class="form-group"><label for="selectBranch">Branch</label><input type="text" id="selectBranch" readonly /></div>' +
+        '<div class="form-group"><label for="appliedKitta">Applied Kitta</label><input type="number" id="appliedKitta" formcontrolname="appliedKitta" /></div>' +
+        '<div class="form-group"><label for="amount">Amount</label><input type="text" id="amount" formcontrolname="amount" readonly /></div>' +
+        '<div class="form-group"><label for="crnNumber">CRN</label><input type="text" id="crnNumber" formcontrolname="crnNumber" /></div>' +
+        '<div class="form-group"><input type="checkbox" id="disclaimer" /> <span>I hereby declare that the information above is correct</span></div>' +
+        '<button type="button" id="proceed">Proceed</button>';
+
+      var bankSelect = form.querySelector('#selectBank');
+      bankSelect.addEventListener('change', function () {
+        var group = form.querySelector('#account-group');
+        group.innerHTML = '';
+        if (!bankSelect.value) return;
+        api('GET', 'bank/' + bankSelect.value).then(function (res) {
+          accounts = res.data;
+          group.innerHTML =
+            '<label for="accountNumber">Account Number</label>' +
+            '<select id="accountNumber"><option value="">Please choose one</option>' +
+            accounts.map(function (a, i) { return '<option value="' + i + '">' + esc(a.accountNumber) + '</option>'; }).join('') +
+            '</select>';
+          group.querySelector('#accountNumber').addEventListener('change', function (e) {
+            var account = accounts[Number(e.target.value)];
+            form.querySelector('#selectBranch').value = account ? account.branchName : '';
+          });
+        }).catch(fail);
+      });
+
+      var kittaInput = form.querySelector('#appliedKitta');
+      kittaInput.addEventListener('input', function () {
+        var kitta = Number(kittaInput.value);
+        form.querySelector('#amount').value = kitta > 0 ? String(kitta * pricePerUnit) : '';
+      });
+
+      form.querySelector('#proceed').addEventListener('click', function () {
+        var accountSelect = form.querySelector('#accountNumber');
+        var account = accountSelect ? accounts[Number(accountSelect.value)] : null;
+        var crn = form.querySelector('#crnNumber').value;
+        if (!bankSelect.value || !accountSelect || accountSelect.value === '' || !account) return toast('error', 'Please select a bank account.');
+        if (!kittaInput.value) return toast('error', 'Please enter applied kitta.');
+        if (!crn) return toast('error', 'Please enter CRN.');
+        if (!form.querySelector('#disclaimer').checked) return toast('error', 'Please accept the declaration.');
+
+        renderPinStep(form, {
+          companyShareId: issue.companyShareId,
+          bankId: Number(bankSelect.value),
+          account: account,
+          appliedKitta: kittaInput.value,
+          crnNumber: crn,
+        });
+      });
+    }).catch(function (err) {
+      form.textContent = err.message;
+      fail(err);
+    });
+  }
+
+  function renderPinStep(form, application) {
+    form.innerHTML =
+      '<p>Please enter your 4 digits transaction PIN</p>' +
+      '<div class="form-group"><label for="transactionPIN">Transaction PIN</label><input type="password" id="transactionPIN" maxlength="4" /></div>' +
+      '<button type="button" id="submit-apply">Apply</button>';
+
+    form.querySelector('#submit-apply').addEventListener('click', function () {
+      api('GET', 'ownDetail/').then(function (own) {
+        return api('POST', 'applicantForm/share/apply', {
+          demat: own.data.demat,
+          boid: own.data.boid,
+          accountNumber: application.account.accountNumber,
+          customerId: application.account.id,
+          accountBranchId: application.account.accountBranchId,
+          accountTypeId: application.account.accountTypeId,
+          appliedKitta: application.appliedKitta,
+          crnNumber: application.crnNumber,
+          transactionPIN: form.querySelector('#transactionPIN').value,
+          companyShareId: String(application.companyShareId),
+          bankId: application.bankId,
+        });
+      }).then(function (res) {
+        toast('success', res.data.message);
+        asbaTab = 'apply';
+        location.hash = '#/asba';
+      }).catch(fail);
+    });
+  }
+
+  // ── Maintenance ─────────────────────────────────────────────────────────
+
+  function renderMaintenance(message) {
+    app.innerHTML =
+      '<div class="maintenance">' +
+      '  <h1>Under Maintenance</h1>' +
+      '  <p>' + esc(message || 'Meroshare is under maintenance. Please try again later.') + '</p>' +
+      '</div>';
+  }
+
+  // ── Router ──────────────────────────────────────────────────────────────
+
+  function route() {
+    var hash = location.hash.replace(/^#/, '') || '/';
+    var loggedIn = !!sessionStorage.getItem(TOKEN_KEY);
+
+    if (hash === '/login' || !loggedIn) {
+      if (hash !== '/login') {
+        location.hash = '#/login';
+        return;
+      }
+      renderLogin();
+      return;
+    }
+
+    var match;
+    if (hash === '/dashboard' || hash === '/') return renderDashboard();
+    if (hash === '/asba') return renderAsba();
+    if (hash === '/portfolio') return renderPortfolio();
+    if (hash === '/transaction') return renderTransactions();
+    if (hash === '/purchase') return renderPurchaseSource();
+    if ((match = hash.match(/^\/asba\/apply\/(\d+)$/))) return renderApplyForm(match[1]);
+    if ((match = hash.match(/^\/asba\/report\/(\d+)$/))) return renderReportDetail(match[1]);
+    location.hash = '#/dashboard';
+  }
+
+  window.addEventListener('hashchange', route);
+  route();
+})();
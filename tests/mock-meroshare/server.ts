@@ -0,0 +1,428 @@
+import express from 'express';
+import crypto from 'crypto';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { createMockState, MOCK_SCENARIOS, type MockScenario, type MockState, type MockUser } from './data';
+
+/**
+ * Stand-in for Meroshare: the JSON API under /api/meroShare/ and a small
+ * hash-routed web app with the same selectors the automation relies on.
+ * Nothing here talks to the real site.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface MockMeroshare {
+  /** Web app URL — use as BASE_URL */
+  url: string;
+  /** JSON API URL — use as MEROSHARE_API_URL */
+  apiUrl: string;
+  /** Allotment result check — use as ALLOTMENT_RESULT_URL */
+  resultUrl: string;
+  state: MockState;
+  reset(): void;
+  /** Turn scenarios on for one username, or "*" for everyone. No scenarios turns them off. */
+  setScenarios(username: string, ...scenarios: MockScenario[]): void;
+  close(): Promise<void>;
+}
+
+type AuthedRequest = express.Request & { user?: MockUser };
+
+/** Comma-separated scenarios for a single request, e.g. `x-mock-scenario: slow,pin_rejected` */
+export const SCENARIO_HEADER = 'x-mock-scenario';
+
+// ── Scenarios ────────────────────────────────────────────────────────────────
+
+function isScenario(value: unknown): value is MockScenario {
+  return typeof value === 'string' && (MOCK_SCENARIOS as string[]).includes(value);
+}
+
+function scenariosFor(state: MockState, username: string | undefined, fromHeader: MockScenario[] = []): Set<MockScenario> {
+  return new Set([
+    ...fromHeader,
+    ...(state.scenarios['*'] ?? []),
+    ...(username ? state.scenarios[username] ?? [] : []),
+  ]);
+}
+
+function headerScenarios(req: express.Request): MockScenario[] {
+  return (req.header(SCENARIO_HEADER) ?? '').split(',').map((s) => s.trim()).filter(isScenario);
+}
+
+/** Whose request is this — the session's user, or the username being logged in */
+function requestUsername(state: MockState, req: express.Request): string | undefined {
+  const index = state.sessions.get(req.header('authorization') ?? '');
+  if (index !== undefined) return state.users[index].username;
+  return typeof req.body?.username === 'string' ? req.body.username : undefined;
+}
+
+/** Endpoints the flaky scenario fails once per user */
+const FLAKY_PATHS = ['/auth/', '/companyShare/applicableIssue/'];
+
+/** Endpoints (by prefix) the flaky_records scenario fails once per user */
+const FLAKY_RECORD_PATHS = ['/myPortfolio/', '/myTransaction/', '/myPurchase/', '/applicantForm/active/search/', '/applicantForm/report/'];
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ── API ──────────────────────────────────────────────────────────────────────
+
+function paginate<T>(items: T[], body: any): { object: T[]; totalCount: number } {
+  const page = Math.max(Number(body?.page) || 1, 1);
+  const size = Math.max(Number(body?.size) || 20, 1);
+  return { object: items.slice((page - 1) * size, page * size), totalCount: items.length };
+}
+
+function createApiRouter(getState: () => MockState): express.Router {
+  const api = express.Router();
+
+  api.use(async (req, res, next) => {
+    const state = getState();
+    const fromHeader = headerScenarios(req);
+    const scenarios = scenariosFor(state, requestUsername(state, req), fromHeader);
+    res.locals.scenarios = scenarios;
+    res.locals.fromHeader = fromHeader;
+
+    if (scenarios.has('slow')) await delay(state.slowMs);
+    if (scenarios.has('maintenance')) {
+      res.status(503).json({ statusCode: 503, message: 'Meroshare is under maintenance. Please try again later.' });
+      return;
+    }
+    const flaky = (scenarios.has('flaky') && FLAKY_PATHS.includes(req.path))
+      || (scenarios.has('flaky_records') && FLAKY_RECORD_PATHS.some((p) => req.path.startsWith(p)));
+    if (flaky) {
+      const key = `${requestUsername(state, req)} ${req.path}`;
+      if (!state.flakyFailed.has(key)) {
+        state.flakyFailed.add(key);
+        res.status(503).json({ statusCode: 503, message: 'Service temporarily unavailable.' });
+        return;
+      }
+    }
+    next();
+  });
+
+  api.get('/capital/', (_req, res) => {
+    const state = getState();
+    const missing = new Set(
+      state.users
+        .filter((u) => scenariosFor(state, u.username, res.locals.fromHeader).has('dp_missing'))
+        .map((u) => u.clientId),
+    );
+    res.json(state.capitals.filter((c) => !missing.has(c.id)));
+  });
+
+  api.post('/auth/', (req, res) => {
+    const state = getState();
+    const { clientId, username, password } = req.body ?? {};
+    const index = state.users.findIndex(
+      (u) => u.clientId === Number(clientId) && u.username === username && u.password === password,
+    );
+    if (index === -1 || res.locals.scenarios.has('wrong_password')) {
+      res.status(401).json({ statusCode: 401, message: 'Invalid username or password' });
+      return;
+    }
+
+    const token = crypto.randomUUID();
+    state.sessions.set(token, index);
+    state.logins++;
+    res.setHeader('Authorization', token);
+    res.setHeader('Access-Control-Expose-Headers', 'Authorization');
+    res.json({ statusCode: 200, message: 'Log in successful.', passwordExpired: false, accountExpired: false });
+  });
+
+  // Everything below needs the token from /auth/
+  api.use((req: AuthedRequest, res, next) => {
+    const state = getState();
+    const index = state.sessions.get(req.header('authorization') ?? '');
+    if (index === undefined) {
+      res.status(401).json({ statusCode: 401, message: 'Session expired. Please log in again.' });
+      return;
+    }
+    req.user = state.users[index];
+    next();
+  });
+
+  api.get('/ownDetail/', (req: AuthedRequest, res) => {
+    const { name, demat, boid, clientCode } = req.user!;
+    res.json({ name, demat, boid, clientCode });
+  });
+
+  api.get('/bank/', (req: AuthedRequest, res) => {
+    if (res.locals.scenarios.has('no_bank_accounts')) {
+      res.json([]);
+      return;
+    }
+    res.json(req.user!.banks.map(({ id, code, name }) => ({ id, code, name })));
+  });
+
+  api.get('/bank/:bankId', (req: AuthedRequest, res) => {
+    const bank = req.user!.banks.find((b) => b.id === Number(req.params.bankId));
+    res.json(bank ? bank.accounts : []);
+  });
+
+  api.post('/companyShare/applicableIssue/', (req: AuthedRequest, res) => {
+    const applied = new Set(req.user!.applications.map((a) => a.companyShareId));
+    const appliedToAll = res.locals.scenarios.has('already_applied');
+    // Like the real list: no price or unit limits — those come from active/:id
+    const listable = getState().issues.filter((i) => !i.eligibleUsers || i.eligibleUsers.includes(req.user!.username));
+    const issues = listable.map(({ pricePerUnit, minUnit, maxUnit, multipleOf, issueManager, eligibleUsers, ...listed }) => ({
+      ...listed,
+      ...(appliedToAll || applied.has(listed.companyShareId) ? { action: 'edit' } : {}),
+    }));
+    res.json(paginate(issues, req.body));
+  });
+
+  api.get('/active/:companyShareId', (req: AuthedRequest, res) => {
+    const issue = getState().issues.find((i) => i.companyShareId === Number(req.params.companyShareId));
+    if (!issue) {
+      res.status(404).json({ statusCode: 404, message: 'Issue not found.' });
+      return;
+    }
+    res.json({
+      companyShareId: issue.companyShareId,
+      companyName: issue.companyName,
+      scrip: issue.scrip,
+      sharePerUnit: issue.pricePerUnit,
+      minUnit: issue.minUnit,
+      maxUnit: issue.maxUnit,
+      multipleOf: issue.multipleOf,
+      issueOpenDate: issue.issueOpenDate,
+      issueCloseDate: issue.issueCloseDate,
+      clientName: issue.issueManager,
+    });
+  });
+
+  api.post('/applicantForm/share/apply', (req: AuthedRequest, res) => {
+    const state = getState();
+    const user = req.user!;
+    const body = req.body ?? {};
+
+    const issue = state.issues.find((i) => i.companyShareId === Number(body.companyShareId));
+    if (!issue) {
+      res.status(404).json({ statusCode: 404, message: 'Issue not found.' });
+      return;
+    }
+    if (res.locals.scenarios.has('issue_closed')) {
+      res.status(400).json({ statusCode: 400, message: 'The issue has already been closed.' });
+      return;
+    }
+    if (res.locals.scenarios.has('already_applied') || user.applications.some((a) => a.companyShareId === issue.companyShareId)) {
+      res.status(409).json({ statusCode: 409, message: 'You have already applied for this issue.' });
+      return;
+    }
+
+    const bank = user.banks.find((b) => b.id === Number(body.bankId));
+    const account = bank?.accounts.find((a) => a.accountNumber === body.accountNumber);
+    if (!bank || !account) {
+      res.status(400).json({ statusCode: 400, message: 'Invalid bank account.' });
+      return;
+    }
+
+    const kitta = Number(body.appliedKitta);
+    if (!Number.isInteger(kitta) || kitta < issue.minUnit || kitta > issue.maxUnit || kitta % issue.multipleOf !== 0) {
+      res.status(400).json({
+        statusCode: 400,
+        message: `Applied kitta must be between ${issue.minUnit} and ${issue.maxUnit} in multiples of ${issue.multipleOf}.`,
+      });
+      return;
+    }
+    if (body.crnNumber !== user.crn) {
+      res.status(400).json({ statusCode: 400, message: 'Invalid CRN number.' });
+      return;
+    }
+    if (res.locals.scenarios.has('pin_rejected') || body.transactionPIN !== user.pin) {
+      res.status(400).json({ statusCode: 400, message: 'Invalid transaction PIN.' });
+      return;
+    }
+    if (res.locals.scenarios.has('insufficient_balance')) {
+      res.status(400).json({ statusCode: 400, message: 'Insufficient balance in the selected bank account.' });
+      return;
+    }
+
+    user.applications.unshift({
+      applicantFormId: state.nextApplicantFormId++,
+      companyShareId: issue.companyShareId,
+      companyName: issue.companyName,
+      scrip: issue.scrip,
+      shareTypeName: issue.shareTypeName,
+      subGroup: issue.subGroup,
+      appliedKitta: kitta,
+      amount: kitta * issue.pricePerUnit,
+      appliedDate: new Date().toISOString().slice(0, 10),
+      statusName: 'Transaction Success',
+      meroshareRemark: 'Unverified',
+      accountNumber: account.accountNumber,
+    });
+    res.status(201).json({ statusCode: 201, message: 'Share has been applied successfully.' });
+  });
+
+  api.post('/applicantForm/active/search/', (req: AuthedRequest, res) => {
+    const applications = res.locals.scenarios.has('report_lagging') ? [] : req.user!.applications;
+    const reports = applications.map(({ applicantFormId, companyShareId, companyName, scrip, shareTypeName, subGroup, statusName }) => ({
+      applicantFormId, companyShareId, companyName, scrip, shareTypeName, subGroup, statusName,
+    }));
+    res.json(paginate(reports, req.body));
+  });
+
+  // Mounted under meroShareView/ too, where the real API serves it
+  api.post('/myPortfolio/', (req: AuthedRequest, res) => {
+    const holdings = req.user!.holdings.map((h) => ({
+      ...h,
+      valueOfPrevClosingPrice: h.currentBalance * h.previousClosingPrice,
+      valueOfLastTransPrice: h.currentBalance * h.lastTransactionPrice,
+    }));
+    const { object, totalCount } = paginate(holdings, req.body);
+    res.json({
+      meroShareMyPortfolio: object,
+      totalItems: totalCount,
+      totalValueOfPrevClosingPrice: holdings.reduce((sum, h) => sum + h.valueOfPrevClosingPrice, 0),
+      totalValueOfLastTransPrice: holdings.reduce((sum, h) => sum + h.valueOfLastTransPrice, 0),
+    });
+  });
+
+  // Also meroShareView/. Newest first, optionally for one scrip.
+  api.post('/myTransaction/', (req: AuthedRequest, res) => {
+    const script = req.body?.requestTypeScript ? req.body.script : null;
+    const transactions = req.user!.transactions
+      .map((t, i) => ({ id: 4000 + i, ...t }))
+      .filter((t) => !script || t.scrip === script)
+      .reverse();
+    const { object, totalCount } = paginate(transactions, req.body);
+    res.json({ transactionView: object, totalItems: totalCount });
+  });
+
+  // Also meroShareView/. One scrip at a time, as the real page asks.
+  api.post('/myPurchase/search/', (req: AuthedRequest, res) => {
+    const { demat, scrip } = req.body ?? {};
+    if (demat !== req.user!.demat || typeof scrip !== 'string' || !scrip) {
+      res.status(400).json({ statusCode: 400, message: 'Demat and scrip are required.' });
+      return;
+    }
+    res.json(req.user!.purchases.filter((p) => p.scrip === scrip));
+  });
+
+  api.get('/applicantForm/report/detail/:id', (req: AuthedRequest, res) => {
+    const application = req.user!.applications.find((a) => a.applicantFormId === Number(req.params.id));
+    if (!application) {
+      res.status(404).json({ statusCode: 404, message: 'Application not found.' });
+      return;
+    }
+    res.json(application);
+  });
+
+  return api;
+}
+
+// ── Result Check ─────────────────────────────────────────────────────────────
+
+/**
+ * Stand-in for an allotment result-checking site: POST `{ boid, companyName }`.
+ * Answers from the user's applications — 404 until one has `receivedKitta`.
+ */
+function createResultRouter(getState: () => MockState): express.Router {
+  const router = express.Router();
+
+  router.post('/check', (req, res) => {
+    const { boid, companyName } = req.body ?? {};
+    const user = getState().users.find((u) => u.demat === boid);
+    if (!user) {
+      res.status(400).json({ message: 'Invalid BOID.' });
+      return;
+    }
+    const normalize = (name: unknown) => String(name).trim().toUpperCase();
+    const application = user.applications.find((a) => normalize(a.companyName) === normalize(companyName));
+    if (application?.receivedKitta === undefined) {
+      res.status(404).json({ message: 'Result not published.' });
+      return;
+    }
+    const allotted = application.receivedKitta > 0;
+    res.json({
+      allotted,
+      quantity: application.receivedKitta,
+      message: allotted ? `Congratulations! Alloted quantity: ${application.receivedKitta}` : 'Sorry, not alloted for the entered BOID.',
+    });
+  });
+
+  return router;
+}
+
+// ── Server ───────────────────────────────────────────────────────────────────
+
+export function createMockApp(getState: () => MockState): express.Express {
+  const app = express();
+  app.use(express.json());
+
+  const api = createApiRouter(getState);
+  app.use('/api/meroShare', api);
+  app.use('/api/meroShareView', api);
+  app.use('/api/result', createResultRouter(getState));
+  app.use(express.static(path.join(__dirname, 'public')));
+
+  return app;
+}
+
+/** Start the mock on `port` (0 = any free port) with fresh seed data */
+export function startMockMeroshare(port = 0): Promise<MockMeroshare> {
+  let state = createMockState();
+  const app = createMockApp(() => state);
+
+  // Lets a standalone mock be reset and scripted between manual runs
+  app.post('/__mock/reset', (_req, res) => {
+    state = createMockState();
+    res.json({ ok: true });
+  });
+
+  /** Body: { "scenarios": { "<username or *>": ["pin_rejected", ...] }, "slowMs": 1500 } */
+  app.put('/__mock/scenarios', (req, res) => {
+    const { scenarios = {}, slowMs } = req.body ?? {};
+    for (const [username, list] of Object.entries(scenarios)) {
+      if (!Array.isArray(list) || !list.every(isScenario)) {
+        res.status(400).json({ error: `Unknown scenario for "${username}". Expected any of: ${MOCK_SCENARIOS.join(', ')}` });
+        return;
+      }
+    }
+    if (slowMs !== undefined && !(Number.isInteger(slowMs) && slowMs >= 0)) {
+      res.status(400).json({ error: '"slowMs" must be a non-negative integer' });
+      return;
+    }
+    state.scenarios = scenarios;
+    if (slowMs !== undefined) state.slowMs = slowMs;
+    res.json({ scenarios: state.scenarios, slowMs: state.slowMs });
+  });
+
+  return new Promise((resolve) => {
+    const server: Server = app.listen(port, () => {
+      const url = `http://localhost:${(server.address() as AddressInfo).port}/`;
+      resolve({
+        url,
+        apiUrl: `${url}api/`,
+        resultUrl: `${url}api/result/check`,
+        get state() {
+          return state;
+        },
+        reset() {
+          state = createMockState();
+        },
+        setScenarios(username, ...scenarios) {
+          state.scenarios[username] = scenarios;
+        },
+        close: () => new Promise<void>((done) => {
+          server.close(() => done());
+          server.closeAllConnections();
+        }),
+      });
+    });
+  });
+}
+
+if (require.main === module) {
+  const port = Number(process.env.MOCK_MEROSHARE_PORT) || 4100;
+  startMockMeroshare(port).then(({ url, apiUrl, resultUrl }) => {
+    console.log(`Mock Meroshare running at ${url}`);
+    console.log(`  BASE_URL="${url}"`);
+    console.log(`  MEROSHARE_API_URL="${apiUrl}"`);
+    console.log(`  ALLOTMENT_RESULT_URL="${resultUrl}"`);
+  });
+}
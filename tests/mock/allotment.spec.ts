@@ -0,0 +1,63 @@
+import { test, expect, describeEngines, collect, ofType, finalStatuses, addCementApplication } from './harness';
+import { MOCK_CREDENTIALS } from '../mock-meroshare/data';
+import { ENGINES } from '../../server/engines';
+import { reportProvider, resultEndpointProvider } from '../../server/allotment';
+
+const { Ram, Sita, Hari, Gita } = MOCK_CREDENTIALS;
+
+describeEngines('allotment', (engine) => {
+  const run = ENGINES[engine];
+
+  test('allotment results are checked across the family from the Application Report', async ({ mock }) => {
+    addCementApplication(mock, Sita.username, 'Not Alloted', 0);
+    addCementApplication(mock, Hari.username, 'Transaction Success');
+
+    const entries = [{ name: 'Ram', cred: Ram }, { name: 'Sita', cred: Sita }, { name: 'Hari', cred: Hari }, { name: 'Gita', cred: Gita }];
+    const events = await collect((emit) => run.allotment(entries, 'Annapurna Cement Limited', reportProvider, emit));
+
+    const results = Object.fromEntries(ofType(events, 'allotment').map((e) => [e.data.account, e.data]));
+    expect(results.Ram).toMatchObject({ status: 'allotted', appliedKitta: 10, allottedKitta: 10, provider: 'report' });
+    expect(results.Sita).toMatchObject({ status: 'not_allotted', allottedKitta: 0 });
+    expect(results.Hari.status).toBe('pending');
+    expect(results.Gita.status).toBe('not_applied');
+    expect(finalStatuses(events)).toEqual({ Ram: 'success', Sita: 'success', Hari: 'success', Gita: 'success' });
+    expect(ofType(events, 'log').map((e) => e.message)).toContain(
+      '1 of 3 applied account(s) allotted — 10 kitta in total (1 still waiting for the result)',
+    );
+    expect(events.at(-1)).toEqual({ type: 'done' });
+  });
+
+  test('an Application Report read that fails with 503 is retried', async ({ mock }) => {
+    test.skip(engine === 'browser', 'The browser engine reads the report off the page');
+    mock.setScenarios(Ram.username, 'flaky_records');
+
+    const events = await collect((emit) => run.allotment([{ name: 'Ram', cred: Ram }], 'Annapurna Cement Limited', reportProvider, emit));
+
+    expect(ofType(events, 'allotment').map((e) => e.data)).toEqual([expect.objectContaining({ status: 'allotted', allottedKitta: 10 })]);
+    const retries = ofType(events, 'log').map((e) => e.message).filter((m) => m.includes('↻'));
+    // Both the report search and the entry's details fail once
+    expect(retries).toEqual([
+      expect.stringMatching(/^\[Ram\] ↻ Checking the allotment result failed \(.*503.*\)/),
+      expect.stringMatching(/^\[Ram\] ↻ Checking the allotment result failed \(.*503.*\)/),
+    ]);
+  });
+
+  test('allotment results can come from a result-checking endpoint instead', async ({ mock }) => {
+    process.env.ALLOTMENT_RESULT_URL = mock.resultUrl;
+    try {
+      addCementApplication(mock, Hari.username, 'Transaction Success');
+
+      const entries = [{ name: 'Ram', cred: Ram }, { name: 'Hari', cred: Hari }, { name: 'Gita', cred: Gita }];
+      const events = await collect((emit) => run.allotment(entries, 'ANNAPURNA CEMENT LIMITED', resultEndpointProvider, emit));
+
+      const results = Object.fromEntries(ofType(events, 'allotment').map((e) => [e.data.account, e.data]));
+      expect(results.Ram).toMatchObject({
+        status: 'allotted', allottedKitta: 10, message: 'Congratulations! Alloted quantity: 10', provider: 'result-endpoint',
+      });
+      expect(results.Hari.status).toBe('pending');
+      expect(results.Gita.status).toBe('not_applied');
+    } finally {
+      delete process.env.ALLOTMENT_RESULT_URL;
+    }
+  });
+});
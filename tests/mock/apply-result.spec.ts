@@ -0,0 +1,84 @@
+import { test, expect, describeEngines, collect, ofType, finalStatuses } from './harness';
+import { MOCK_CREDENTIALS, MOCK_ISSUES } from '../mock-meroshare/data';
+import { ENGINES } from '../../server/engines';
+import { classifyApplyResult } from '../../server/apply-result';
+
+const { Ram, Sita, Shyam } = MOCK_CREDENTIALS;
+
+describeEngines('apply results', (engine) => {
+  const run = ENGINES[engine];
+
+  test('an application is confirmed in the Application Report after applying', async () => {
+    const applied = await collect((emit) => run.apply('Ram', Ram, '701', MOCK_ISSUES.hydro, '20', Ram.TPIN, emit));
+
+    expect(ofType(applied, 'verification').map((e) => e.data)).toEqual([
+      expect.objectContaining({ account: 'Ram', result: 'verified', reportStatus: 'Transaction Success', appliedKitta: 20 }),
+    ]);
+    expect(ofType(applied, 'apply_success')).toHaveLength(1);
+  });
+
+  test('an application missing from the Application Report is left unconfirmed', async ({ mock }) => {
+    mock.setScenarios(Ram.username, 'report_lagging');
+    const events = await collect((emit) =>
+      run.bulkApply([{ name: 'Ram', cred: Ram }], '701', MOCK_ISSUES.hydro, '10', Ram.TPIN, {}, emit),
+    );
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'unconfirmed' });
+    const status = ofType(events, 'account_status').at(-1)!.data;
+    expect(status).toMatchObject({ outcome: 'success', verification: 'unverified' });
+    expect(status.message).toContain('Not in the Application Report yet');
+  });
+
+  test('a rejected PIN is reported as an error', async ({ mock }) => {
+    mock.setScenarios(Ram.username, 'pin_rejected');
+
+    const events = await collect((emit) =>
+      run.bulkApply([{ name: 'Ram', cred: Ram }], '701', MOCK_ISSUES.hydro, '10', Ram.TPIN, {}, emit),
+    );
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'error' });
+    expect(ofType(events, 'apply_result').map((e) => e.data.outcome)).toEqual(['invalid_pin']);
+    expect(mock.state.users[0].applications.some((a) => a.companyName === MOCK_ISSUES.hydro)).toBe(false);
+  });
+
+  test('each answer to the apply request is classified', async ({ mock }) => {
+    mock.setScenarios(Ram.username, 'insufficient_balance');
+    mock.setScenarios(Sita.username, 'issue_closed');
+
+    const entries = [{ name: 'Ram', cred: Ram }, { name: 'Sita', cred: Sita }, { name: 'Shyam', cred: Shyam }];
+    const pins = { Ram: Ram.TPIN, Sita: Sita.TPIN, Shyam: Shyam.TPIN };
+    const events = await collect((emit) => run.bulkApply(entries, '701', MOCK_ISSUES.hydro, '10', '', pins, emit));
+
+    const outcomes = Object.fromEntries(ofType(events, 'apply_result').map((e) => [e.data.account, e.data.outcome]));
+    expect(outcomes).toEqual({ Ram: 'insufficient_balance', Sita: 'issue_closed', Shyam: 'success' });
+    expect(finalStatuses(events)).toEqual({ Ram: 'error', Sita: 'error', Shyam: 'success' });
+    const shyam = ofType(events, 'apply_result').find((e) => e.data.account === 'Shyam')!.data;
+    expect(shyam).toMatchObject({ companyName: MOCK_ISSUES.hydro, statusCode: 201, message: 'Share has been applied successfully.' });
+  });
+
+  test('a single apply the PIN was rejected for ends with an error, not success', async ({ mock }) => {
+    mock.setScenarios(Ram.username, 'pin_rejected');
+    const applied = await collect((emit) => run.apply('Ram', Ram, '701', MOCK_ISSUES.hydro, '10', Ram.TPIN, emit));
+
+    expect(ofType(applied, 'apply_success')).toEqual([]);
+    expect(ofType(applied, 'apply_result').map((e) => e.data.outcome)).toEqual(['invalid_pin']);
+    expect(ofType(applied, 'error').map((e) => e.message)).toEqual(['Transaction PIN rejected: Invalid transaction PIN.']);
+  });
+});
+
+test.describe('apply result classification', () => {
+  const outcome = (message: string, statusCode?: number) => classifyApplyResult(statusCode, message).outcome;
+
+  test('a rejected PIN is told apart from a message that only mentions one', () => {
+    expect(outcome('Invalid transaction PIN.', 400)).toBe('invalid_pin');
+    expect(outcome('Transaction PIN is incorrect', 400)).toBe('invalid_pin');
+    expect(outcome('Share has been applied successfully. Keep your PIN safe.')).toBe('success');
+  });
+
+  test('a closed issue is told apart from other things that closed or expired', () => {
+    expect(outcome('The issue has already been closed.', 400)).toBe('issue_closed');
+    expect(outcome('IPO expired', 400)).toBe('issue_closed');
+    expect(outcome('Your session has expired. Please log in again.', 400)).toBe('unknown');
+    expect(outcome('The selected bank account is closed.', 400)).toBe('unknown');
+  });
+});
@@ -0,0 +1,168 @@
+import { test, expect, describeEngines, collect, ofType, finalStatuses } from './harness';
+import { MOCK_CREDENTIALS, MOCK_ISSUES } from '../mock-meroshare/data';
+import { ENGINES } from '../../server/engines';
+import { issueHash } from '../../server/issues';
+
+const { Ram, Sita, Hari, Gita, Shyam } = MOCK_CREDENTIALS;
+
+describeEngines('apply', (engine) => {
+  const run = ENGINES[engine];
+
+  test('applies for an issue and it appears in the Application Report', async () => {
+    const applied = await collect((emit) => run.apply('Ram', Ram, '701', MOCK_ISSUES.hydro, '10', Ram.TPIN, emit));
+    expect(ofType(applied, 'error')).toEqual([]);
+    expect(ofType(applied, 'apply_success')).toHaveLength(1);
+
+    const reports = await collect((emit) => run.run('Ram', Ram, 1, emit));
+    expect(ofType(reports, 'report').map((e) => e.data)).toEqual([
+      expect.objectContaining({ index: 1, total: 3, name: MOCK_ISSUES.hydro, status: 'Transaction Success', remarks: 'Unverified' }),
+    ]);
+    expect(ofType(reports, 'issue').find((e) => e.data.name === MOCK_ISSUES.hydro)?.data.hasApplyButton).toBe(false);
+  });
+
+  test('applies by issue ID even if the list was reordered since the scan', async ({ mock }) => {
+    const scan = await collect((emit) => run.scan('Ram', Ram, emit));
+    const hydro = ofType(scan, 'issue').find((e) => e.data.name === MOCK_ISSUES.hydro)!.data;
+    expect(hydro.id).toBe('701');
+
+    mock.state.issues.reverse();
+    const applied = await collect((emit) => run.apply('Ram', Ram, hydro.id, hydro.name, '10', Ram.TPIN, emit));
+
+    expect(ofType(applied, 'error')).toEqual([]);
+    expect(mock.state.users[0].applications.map((a) => a.companyName)).toContain(MOCK_ISSUES.hydro);
+    expect(mock.state.users[0].applications.map((a) => a.companyName)).not.toContain(MOCK_ISSUES.microfinance);
+  });
+
+  test('a hashed issue ID resolves too', async ({ mock }) => {
+    const id = issueHash({ name: MOCK_ISSUES.microfinance, shareType: 'IPO', shareGroup: 'Ordinary Shares' });
+    const applied = await collect((emit) => run.apply('Ram', Ram, id, MOCK_ISSUES.microfinance, '10', Ram.TPIN, emit));
+
+    expect(ofType(applied, 'error')).toEqual([]);
+    expect(mock.state.users[0].applications.map((a) => a.companyName)).toContain(MOCK_ISSUES.microfinance);
+  });
+
+  test('refuses to apply when the ID now belongs to a different company', async ({ mock }) => {
+    const applied = await collect((emit) => run.apply('Ram', Ram, '701', MOCK_ISSUES.energy, '10', Ram.TPIN, emit));
+
+    expect(ofType(applied, 'error').map((e) => e.message)).toEqual([expect.stringContaining('not applying')]);
+    expect(mock.state.users[0].applications).toHaveLength(2);
+  });
+
+  test('kitta outside the issue\'s unit rules fails before anything is submitted', async ({ mock }) => {
+    const applied = await collect((emit) => run.apply('Ram', Ram, '701', MOCK_ISSUES.hydro, '15', Ram.TPIN, emit));
+
+    expect(ofType(applied, 'error')).toEqual([
+      expect.objectContaining({ violation: { field: 'appliedKitta', rule: 'multiple', value: '15', expected: 'a multiple of 10' } }),
+    ]);
+    expect(mock.state.users[0].applications).toHaveLength(2);
+  });
+
+  test('bulk apply reports kitta above the issue\'s maximum per account', async ({ mock }) => {
+    const events = await collect((emit) =>
+      run.bulkApply([{ name: 'Ram', cred: Ram }], '702', MOCK_ISSUES.energy, '2500', Ram.TPIN, {}, emit),
+    );
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'error' });
+    expect(ofType(events, 'account_status').at(-1)?.data.violation).toMatchObject({ rule: 'max', expected: '≤ 2000' });
+    expect(mock.state.users[0].applications.some((a) => a.companyName === MOCK_ISSUES.energy)).toBe(false);
+  });
+
+  test('a dry run fills in the form, reports what it would submit and stops before the PIN', async ({ mock }) => {
+    const entries = [{ name: 'Ram', cred: Ram }, { name: 'Sita', cred: Sita }];
+    const events = await collect((emit) =>
+      run.bulkApply(entries, '701', MOCK_ISSUES.hydro, '20', '', {}, emit, { dryRun: true }),
+    );
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'would_apply', Sita: 'would_apply' });
+    const ram = ofType(events, 'account_status').find((e) => e.data.account === 'Ram' && e.data.status === 'would_apply')!.data;
+    expect(ram.preview).toMatchObject({ companyName: MOCK_ISSUES.hydro, appliedKitta: 20, amount: 2000, crn: Ram.CRN });
+    expect(ram.preview?.accountNumber).toBeTruthy();
+    expect(mock.state.users.every((u) => !u.applications.some((a) => a.companyName === MOCK_ISSUES.hydro))).toBe(true);
+  });
+
+  test('a single dry run ends with would_apply instead of applying', async ({ mock }) => {
+    const events = await collect((emit) =>
+      run.apply('Ram', Ram, '701', MOCK_ISSUES.hydro, '10', '', emit, { dryRun: true }),
+    );
+
+    expect(ofType(events, 'error')).toEqual([]);
+    expect(ofType(events, 'apply_success')).toEqual([]);
+    expect(finalStatuses(events)).toEqual({ Ram: 'would_apply' });
+    expect(events.at(-1)).toEqual({ type: 'done' });
+    expect(mock.state.users[0].applications).toHaveLength(2);
+  });
+
+  test('applies from the bank and account number saved for the account', async ({ mock }) => {
+    const cred = { ...Ram, bankName: 'Nabil', accountNumber: '00101017500456' };
+    const applied = await collect((emit) => run.apply('Ram', cred, '701', MOCK_ISSUES.hydro, '10', Ram.TPIN, emit));
+
+    expect(ofType(applied, 'error')).toEqual([]);
+    expect(mock.state.users[0].applications[0]).toMatchObject({ companyName: MOCK_ISSUES.hydro, accountNumber: '00101017500456' });
+  });
+
+  test('a saved bank that isn\'t linked falls back to the first one with a warning', async ({ mock }) => {
+    const cred = { ...Ram, bankName: 'EVEREST BANK LIMITED' };
+    const events = await collect((emit) =>
+      run.bulkApply([{ name: 'Ram', cred }], '701', MOCK_ISSUES.hydro, '10', Ram.TPIN, {}, emit),
+    );
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'success' });
+    expect(ofType(events, 'log').map((e) => e.message)).toContainEqual(expect.stringContaining('No option matches "EVEREST BANK LIMITED"'));
+    expect(mock.state.users[0].applications[0]).toMatchObject({ companyName: MOCK_ISSUES.hydro, accountNumber: '04511000123' });
+  });
+
+  test('bulk apply reports success, already applied and login failures per account', async ({ mock }) => {
+    const entries = [
+      { name: 'Ram', cred: Ram },
+      { name: 'Sita', cred: Sita },
+      { name: 'Typo', cred: { ...Ram, username: '00999999' } },
+    ];
+    const events = await collect((emit) =>
+      run.bulkApply(entries, '702', MOCK_ISSUES.energy, '10', '', { Ram: Ram.TPIN, Sita: Sita.TPIN }, emit),
+    );
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'success', Sita: 'already_applied', Typo: 'login_failed' });
+    expect(mock.state.users[0].applications[0].companyName).toBe(MOCK_ISSUES.energy);
+    expect(events.at(-1)).toEqual({ type: 'done' });
+  });
+
+  test('bulk apply maps each injected fault to the right account status', async ({ mock }) => {
+    mock.setScenarios(Sita.username, 'already_applied');
+    mock.setScenarios(Hari.username, 'wrong_password');
+    mock.setScenarios(Gita.username, 'dp_missing');
+    mock.setScenarios(Shyam.username, 'no_bank_accounts');
+
+    const entries = Object.entries(MOCK_CREDENTIALS).map(([name, cred]) => ({ name, cred }));
+    const pins = Object.fromEntries(entries.map(({ name, cred }) => [name, cred.TPIN]));
+    const events = await collect((emit) => run.bulkApply(entries, '701', MOCK_ISSUES.hydro, '10', '', pins, emit));
+
+    expect(finalStatuses(events)).toEqual({
+      Ram: 'success',
+      Sita: 'already_applied',
+      Hari: 'login_failed',
+      Gita: 'login_failed',
+      Shyam: 'error',
+    });
+    const messages = Object.fromEntries(ofType(events, 'account_status').map((e) => [e.data.account, e.data.message]));
+    expect(messages.Hari).toContain('401');
+    expect(messages.Gita).toContain(`DP with code ${Gita.DP_CODE} not found`);
+    expect(messages.Shyam).toMatch(/\[Bank\]/);
+  });
+
+  test('bulk apply goes by issue ID when the company has a second issue open', async ({ mock }) => {
+    // Listed first, so going by the company name alone would apply for it
+    mock.state.issues.unshift({ ...mock.state.issues[0], companyShareId: 704, subGroup: 'For Foreign Employment' });
+    const entries = [{ name: 'Ram', cred: Ram }, { name: 'Sita', cred: Sita }];
+
+    const scan = await collect((emit) => run.bulkScan(entries, emit));
+    const [{ data: matrix }] = ofType(scan, 'issue_matrix');
+    const hydro = matrix.issues.filter((row) => row.issue.name === MOCK_ISSUES.hydro);
+    expect(hydro.map((row) => row.issue.id)).toEqual(['704', '701']);
+
+    const pins = { Ram: Ram.TPIN, Sita: Sita.TPIN };
+    const events = await collect((emit) => run.bulkApply(entries, hydro[1].issue.id, MOCK_ISSUES.hydro, '10', '', pins, emit));
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'success', Sita: 'success' });
+    expect(mock.state.users.slice(0, 2).map((user) => user.applications[0].companyShareId)).toEqual([701, 701]);
+  });
+});
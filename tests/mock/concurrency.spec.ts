@@ -0,0 +1,45 @@
+import { test, expect, collect, ofType, finalStatuses } from './harness';
+import { MOCK_CREDENTIALS } from '../mock-meroshare/data';
+import { ENGINES } from '../../server/engines';
+
+const { Ram, Hari, Gita } = MOCK_CREDENTIALS;
+
+test.describe('bulk concurrency', () => {
+  test.afterEach(() => {
+    delete process.env.BULK_CONCURRENCY;
+  });
+
+  test('accounts are worked on in parallel up to BULK_CONCURRENCY', async ({ mock }) => {
+    process.env.BULK_CONCURRENCY = '3';
+    mock.state.slowMs = 300;
+    mock.setScenarios('*', 'slow');
+
+    const entries = [{ name: 'Ram', cred: Ram }, { name: 'Hari', cred: Hari }, { name: 'Gita', cred: Gita }];
+    const started = Date.now();
+    const events = await collect((emit) => ENGINES.api.bulkScan(entries, emit));
+    const elapsed = Date.now() - started;
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'success', Hari: 'success', Gita: 'success' });
+    // Each account waits on at least 3 slow responses in turn; one account at a time would take 2.7s or more
+    expect(elapsed).toBeLessThan(2700);
+    // Accounts start in the order given
+    const running = ofType(events, 'account_status').filter((e) => e.data.status === 'running');
+    expect(running.map((e) => e.data.account)).toEqual(['Ram', 'Hari', 'Gita']);
+  });
+
+  test('accounts not started before a cancel are reported as cancelled', async () => {
+    process.env.BULK_CONCURRENCY = '1';
+    const controller = new AbortController();
+    const entries = [{ name: 'Ram', cred: Ram }, { name: 'Hari', cred: Hari }, { name: 'Gita', cred: Gita }];
+
+    const events = await collect((emit) => ENGINES.api.bulkScan(entries, (event) => {
+      emit(event);
+      if (event.type === 'account_status' && event.data.account === 'Ram' && event.data.status === 'success') {
+        controller.abort();
+      }
+    }, { signal: controller.signal }));
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'success', Hari: 'cancelled', Gita: 'cancelled' });
+    expect(events.at(-1)).toMatchObject({ type: 'cancelled' });
+  });
+});
@@ -0,0 +1,150 @@
+import { test as base } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { startMockMeroshare, type MockMeroshare } from '../mock-meroshare/server';
+import type { AutomationEngine } from '../../server/engines';
+import type { AutomationEvent, AccountStatus } from '../../server/automation';
+import { clearSessions } from '../../server/sessions';
+import { app } from '../../server/index';
+
+// Shared setup for the specs that run the real automation (both engines)
+// against the local mock instead of meroshare.cdsc.com.np — no credentials.json
+// or network needed.
+
+export { expect } from '@playwright/test';
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+interface TestFixtures {
+  /** Seed data and scenarios restored, sessions forgotten — runs before every test */
+  freshMock: void;
+  /** A temporary DATA_DIR for jobs, receipts, artifacts and imports; removed afterwards */
+  dataDir: string;
+}
+
+interface WorkerFixtures {
+  mock: MockMeroshare;
+}
+
+export const test = base.extend<TestFixtures, WorkerFixtures>({
+  mock: [async ({}, use) => {
+    const mock = await startMockMeroshare();
+    process.env.BASE_URL = mock.url;
+    process.env.MEROSHARE_API_URL = mock.apiUrl;
+    // Keep retries of injected 503s quick
+    process.env.RETRY_BASE_DELAY_MS = '50';
+    await use(mock);
+    await mock.close();
+  }, { scope: 'worker' }],
+
+  freshMock: [async ({ mock }, use) => {
+    mock.reset();
+    clearSessions();
+    await use();
+  }, { auto: true }],
+
+  dataDir: async ({}, use) => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'meroshare-data-'));
+    process.env.DATA_DIR = dataDir;
+    try {
+      await use(dataDir);
+    } finally {
+      delete process.env.DATA_DIR;
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  },
+});
+
+/** Declare the same tests for each engine, e.g. "api engine: scan" */
+export function describeEngines(feature: string, body: (engine: AutomationEngine) => void) {
+  for (const engine of ['api', 'browser'] as AutomationEngine[]) {
+    test.describe(`${engine} engine: ${feature}`, () => {
+      // The browser engine waits out real-site animations between steps
+      test.describe.configure({ timeout: 3 * 60 * 1000 });
+      body(engine);
+    });
+  }
+}
+
+/**
+ * Serve the app from server/index.ts on a free port and log in to it. Call
+ * `api` with a path like "/api/jobs"; `close` stops the server.
+ */
+export async function serveApp() {
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const login = await fetch(`${baseUrl}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ password: process.env.AUTH_PASSWORD ?? '' }),
+  });
+  const { token } = await login.json();
+  const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+  return {
+    api: (urlPath: string, init: RequestInit = {}) => fetch(`${baseUrl}${urlPath}`, { ...init, headers }),
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+export async function collect(run: (emit: (event: AutomationEvent) => void) => Promise<void>): Promise<AutomationEvent[]> {
+  const events: AutomationEvent[] = [];
+  await run((event) => events.push(event));
+  return events;
+}
+
+export function ofType<T extends AutomationEvent['type']>(events: AutomationEvent[], type: T) {
+  return events.filter((e): e is Extract<AutomationEvent, { type: T }> => e.type === type);
+}
+
+/** Last account_status per account */
+export function finalStatuses(events: AutomationEvent[]): Record<string, AccountStatus['status']> {
+  const result: Record<string, AccountStatus['status']> = {};
+  for (const { data } of ofType(events, 'account_status')) result[data.account] = data.status;
+  return result;
+}
+
+/** Give a seeded user an application for Annapurna Cement with the given result */
+export function addCementApplication(mock: MockMeroshare, username: string, statusName: string, receivedKitta?: number) {
+  const user = mock.state.users.find((u) => u.username === username)!;
+  user.applications.unshift({
+    applicantFormId: mock.state.nextApplicantFormId++,
+    companyShareId: 690,
+    companyName: 'ANNAPURNA CEMENT LIMITED',
+    scrip: 'ACL',
+    shareTypeName: 'IPO',
+    subGroup: 'For General Public',
+    appliedKitta: 10,
+    amount: 1000,
+    appliedDate: '2026-09-02',
+    statusName,
+    meroshareRemark: statusName,
+    receivedKitta,
+  });
+}
+
+/** Give a seeded user `count` more applications, newer than the seeded ones */
+export function addApplications(mock: MockMeroshare, username: string, count: number) {
+  const user = mock.state.users.find((u) => u.username === username)!;
+  for (let i = 1; i <= count; i++) {
+    user.applications.unshift({
+      applicantFormId: mock.state.nextApplicantFormId++,
+      companyShareId: 800 + i,
+      companyName: `TEST HYDRO ${i} LIMITED`,
+      scrip: `TH${i}`,
+      shareTypeName: 'IPO',
+      subGroup: 'For General Public',
+      appliedKitta: 10,
+      amount: 1000,
+      appliedDate: '2026-10-01',
+      statusName: 'Transaction Success',
+      meroshareRemark: 'Verified',
+    });
+  }
+}
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, expect, serveApp } from './harness';
+import { MOCK_ISSUES } from '../mock-meroshare/data';
+import type { AutomationEvent } from '../../server/automation';
+import type { Job } from '../../server/jobs';
+import { recordJob, recordEvent, rotateHistory, queryHistory } from '../../server/store';
+
+function job(id: string, type: Job['type'], accounts: string[], createdAt: string, params: Record<string, unknown> = {}): Job {
+  return { id, type, status: 'succeeded', accounts, params, createdAt, startedAt: createdAt, finishedAt: createdAt, error: null };
+}
+
+const issueEvent = (name: string) => ({ type: 'issue', data: { name } }) as unknown as AutomationEvent;
+
+/** Three finished jobs a fortnight apart, newest last */
+function seedHistory() {
+  const apply = job('apply-1', 'bulk-apply', ['Ram', 'Sita'], '2026-09-01T04:00:00.000Z', { companyName: MOCK_ISSUES.hydro });
+  recordJob({ ...apply, status: 'queued' });
+  recordJob(apply);
+  recordEvent('apply-1', 2, { type: 'done' });
+  recordEvent('apply-1', 1, { type: 'log', message: 'Bulk apply starting' });
+
+  recordJob(job('scan-1', 'scan', ['Ram'], '2026-09-15T04:00:00.000Z'));
+  recordEvent('scan-1', 1, issueEvent('ANNAPURNA CEMENT LIMITED'));
+
+  recordJob(job('portfolio-1', 'portfolio', ['Sita'], '2026-10-01T04:00:00.000Z'));
+}
+
+test.describe('job history', () => {
+  let server: Awaited<ReturnType<typeof serveApp>>;
+
+  test.beforeAll(async () => {
+    server = await serveApp();
+  });
+
+  test.afterAll(async () => {
+    await server.close();
+  });
+
+  async function ids(query: string): Promise<string[]> {
+    const res = await server.api(`/api/history${query}`);
+    expect(res.status).toBe(200);
+    return (await res.json()).map((entry: Job) => entry.id);
+  }
+
+  test('GET /api/history filters by account, company, type and date range', async ({ dataDir }) => {
+    seedHistory();
+
+    expect(await ids('')).toEqual(['portfolio-1', 'scan-1', 'apply-1']);
+    expect(await ids('?account=ram')).toEqual(['scan-1', 'apply-1']);
+    // The company is matched in the job's params or in the issues it listed
+    expect(await ids('?company=hydropower')).toEqual(['apply-1']);
+    expect(await ids('?company=cement')).toEqual(['scan-1']);
+    expect(await ids('?type=portfolio')).toEqual(['portfolio-1']);
+    // A bare date covers the whole day
+    expect(await ids('?from=2026-09-15')).toEqual(['portfolio-1', 'scan-1']);
+    expect(await ids('?to=2026-09-15')).toEqual(['scan-1', 'apply-1']);
+    expect(await ids('?account=Sita&from=2026-08-01&to=2026-09-30')).toEqual(['apply-1']);
+    expect(await ids('?limit=1')).toEqual(['portfolio-1']);
+  });
+
+  test('GET /api/history returns the latest snapshot of each job with its events in order', async ({ dataDir }) => {
+    seedHistory();
+
+    const [entry] = await (await server.api('/api/history?type=bulk-apply')).json();
+    expect(entry.status).toBe('succeeded');
+    expect(entry.events.map((e: { seq: number }) => e.seq)).toEqual([1, 2]);
+    expect(entry.events[0]).toMatchObject({ jobId: 'apply-1', event: { type: 'log', message: 'Bulk apply starting' } });
+  });
+
+  test('GET /api/history rejects a bad date or limit', async ({ dataDir }) => {
+    const badDate = await server.api('/api/history?from=yesterday');
+    expect(badDate.status).toBe(400);
+    expect(await badDate.json()).toEqual({ error: 'Invalid "from" date: yesterday' });
+    expect((await server.api('/api/history?limit=0')).status).toBe(400);
+  });
+
+  test('rotation keeps one snapshot per job and drops jobs past the retention', async ({ dataDir }) => {
+    seedHistory();
+    recordJob({ ...job('running-1', 'scan', ['Hari'], '2026-08-01T04:00:00.000Z'), status: 'running' });
+    for (const dir of ['artifacts', 'receipts']) {
+      fs.mkdirSync(path.join(dataDir, dir, 'apply-1'), { recursive: true });
+      fs.writeFileSync(path.join(dataDir, dir, 'apply-1', 'file'), '');
+    }
+    process.env.HISTORY_RETENTION_DAYS = '30';
+    try {
+      expect(rotateHistory(Date.parse('2026-10-10T00:00:00.000Z'))).toBe(1);
+    } finally {
+      delete process.env.HISTORY_RETENTION_DAYS;
+    }
+
+    // A job that never finished is kept, however old
+    expect(queryHistory().map((entry) => entry.id)).toEqual(['portfolio-1', 'scan-1', 'running-1']);
+    expect(fs.existsSync(path.join(dataDir, 'events', 'apply-1.jsonl'))).toBe(false);
+    expect(fs.existsSync(path.join(dataDir, 'artifacts', 'apply-1'))).toBe(false);
+    expect(fs.existsSync(path.join(dataDir, 'receipts', 'apply-1'))).toBe(false);
+    expect(fs.readFileSync(path.join(dataDir, 'jobs.jsonl'), 'utf-8').trim().split('\n')).toHaveLength(3);
+  });
+});
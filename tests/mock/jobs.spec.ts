@@ -0,0 +1,248 @@
+import { test, expect, finalStatuses, serveApp } from './harness';
+import { MOCK_CREDENTIALS, MOCK_ISSUES } from '../mock-meroshare/data';
+import { setInMemoryCredentials, type AutomationEvent } from '../../server/automation';
+import {
+  enqueueJob, cancelJob, getJob, getJobEvents, listJobs, isTerminalStatus, MAX_FINISHED_JOBS, type JobRunner,
+} from '../../server/jobs';
+
+/** A runner that waits until the test lets it finish; `emit` and `signal` are those of its last run */
+function controllableRunner() {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => { finish = resolve; });
+  const runner = {
+    started: false,
+    emit: (_event: AutomationEvent) => {},
+    signal: undefined as AbortSignal | undefined,
+    finish: () => finish(),
+    run: (async (emit, signal) => {
+      runner.started = true;
+      runner.emit = emit;
+      runner.signal = signal;
+      await done;
+    }) as JobRunner,
+  };
+  return runner;
+}
+
+async function settled(id: string) {
+  await expect.poll(() => getJob(id)?.status).toMatch(/succeeded|failed|cancelled/);
+}
+
+/** The events of an SSE response, read until the job finishes */
+async function streamedEvents(res: Response): Promise<AutomationEvent[]> {
+  const text = await res.text();
+  return text.split('\n\n').filter((chunk) => chunk.startsWith('data: ')).map((chunk) => JSON.parse(chunk.slice(6)));
+}
+
+function statusesOf(id: string) {
+  return getJobEvents(id).filter((e) => e.type === 'job').map((e) => e.type === 'job' && e.data.status);
+}
+
+test.describe('job queue', () => {
+  test('jobs run one at a time, in the order they were queued', async ({ dataDir }) => {
+    const first = controllableRunner();
+    const second = controllableRunner();
+    const a = enqueueJob('scan', ['Ram'], {}, first.run);
+    const b = enqueueJob('scan', ['Sita'], {}, second.run);
+
+    await expect.poll(() => first.started).toBe(true);
+    expect(getJob(a.id)).toMatchObject({ status: 'running', position: 0 });
+    expect(getJob(b.id)).toMatchObject({ status: 'queued', position: 1 });
+    expect(second.started).toBe(false);
+
+    first.finish();
+    await expect.poll(() => second.started).toBe(true);
+    expect(getJob(a.id)!.status).toBe('succeeded');
+    expect(getJob(b.id)).toMatchObject({ status: 'running', position: 0 });
+
+    second.finish();
+    await settled(b.id);
+  });
+
+  test('a job ends succeeded, or failed with the error it reported or threw', async ({ dataDir }) => {
+    const ok = enqueueJob('scan', ['Ram'], {}, async (emit) => emit({ type: 'done' }));
+    const reported = enqueueJob('scan', ['Ram'], {}, async (emit) => emit({ type: 'error', message: 'No open issues' }));
+    const thrown = enqueueJob('scan', ['Ram'], {}, async () => { throw new Error('Browser crashed'); });
+    await settled(thrown.id);
+
+    expect(getJob(ok.id)).toMatchObject({ status: 'succeeded', error: null });
+    expect(getJob(ok.id)!.startedAt).not.toBeNull();
+    expect(getJob(ok.id)!.finishedAt).not.toBeNull();
+    expect(statusesOf(ok.id)).toEqual(['queued', 'running', 'succeeded']);
+    expect(getJob(reported.id)).toMatchObject({ status: 'failed', error: 'No open issues' });
+    expect(getJob(thrown.id)).toMatchObject({ status: 'failed', error: 'Browser crashed' });
+    expect(getJobEvents(thrown.id)).toContainEqual({ type: 'error', message: 'Browser crashed' });
+  });
+
+  test('a queued job is dropped at once when cancelled and never runs', async ({ dataDir }) => {
+    const blocker = controllableRunner();
+    const waiting = controllableRunner();
+    const running = enqueueJob('scan', ['Ram'], {}, blocker.run);
+    const queued = enqueueJob('scan', ['Sita'], {}, waiting.run);
+
+    expect(cancelJob(queued.id)).toEqual({ ok: true });
+    expect(getJob(queued.id)).toMatchObject({ status: 'cancelled', position: 0 });
+    expect(getJobEvents(queued.id)).toContainEqual({ type: 'cancelled', message: 'Cancelled before it started' });
+
+    blocker.finish();
+    await settled(running.id);
+    expect(waiting.started).toBe(false);
+  });
+
+  test('a running job is asked to stop and ends cancelled once it does', async ({ dataDir }) => {
+    const runner = controllableRunner();
+    const job = enqueueJob('bulk-scan', ['Ram', 'Sita'], {}, runner.run);
+    await expect.poll(() => runner.started).toBe(true);
+
+    expect(cancelJob(job.id)).toEqual({ ok: true });
+    expect(runner.signal!.aborted).toBe(true);
+    // Still running until the automation reaches a safe point
+    expect(getJob(job.id)!.status).toBe('running');
+
+    runner.emit({ type: 'cancelled', message: 'Bulk scan cancelled by user' });
+    runner.finish();
+    await settled(job.id);
+    expect(getJob(job.id)!.status).toBe('cancelled');
+    expect(cancelJob(job.id)).toEqual({ error: 'Job is already cancelled', status: 409 });
+    expect(cancelJob('no-such-job')).toEqual({ error: 'Job "no-such-job" not found', status: 404 });
+  });
+
+  test(`only the newest ${MAX_FINISHED_JOBS} finished jobs are kept`, async ({ dataDir }) => {
+    const jobs = Array.from({ length: MAX_FINISHED_JOBS + 5 }, () => enqueueJob('scan', ['Ram'], {}, async () => {}));
+    await settled(jobs.at(-1)!.id);
+
+    for (const job of jobs.slice(0, 5)) expect(getJob(job.id)).toBeNull();
+    for (const job of jobs.slice(5)) expect(getJob(job.id)?.status).toBe('succeeded');
+    expect(listJobs().filter((j) => isTerminalStatus(j.status))).toHaveLength(MAX_FINISHED_JOBS);
+  });
+});
+
+test.describe('job routes', () => {
+  let server: Awaited<ReturnType<typeof serveApp>>;
+  const api = (urlPath: string, init?: RequestInit) => server.api(urlPath, init);
+
+  test.beforeAll(async () => {
+    server = await serveApp();
+  });
+
+  test.afterAll(async () => {
+    await server.close();
+  });
+
+  test('GET /api/jobs lists jobs and GET /api/jobs/:id adds their events', async ({ dataDir }) => {
+    const job = enqueueJob('scan', ['Ram'], { engine: 'api' }, async (emit) => emit({ type: 'log', message: 'Scanning' }));
+    await settled(job.id);
+
+    const list = await (await api('/api/jobs')).json();
+    expect(list).toContainEqual(expect.objectContaining({ id: job.id, type: 'scan', status: 'succeeded', accounts: ['Ram'] }));
+
+    const detail = await (await api(`/api/jobs/${job.id}`)).json();
+    expect(detail).toMatchObject({ id: job.id, params: { engine: 'api' }, position: 0 });
+    expect(detail.events).toContainEqual({ type: 'log', message: 'Scanning' });
+
+    const missing = await api('/api/jobs/no-such-job');
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({ error: 'Job "no-such-job" not found' });
+  });
+
+  test('POST /api/jobs/:id/cancel cancels a job once', async ({ dataDir }) => {
+    const blocker = controllableRunner();
+    const running = enqueueJob('scan', ['Ram'], {}, blocker.run);
+    const queued = enqueueJob('scan', ['Sita'], {}, async () => {});
+
+    const res = await api(`/api/jobs/${queued.id}/cancel`, { method: 'POST' });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ ok: true, job: { id: queued.id, status: 'cancelled' } });
+
+    const again = await api(`/api/jobs/${queued.id}/cancel`, { method: 'POST' });
+    expect(again.status).toBe(409);
+    expect(await again.json()).toEqual({ error: 'Job is already cancelled' });
+    expect((await api('/api/jobs/no-such-job/cancel', { method: 'POST' })).status).toBe(404);
+
+    blocker.finish();
+    await settled(running.id);
+  });
+
+  test.describe('POST /api/jobs/:id/retry-failed', () => {
+    const { Ram, Sita } = MOCK_CREDENTIALS;
+
+    test.beforeEach(() => {
+      setInMemoryCredentials({ Ram, Sita });
+    });
+
+    test.afterEach(() => {
+      setInMemoryCredentials({});
+    });
+
+    test('applies again, with the same settings, for only the accounts a retry could fix', async ({ mock, dataDir }) => {
+      mock.setScenarios(Ram.username, 'pin_rejected');
+      mock.setScenarios(Sita.username, 'maintenance');
+      const first = await api('/api/bulk-apply', {
+        method: 'POST',
+        body: JSON.stringify({
+          accounts: ['Ram', 'Sita'], issueId: '701', companyName: MOCK_ISSUES.hydro, appliedKitta: '10', transactionPIN: Ram.TPIN,
+          accountPINs: { Sita: Sita.TPIN }, engine: 'api',
+        }),
+      });
+      const originalId = first.headers.get('x-job-id')!;
+      expect(finalStatuses(await streamedEvents(first))).toEqual({ Ram: 'error', Sita: 'login_failed' });
+
+      mock.setScenarios(Ram.username);
+      mock.setScenarios(Sita.username);
+      const retry = await api(`/api/jobs/${originalId}/retry-failed`, { method: 'POST' });
+      expect(retry.status).toBe(200);
+      const retryId = retry.headers.get('x-job-id')!;
+
+      // A rejected PIN sent again could lock the TPIN, so Ram is left out
+      expect(finalStatuses(await streamedEvents(retry))).toEqual({ Sita: 'success' });
+      expect(getJob(retryId)).toMatchObject({
+        type: 'bulk-apply',
+        status: 'succeeded',
+        accounts: ['Sita'],
+        params: { issueId: '701', companyName: MOCK_ISSUES.hydro, appliedKitta: '10', engine: 'api', dryRun: false, retryOf: originalId },
+      });
+      expect(mock.state.users[1].applications[0].companyName).toBe(MOCK_ISSUES.hydro);
+      expect(mock.state.users[0].applications.some((a) => a.companyName === MOCK_ISSUES.hydro)).toBe(false);
+
+      const again = await api(`/api/jobs/${retryId}/retry-failed`, { method: 'POST' });
+      expect(again.status).toBe(409);
+      expect(await again.json()).toEqual({ error: 'No accounts in this job failed in a way that retrying could fix' });
+    });
+
+    test('accounts Meroshare refused, or whose kitta or login was wrong, are not retried', async ({ dataDir }) => {
+      const original = enqueueJob('bulk-apply', ['Ram', 'Sita', 'Hari', 'Gita'], {}, async (emit) => {
+        const refused = { status: 'error', message: 'Invalid transaction PIN' } as const;
+        emit({ type: 'account_status', data: { account: 'Ram', ...refused, outcome: 'invalid_pin' } });
+        emit({ type: 'account_status', data: { account: 'Sita', ...refused, outcome: 'insufficient_balance' } });
+        emit({
+          type: 'account_status',
+          data: {
+            account: 'Hari', status: 'error', message: 'Too many kitta',
+            violation: { field: 'appliedKitta', rule: 'max', value: '9000', expected: '≤ 5000' },
+          },
+        });
+        emit({ type: 'account_status', data: { account: 'Gita', status: 'error', message: 'Duplicate login', duplicateOf: 'Ram' } });
+      }, { transactionPIN: Ram.TPIN, accountPINs: {} });
+      await settled(original.id);
+
+      const res = await api(`/api/jobs/${original.id}/retry-failed`, { method: 'POST' });
+      expect(res.status).toBe(409);
+    });
+
+    test('a job pruned from the job list can no longer be retried', async ({ dataDir }) => {
+      const original = enqueueJob('bulk-apply', ['Ram'], {}, async (emit) => {
+        emit({ type: 'account_status', data: { account: 'Ram', status: 'error', message: 'Browser crashed' } });
+      }, { transactionPIN: Ram.TPIN, accountPINs: {} });
+      const later = Array.from({ length: MAX_FINISHED_JOBS }, () => enqueueJob('scan', ['Ram'], {}, async () => {}));
+      await settled(later.at(-1)!.id);
+      expect(getJob(original.id)).toBeNull();
+
+      const res = await api(`/api/jobs/${original.id}/retry-failed`, { method: 'POST' });
+      expect(res.status).toBe(404);
+      expect((await res.json()).error).toBe(
+        `Job "${original.id}" not found. PINs are kept in memory only, so a job can't be retried once it has been ` +
+          'pruned from the job list or the server has restarted',
+      );
+    });
+  });
+});
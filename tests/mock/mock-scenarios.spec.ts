@@ -0,0 +1,33 @@
+import { test, expect } from './harness';
+import { SCENARIO_HEADER } from '../mock-meroshare/server';
+import { MOCK_CREDENTIALS } from '../mock-meroshare/data';
+
+const { Ram, Sita } = MOCK_CREDENTIALS;
+
+test.describe('mock scenario selection', () => {
+  test('the scenario header applies to a single request', async ({ mock }) => {
+    const url = `${mock.apiUrl}meroShare/capital/`;
+
+    const faulty = await fetch(url, { headers: { [SCENARIO_HEADER]: 'maintenance' } });
+    expect(faulty.status).toBe(503);
+    expect((await faulty.json()).message).toContain('maintenance');
+
+    const normal = await fetch(url);
+    expect(normal.status).toBe(200);
+  });
+
+  test('scenarios can be configured over HTTP', async ({ mock }) => {
+    const put = (body: unknown) => fetch(`${mock.url}__mock/scenarios`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    expect((await put({ scenarios: { [Ram.username]: ['not_a_scenario'] } })).status).toBe(400);
+    expect((await put({ scenarios: { [Ram.username]: ['dp_missing'] } })).status).toBe(200);
+
+    const capitals: { code: string }[] = await (await fetch(`${mock.apiUrl}meroShare/capital/`)).json();
+    expect(capitals.map((c) => c.code)).not.toContain(Ram.DP_CODE);
+    expect(capitals.map((c) => c.code)).toContain(Sita.DP_CODE);
+  });
+});
@@ -0,0 +1,41 @@
+import { test, expect, describeEngines, collect, ofType, finalStatuses } from './harness';
+import { MOCK_CREDENTIALS } from '../mock-meroshare/data';
+import { ENGINES } from '../../server/engines';
+
+const { Ram, Sita, Hari } = MOCK_CREDENTIALS;
+
+describeEngines('portfolio', (engine) => {
+  const run = ENGINES[engine];
+
+  test('portfolio lists each account\'s holdings and sums them up for the family', async () => {
+    const entries = [{ name: 'Ram', cred: Ram }, { name: 'Sita', cred: Sita }, { name: 'Hari', cred: Hari }];
+    const events = await collect((emit) => run.portfolio(entries, emit));
+
+    const holdings = ofType(events, 'holding').map((e) => e.data);
+    expect(holdings.filter((h) => h.account === 'Ram')).toEqual([
+      expect.objectContaining({
+        script: 'ACL', currentBalance: 10, previousClosingPrice: 412, previousCloseValue: 4120, ltp: 418.5, ltpValue: 4185,
+      }),
+      expect.objectContaining({ script: 'NABIL', currentBalance: 150, ltpValue: 76500 }),
+    ]);
+    expect(holdings.filter((h) => h.account === 'Sita').map((h) => h.script)).toEqual(['NABIL']);
+    expect(finalStatuses(events)).toEqual({ Ram: 'success', Sita: 'success', Hari: 'success' });
+    const statuses = ofType(events, 'account_status').map((e) => e.data);
+    expect(statuses.find((s) => s.account === 'Hari' && s.status === 'success')?.message).toBe('No holdings');
+    expect(ofType(events, 'log').map((e) => e.message)).toContain(
+      'Family portfolio: 2 script(s) across 2 account(s) worth Rs 1,06,185 at LTP',
+    );
+    expect(events.at(-1)).toEqual({ type: 'done' });
+  });
+
+  test('a portfolio read that fails with 503 is retried', async ({ mock }) => {
+    mock.setScenarios(Ram.username, 'flaky_records');
+
+    const events = await collect((emit) => run.portfolio([{ name: 'Ram', cred: Ram }], emit));
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'success' });
+    expect(ofType(events, 'holding')).toHaveLength(2);
+    const retries = ofType(events, 'log').map((e) => e.message).filter((m) => m.includes('↻'));
+    expect(retries).toEqual([expect.stringMatching(/^\[Ram\] ↻ Loading My Portfolio failed \(.*503.*\)/)]);
+  });
+});
@@ -0,0 +1,47 @@
+import { test, expect, describeEngines, collect, ofType } from './harness';
+import { MOCK_CREDENTIALS, MOCK_ISSUES } from '../mock-meroshare/data';
+import { ENGINES } from '../../server/engines';
+import { findArtifact } from '../../server/artifacts';
+import { listReceipts, receiptsZip } from '../../server/receipts';
+
+const { Ram, Sita } = MOCK_CREDENTIALS;
+
+describeEngines('artifacts and receipts', (engine) => {
+  const run = ENGINES[engine];
+
+  test('a failed apply saves a screenshot and the page HTML with the job', async ({ mock, dataDir }) => {
+    mock.setScenarios(Ram.username, 'pin_rejected');
+    const events = await collect((emit) =>
+      run.apply('Ram', Ram, '701', MOCK_ISSUES.hydro, '10', Ram.TPIN, emit, { jobId: 'artifact-job' }),
+    );
+
+    const artifacts = ofType(events, 'artifact').map((e) => e.data);
+    // The API engine has no page to capture
+    expect(artifacts.map((a) => a.kind)).toEqual(engine === 'browser' ? ['screenshot', 'html'] : []);
+    for (const artifact of artifacts) {
+      expect(artifact.account).toBe('Ram');
+      expect(findArtifact('artifact-job', artifact.name)).not.toBeNull();
+    }
+  });
+
+  test('each submitted application leaves a receipt with the job', async ({ mock, dataDir }) => {
+    mock.setScenarios(Sita.username, 'pin_rejected');
+    const entries = [{ name: 'Ram', cred: Ram }, { name: 'Sita', cred: Sita }];
+    const pins = { Ram: Ram.TPIN, Sita: Sita.TPIN };
+    const events = await collect((emit) =>
+      run.bulkApply(entries, '701', MOCK_ISSUES.hydro, '20', '', pins, emit, { jobId: 'receipt-job' }),
+    );
+
+    const receipts = Object.fromEntries(ofType(events, 'receipt').map((e) => [e.data.account, e.data]));
+    expect(receipts.Ram).toMatchObject({
+      companyName: MOCK_ISSUES.hydro, appliedKitta: 20, amount: 2000, outcome: 'success', bank: expect.any(String),
+    });
+    expect(receipts.Sita.outcome).toBe('invalid_pin');
+    expect(receipts.Ram.screenshot === undefined).toBe(engine === 'api');
+    expect(listReceipts('receipt-job')).toHaveLength(2);
+
+    const zip = receiptsZip('receipt-job')!;
+    expect(zip.subarray(0, 4).toString('hex')).toBe('504b0304');
+    expect(zip.includes('receipts.csv')).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { test, expect, describeEngines, collect, ofType, addApplications } from './harness';
+import { MOCK_CREDENTIALS } from '../mock-meroshare/data';
+import { ENGINES } from '../../server/engines';
+import { renderReportExport } from '../../server/report-export';
+
+const { Ram } = MOCK_CREDENTIALS;
+
+describeEngines('report export', (engine) => {
+  const run = ENGINES[engine];
+
+  test('the Application Report export walks every page and reads each entry\'s details', async ({ mock }) => {
+    addApplications(mock, Ram.username, 23);
+    const events = await collect((emit) => run.exportReports('Ram', Ram, emit));
+
+    const records = ofType(events, 'report_record').map((e) => e.data);
+    expect(records).toHaveLength(25);
+    expect(new Set(records.map((r) => r.companyName)).size).toBe(25);
+    expect(records.at(-1)).toMatchObject({
+      account: 'Ram',
+      companyName: 'MADHYA BHOTEKOSHI POWER LIMITED',
+      shareType: 'IPO',
+      subGroup: 'For General Public',
+      appliedDate: '2026-08-11',
+      appliedKitta: 10,
+      amount: 1000,
+      status: 'Not Alloted',
+      remarks: 'Not Alloted',
+      receivedKitta: 0,
+    });
+    expect(events.at(-1)).toEqual({ type: 'done' });
+
+    const csv = renderReportExport(records, 'csv').data as string;
+    const lines = csv.trim().split('\n');
+    expect(lines[0]).toBe('Account,Company,Scrip,Share Type,Sub Group,Applied Date,Applied Kitta,Amount,Status,Remarks,Received Kitta');
+    expect(lines).toHaveLength(26);
+    const xlsx = renderReportExport(records, 'xlsx').data as Buffer;
+    expect(xlsx.subarray(0, 4).toString('hex')).toBe('504b0304');
+    expect(JSON.parse(renderReportExport(records, 'json').data as string)).toEqual(records);
+  });
+});
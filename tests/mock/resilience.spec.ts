@@ -0,0 +1,61 @@
+import { test, expect, describeEngines, collect, ofType, finalStatuses } from './harness';
+import { MOCK_CREDENTIALS, MOCK_ISSUES } from '../mock-meroshare/data';
+import { ENGINES } from '../../server/engines';
+
+const { Ram, Hari } = MOCK_CREDENTIALS;
+
+describeEngines('slow and failing responses', (engine) => {
+  const run = ENGINES[engine];
+
+  test('slow responses still complete', async ({ mock }) => {
+    mock.state.slowMs = 200;
+    mock.setScenarios('*', 'slow');
+
+    const started = Date.now();
+    const events = await collect((emit) => run.scan('Ram', Ram, emit));
+
+    expect(ofType(events, 'issue')).toHaveLength(3);
+    expect(events.at(-1)).toEqual({ type: 'done' });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(200);
+  });
+
+  test('a login and issue list that fail once with 503 are retried', async ({ mock }) => {
+    mock.setScenarios(Ram.username, 'flaky');
+
+    const events = await collect((emit) => run.scan('Ram', Ram, emit));
+
+    expect(ofType(events, 'error')).toEqual([]);
+    expect(ofType(events, 'issue')).toHaveLength(3);
+    const retries = ofType(events, 'log').map((e) => e.message).filter((m) => m.startsWith('↻'));
+    expect(retries).toEqual([
+      expect.stringMatching(/^↻ Login failed \(.*503.*\) — retrying in .* \(attempt 2 of 3\)$/),
+      expect.stringMatching(/^↻ Loading the issue list failed \(.*503.*\)/),
+    ]);
+    expect(mock.state.logins).toBe(1);
+  });
+
+  test('bulk apply retries transient failures but not a wrong password', async ({ mock }) => {
+    mock.setScenarios(Ram.username, 'flaky');
+    mock.setScenarios(Hari.username, 'wrong_password');
+
+    const entries = [{ name: 'Ram', cred: Ram }, { name: 'Hari', cred: Hari }];
+    const events = await collect((emit) =>
+      run.bulkApply(entries, '701', MOCK_ISSUES.hydro, '10', '', { Ram: Ram.TPIN, Hari: Hari.TPIN }, emit),
+    );
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'success', Hari: 'login_failed' });
+    const retried = ofType(events, 'log').filter((e) => e.message.includes('↻')).map((e) => e.message);
+    expect(retried.some((m) => m.startsWith('[Ram] '))).toBe(true);
+    expect(retried.some((m) => m.startsWith('[Hari] '))).toBe(false);
+    expect(mock.state.users[0].applications.filter((a) => a.companyName === MOCK_ISSUES.hydro)).toHaveLength(1);
+  });
+
+  test('maintenance fails the run with an error', async ({ mock }) => {
+    mock.setScenarios('*', 'maintenance');
+
+    const events = await collect((emit) => run.scan('Ram', Ram, emit));
+
+    expect(ofType(events, 'issue')).toEqual([]);
+    expect(ofType(events, 'error')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,72 @@
+import { test, expect, describeEngines, collect, ofType, finalStatuses } from './harness';
+import { MOCK_CREDENTIALS, MOCK_ISSUES } from '../mock-meroshare/data';
+import { ENGINES } from '../../server/engines';
+
+const { Ram, Sita, Hari } = MOCK_CREDENTIALS;
+
+describeEngines('scan', (engine) => {
+  const run = ENGINES[engine];
+
+  test('scan lists open issues and flags ones already applied for', async () => {
+    const events = await collect((emit) => run.scan('Sita', Sita, emit));
+
+    expect(ofType(events, 'error')).toEqual([]);
+    const issues = ofType(events, 'issue').map((e) => e.data);
+    expect(issues.map((i) => i.name)).toEqual([MOCK_ISSUES.hydro, MOCK_ISSUES.energy, MOCK_ISSUES.microfinance]);
+    expect(issues.find((i) => i.name === MOCK_ISSUES.hydro)).toMatchObject({ shareType: 'IPO', hasApplyButton: true });
+    expect(issues.find((i) => i.name === MOCK_ISSUES.energy)).toMatchObject({ shareType: 'FPO', hasApplyButton: false });
+    expect(events.at(-1)).toEqual({ type: 'done' });
+  });
+
+  test('scan reads price, unit limits, dates and issue manager', async () => {
+    const events = await collect((emit) => run.scan('Ram', Ram, emit));
+
+    const hydro = ofType(events, 'issue').find((e) => e.data.name === MOCK_ISSUES.hydro)?.data;
+    expect(hydro).toMatchObject({
+      pricePerUnit: 100,
+      minUnit: 10,
+      maxUnit: 5000,
+      multipleOf: 10,
+      openDate: 'Oct 14, 2026 10:00:00 AM',
+      closeDate: 'Oct 28, 2026 5:00:00 PM',
+      issueManager: 'LAXMI SUNRISE CAPITAL LIMITED',
+    });
+    const energy = ofType(events, 'issue').find((e) => e.data.name === MOCK_ISSUES.energy)?.data;
+    expect(energy?.pricePerUnit).toBe(320);
+  });
+
+  test('bulk scan reports every account\'s issues side by side', async ({ mock }) => {
+    mock.setScenarios(Hari.username, 'wrong_password');
+
+    const entries = [{ name: 'Ram', cred: Ram }, { name: 'Sita', cred: Sita }, { name: 'Hari', cred: Hari }];
+    const events = await collect((emit) => run.bulkScan(entries, emit));
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'success', Sita: 'success', Hari: 'login_failed' });
+    const issues = ofType(events, 'issue').map((e) => e.data);
+    expect(issues.filter((i) => i.account === 'Ram')).toHaveLength(3);
+    expect(issues.find((i) => i.account === 'Sita' && i.name === MOCK_ISSUES.energy)?.hasApplyButton).toBe(false);
+    // Log lines from accounts running side by side say which account they belong to
+    expect(ofType(events, 'log').some((e) => e.message.startsWith('[Sita] '))).toBe(true);
+    expect(events.at(-1)).toEqual({ type: 'done' });
+  });
+
+  test('bulk scan lines every issue up against every account it scanned', async ({ mock }) => {
+    mock.state.issues.find((i) => i.companyName === MOCK_ISSUES.microfinance)!.eligibleUsers = [Ram.username];
+    mock.setScenarios(Hari.username, 'wrong_password');
+
+    const entries = [{ name: 'Ram', cred: Ram }, { name: 'Sita', cred: Sita }, { name: 'Hari', cred: Hari }];
+    const events = await collect((emit) => run.bulkScan(entries, emit));
+
+    const [{ data: matrix }] = ofType(events, 'issue_matrix');
+    // Hari couldn't log in, so nothing is known about that account's issues
+    expect(matrix.accounts).toEqual(['Ram', 'Sita']);
+    const states = Object.fromEntries(matrix.issues.map((row) => [row.issue.name, row.states]));
+    expect(states).toEqual({
+      [MOCK_ISSUES.hydro]: { Ram: 'can_apply', Sita: 'can_apply' },
+      [MOCK_ISSUES.energy]: { Ram: 'can_apply', Sita: 'already_applied' },
+      [MOCK_ISSUES.microfinance]: { Ram: 'can_apply', Sita: 'not_listed' },
+    });
+    expect(ofType(events, 'log').map((e) => e.message)).toContain('3 issue(s) across 2 account(s) — 4 application(s) still open');
+    expect(events.at(-1)).toEqual({ type: 'done' });
+  });
+});
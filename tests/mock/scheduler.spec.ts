@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, expect, collect, ofType, finalStatuses } from './harness';
+import { MOCK_CREDENTIALS, MOCK_ISSUES } from '../mock-meroshare/data';
+import { setInMemoryCredentials } from '../../server/automation';
+import { parseCron, cronMatches, toZonedTime } from '../../server/cron';
+import {
+  findNewIssues, ruleAllows, runAutoApply, saveRules, validateSchedule, DEFAULT_CRON, SCHEDULE_TIMEZONE,
+  type AccountRule, type Schedule,
+} from '../../server/scheduler';
+
+const { Ram, Sita, Hari } = MOCK_CREDENTIALS;
+
+test.describe('cron', () => {
+  test('fields are expanded into the values they allow', () => {
+    const spec = parseCron('*/15 9-17 1,15 * 7');
+    expect([...spec.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...spec.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...spec.daysOfMonth]).toEqual([1, 15]);
+    expect(spec.months.size).toBe(12);
+    // 7 is Sunday, like 0
+    expect([...spec.daysOfWeek]).toEqual([0]);
+  });
+
+  test('malformed expressions are rejected with a readable message', () => {
+    expect(() => parseCron('0 10 * *')).toThrow('must have 5 fields');
+    expect(() => parseCron('60 10 * * *')).toThrow('Invalid minute field "60" (allowed 0-59)');
+    expect(() => parseCron('0 10 * * mon')).toThrow('Invalid day of week field');
+  });
+
+  test('the default schedule runs at 10:00 Nepal time, Sunday to Friday', () => {
+    const spec = parseCron(DEFAULT_CRON);
+    // 04:15 UTC is 10:00 in Nepal (UTC+5:45); 18 Oct 2026 is a Sunday
+    const sunday = toZonedTime(new Date('2026-10-18T04:15:00Z'), SCHEDULE_TIMEZONE);
+    expect(sunday).toEqual({ minute: 0, hour: 10, day: 18, month: 10, weekday: 0 });
+    expect(cronMatches(spec, sunday)).toBe(true);
+    expect(cronMatches(spec, { ...sunday, minute: 1 })).toBe(false);
+    expect(cronMatches(spec, { ...sunday, day: 24, weekday: 6 })).toBe(false);
+  });
+
+  test('when both day fields are restricted, either one matching is enough', () => {
+    const spec = parseCron('0 10 1 * 5');
+    expect(cronMatches(spec, { minute: 0, hour: 10, day: 1, month: 10, weekday: 4 })).toBe(true);
+    expect(cronMatches(spec, { minute: 0, hour: 10, day: 16, month: 10, weekday: 5 })).toBe(true);
+    expect(cronMatches(spec, { minute: 0, hour: 10, day: 15, month: 10, weekday: 4 })).toBe(false);
+  });
+});
+
+test.describe('auto-apply rules', () => {
+  const issue = {
+    id: '701', name: MOCK_ISSUES.hydro, subGroup: 'For General Public', shareType: 'IPO', shareGroup: 'Ordinary Shares',
+    hasApplyButton: true, pricePerUnit: 100, minUnit: 10, maxUnit: 5000, multipleOf: 10,
+  };
+  const rule: AccountRule = { enabled: true, shareTypes: [], defaultKitta: 10, maxAmount: null };
+
+  test('only issues missing from the seen list are new', () => {
+    const energy = { ...issue, id: '702', name: MOCK_ISSUES.energy, shareType: 'FPO' };
+    const seen = new Set([`${MOCK_ISSUES.hydro}|IPO|Ordinary Shares`.toLowerCase()]);
+    expect(findNewIssues([issue, energy], seen)).toEqual([energy]);
+    expect(findNewIssues([issue, energy], new Set())).toEqual([issue, energy]);
+  });
+
+  test('a rule filters by share type, kitta rules and max amount', () => {
+    expect(ruleAllows(rule, issue)).toBeNull();
+    expect(ruleAllows({ ...rule, shareTypes: ['ipo'] }, issue)).toBeNull();
+    expect(ruleAllows({ ...rule, shareTypes: ['FPO'] }, issue)).toBe('share type IPO not in [FPO]');
+    expect(ruleAllows({ ...rule, defaultKitta: 15 }, issue)).toContain('not a multiple of 10');
+    expect(ruleAllows({ ...rule, defaultKitta: 20, maxAmount: 1500 }, issue)).toBe('Rs 2000 exceeds max amount Rs 1500');
+    // With no price read, the issue is assumed to be at Rs 100 face value
+    expect(ruleAllows({ ...rule, defaultKitta: 20, maxAmount: 1500 }, { ...issue, pricePerUnit: undefined })).toBe(
+      'Rs 2000 exceeds max amount Rs 1500',
+    );
+  });
+
+  test('a schedule\'s "enabled" must be a boolean', () => {
+    const schedule = { name: 'Daily', scanAccount: 'Ram', cron: DEFAULT_CRON };
+    expect(validateSchedule({ ...schedule, enabled: false })).toBeNull();
+    expect(validateSchedule({ ...schedule, enabled: 'no' as any })).toBe('"enabled" must be true or false');
+  });
+});
+
+test.describe('scheduled auto-apply against mock Meroshare', () => {
+  const schedule: Schedule = {
+    id: 'test-schedule', name: 'Test', cron: DEFAULT_CRON, enabled: true, scanAccount: 'Sita', createdAt: '', lastRunAt: null,
+  };
+
+  test.beforeEach(() => {
+    setInMemoryCredentials({ Ram, Sita, Hari });
+  });
+
+  test.afterEach(() => {
+    setInMemoryCredentials({});
+  });
+
+  function seenIssues(dataDir: string): string[] {
+    return JSON.parse(fs.readFileSync(path.join(dataDir, 'seen-issues.json'), 'utf-8'));
+  }
+
+  test('each account applies by its own state, not the scan account\'s', async ({ mock, dataDir }) => {
+    const rule: AccountRule = { enabled: true, shareTypes: ['FPO'], defaultKitta: 10, maxAmount: null };
+    saveRules({ Ram: rule, Sita: rule });
+
+    // Sita, the scan account, already applied for the FPO — Ram hasn't
+    const events = await collect((emit) => runAutoApply(schedule, 'api', emit, new AbortController().signal, 'auto-job'));
+
+    expect(finalStatuses(events)).toEqual({ Sita: 'already_applied', Ram: 'success' });
+    expect(mock.state.users[0].applications[0].companyName).toBe(MOCK_ISSUES.energy);
+    expect(seenIssues(dataDir)).toHaveLength(3);
+    expect(events.at(-1)).toEqual({ type: 'done' });
+  });
+
+  test('an issue an account failed to apply for is tried again on the next run', async ({ mock, dataDir }) => {
+    const rule: AccountRule = { enabled: true, shareTypes: ['FPO'], defaultKitta: 10, maxAmount: null };
+    saveRules({ Ram: rule, Sita: rule });
+    mock.setScenarios(Ram.username, 'maintenance');
+
+    const first = await collect((emit) => runAutoApply(schedule, 'api', emit, new AbortController().signal, 'auto-job-1'));
+
+    expect(ofType(first, 'log').map((e) => e.message)).toContain(`"${MOCK_ISSUES.energy}" will be tried again on the next run for Ram`);
+    // Left out by the rule for everyone, so those are done with
+    expect(seenIssues(dataDir)).toHaveLength(2);
+
+    mock.setScenarios(Ram.username);
+    const second = await collect((emit) => runAutoApply(schedule, 'api', emit, new AbortController().signal, 'auto-job-2'));
+
+    expect(ofType(second, 'log').map((e) => e.message)).toContain('1 new issue(s) since the last scheduled run');
+    expect(mock.state.users[0].applications[0].companyName).toBe(MOCK_ISSUES.energy);
+    expect(seenIssues(dataDir)).toHaveLength(3);
+  });
+
+  test('an account whose application was refused is not applied for again on the next run', async ({ mock, dataDir }) => {
+    const rule: AccountRule = { enabled: true, shareTypes: ['FPO'], defaultKitta: 10, maxAmount: null };
+    saveRules({ Ram: rule, Sita: rule, Hari: rule });
+    mock.setScenarios(Ram.username, 'pin_rejected');
+    mock.setScenarios(Hari.username, 'maintenance');
+
+    const first = await collect((emit) => runAutoApply(schedule, 'api', emit, new AbortController().signal, 'auto-job-1'));
+
+    const logs = ofType(first, 'log').map((e) => e.message);
+    expect(logs).toContainEqual(expect.stringContaining(`"${MOCK_ISSUES.energy}" won't be tried again for Ram: Transaction PIN rejected`));
+    expect(logs).toContain(`"${MOCK_ISSUES.energy}" will be tried again on the next run for Hari`);
+
+    mock.setScenarios(Ram.username);
+    mock.setScenarios(Hari.username);
+    const second = await collect((emit) => runAutoApply(schedule, 'api', emit, new AbortController().signal, 'auto-job-2'));
+
+    // Ram's PIN isn't sent again, and Sita already applied
+    expect(finalStatuses(second)).toEqual({ Hari: 'success' });
+    expect(mock.state.users[0].applications.some((a) => a.companyName === MOCK_ISSUES.energy)).toBe(false);
+    expect(seenIssues(dataDir)).toHaveLength(3);
+    expect(JSON.parse(fs.readFileSync(path.join(dataDir, 'settled-accounts.json'), 'utf-8'))).toEqual({});
+  });
+});
@@ -0,0 +1,40 @@
+import { test, expect, describeEngines, collect, ofType } from './harness';
+import { MOCK_CREDENTIALS } from '../mock-meroshare/data';
+import { ENGINES } from '../../server/engines';
+
+const { Ram } = MOCK_CREDENTIALS;
+
+describeEngines('sessions', (engine) => {
+  const run = ENGINES[engine];
+
+  test('the next job reuses the saved session instead of logging in again', async ({ mock }) => {
+    await collect((emit) => run.scan('Ram', Ram, emit));
+    const second = await collect((emit) => run.scan('Ram', Ram, emit));
+
+    expect(mock.state.logins).toBe(1);
+    expect(ofType(second, 'log').map((e) => e.message)).toContain(`Reusing saved session for "${Ram.username}"`);
+    expect(ofType(second, 'issue')).toHaveLength(3);
+  });
+
+  test('a session is not reused once the password changed', async ({ mock }) => {
+    await collect((emit) => run.scan('Ram', Ram, emit));
+
+    const events = await collect((emit) => run.scan('Ram', { ...Ram, password: 'changed-password' }, emit));
+
+    expect(ofType(events, 'log').map((e) => e.message)).not.toContain(`Reusing saved session for "${Ram.username}"`);
+    expect(ofType(events, 'issue')).toHaveLength(0);
+    expect(mock.state.logins).toBe(1);
+  });
+
+  test('an expired session is replaced by a fresh login', async ({ mock }) => {
+    await collect((emit) => run.scan('Ram', Ram, emit));
+    mock.state.sessions.clear();
+
+    const events = await collect((emit) => run.scan('Ram', Ram, emit));
+
+    expect(mock.state.logins).toBe(2);
+    expect(ofType(events, 'log').map((e) => e.message)).toContain('Saved session expired — logging in again');
+    expect(ofType(events, 'issue')).toHaveLength(3);
+    expect(events.at(-1)).toEqual({ type: 'done' });
+  });
+});
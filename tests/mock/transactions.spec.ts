@@ -0,0 +1,73 @@
+import { test, expect, describeEngines, collect, ofType, finalStatuses } from './harness';
+import { MOCK_CREDENTIALS } from '../mock-meroshare/data';
+import { ENGINES } from '../../server/engines';
+import { loadTransactionHistory, calculateWacc } from '../../server/transactions';
+
+const { Ram, Sita, Hari } = MOCK_CREDENTIALS;
+
+describeEngines('transaction history', (engine) => {
+  const run = ENGINES[engine];
+
+  test('transaction history is saved and priced into a WACC per script', async ({ dataDir }) => {
+    const entries = [{ name: 'Ram', cred: Ram }, { name: 'Sita', cred: Sita }, { name: 'Hari', cred: Hari }];
+    const events = await collect((emit) => run.transactions(entries, emit));
+
+    const wacc = ofType(events, 'wacc').map((e) => e.data);
+    // 120 bought at Rs 600, 20 sold, then 50 bonus shares at no cost; 10 allotted in the IPO at Rs 100
+    expect(wacc.filter((w) => w.account === 'Ram')).toEqual([
+      { account: 'Ram', script: 'ACL', quantity: 10, totalCost: 1000, averageCost: 100, unpricedQuantity: 0 },
+      { account: 'Ram', script: 'NABIL', quantity: 150, totalCost: 60000, averageCost: 400, unpricedQuantity: 0 },
+    ]);
+    // The second purchase isn't in My Purchase Source, so it is left out of the average
+    expect(wacc.find((w) => w.account === 'Sita')).toMatchObject({
+      script: 'NABIL', quantity: 50, averageCost: 520, unpricedQuantity: 20,
+    });
+    expect(finalStatuses(events)).toEqual({ Ram: 'success', Sita: 'success', Hari: 'success' });
+
+    const saved = loadTransactionHistory('Ram')!;
+    expect(saved.transactions.map((t) => [t.date, t.script, t.credit, t.debit])).toEqual([
+      ['2026-03-10', 'NABIL', 120, 0],
+      ['2026-05-04', 'NABIL', 0, 20],
+      ['2026-07-21', 'NABIL', 50, 0],
+      ['2026-09-20', 'ACL', 10, 0],
+    ]);
+    expect(saved.purchases).toHaveLength(2);
+    expect(loadTransactionHistory('Hari')!.transactions).toEqual([]);
+  });
+
+  test('history and purchase source reads that fail with 503 are retried', async ({ mock, dataDir }) => {
+    mock.setScenarios(Ram.username, 'flaky_records');
+
+    const events = await collect((emit) => run.transactions([{ name: 'Ram', cred: Ram }], emit));
+
+    expect(finalStatuses(events)).toEqual({ Ram: 'success' });
+    const retries = ofType(events, 'log').map((e) => e.message).filter((m) => m.includes('↻'));
+    // My Purchase Source is one endpoint for every script, so only the first script's read fails
+    expect(retries).toEqual([
+      expect.stringMatching(/^\[Ram\] ↻ Loading the transaction history failed \(.*503.*\)/),
+      expect.stringMatching(/^\[Ram\] ↻ Loading the transaction history failed \(.*503.*\)/),
+    ]);
+    expect(loadTransactionHistory('Ram')!.purchases).toHaveLength(2);
+  });
+});
+
+test.describe('WACC', () => {
+  test('a sale from a partly priced lot takes whole units from each part', () => {
+    const wacc = calculateWacc({
+      account: 'Ram',
+      importedAt: '2026-10-01T00:00:00.000Z',
+      transactions: [
+        { script: 'NABIL', date: '2026-03-10', credit: 10, debit: 0, description: 'ON-CR SECONDARY' },
+        { script: 'NABIL', date: '2026-04-02', credit: 5, debit: 0, description: 'ON-CR SECONDARY' },
+        { script: 'NABIL', date: '2026-05-04', credit: 0, debit: 7, description: 'ON-DR SECONDARY' },
+      ],
+      // The second purchase has no record, so its 5 units have no known cost
+      purchases: [{ script: 'NABIL', date: '2026-03-10', quantity: 10, rate: 200, source: 'SECONDARY' }],
+    });
+
+    // 7 of 15 units out: 2 of the 5 unpriced ones (7 × 5/15, rounded), 5 priced ones at the average
+    expect(wacc).toEqual([
+      { account: 'Ram', script: 'NABIL', quantity: 8, totalCost: 1000, averageCost: 200, unpricedQuantity: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,216 @@
+import { useState, useEffect } from 'react';
+import type { Account, AccountStatus, AllotmentResult, AutomationEngine } from './types';
+import { authFetch, readSSEStream } from './api';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function AllotmentBadge({ status }: { status: AllotmentResult['status'] }) {
+  const map: Record<AllotmentResult['status'], { cls: string; label: string }> = {
+    allotted: { cls: 'badge badge-green', label: 'Allotted' },
+    not_allotted: { cls: 'badge badge-red', label: 'Not Allotted' },
+    pending: { cls: 'badge badge-yellow', label: 'Awaiting Result' },
+    not_applied: { cls: 'badge badge-gray', label: 'Not Applied' },
+  };
+  const entry = map[status];
+  return <span className={entry.cls}>{entry.label}</span>;
+}
+
+/** e.g. "2 of 3 applied accounts allotted · 20 kitta" */
+function describeTotals(results: AllotmentResult[]): string {
+  const applied = results.filter((r) => r.status !== 'not_applied');
+  const allotted = applied.filter((r) => r.status === 'allotted');
+  const kitta = allotted.reduce((sum, r) => sum + (r.allottedKitta ?? 0), 0);
+  return `${allotted.length} of ${applied.length} applied account${applied.length !== 1 ? 's' : ''} allotted · ${kitta.toLocaleString()} kitta`;
+}
+
+// ── Component ─────────────────────────────────────────────────────────────────
+
+interface Props {
+  accounts: Account[];
+  engine: AutomationEngine | null;
+}
+
+/** Checks one company's allotment result on every selected account and sums it up for the family */
+export default function AllotmentPanel({ accounts, engine }: Props) {
+  const [collapsed, setCollapsed] = useState(true);
+  const [companyName, setCompanyName] = useState('');
+  const [selectedAccounts, setSelectedAccounts] = useState<string[]>([]);
+  const [running, setRunning] = useState(false);
+  const [results, setResults] = useState<AllotmentResult[]>([]);
+  const [statuses, setStatuses] = useState<AccountStatus[]>([]);
+  const [checkedAccounts, setCheckedAccounts] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Every account is selected whenever the list changes
+  useEffect(() => {
+    setSelectedAccounts(accounts.map((a) => a.name));
+  }, [accounts]);
+
+  const toggleAccount = (name: string) => {
+    setSelectedAccounts((prev) => (prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name]));
+  };
+
+  const toggleAll = () => {
+    setSelectedAccounts((prev) => (prev.length === accounts.length ? [] : accounts.map((a) => a.name)));
+  };
+
+  const handleCheck = async () => {
+    setRunning(true);
+    setResults([]);
+    setStatuses([]);
+    setError(null);
+    setCheckedAccounts(selectedAccounts);
+
+    try {
+      const res = await authFetch('/api/allotment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accounts: selectedAccounts, companyName: companyName.trim(), ...(engine ? { engine } : {}) }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({ error: 'Unknown error' }));
+        setError(body.error || `HTTP ${res.status}`);
+        setRunning(false);
+        return;
+      }
+
+      readSSEStream(
+        res,
+        (event) => {
+          switch (event.type) {
+            case 'allotment':
+              setResults((prev) => [...prev.filter((r) => r.account !== event.data.account), event.data]);
+              break;
+            case 'account_status':
+              setStatuses((prev) => [...prev.filter((s) => s.account !== event.data.account), event.data]);
+              break;
+            case 'error':
+              setError(event.message);
+              break;
+          }
+        },
+        () => setRunning(false),
+        (msg) => setError(msg),
+      );
+    } catch (err: any) {
+      setError(err.message || 'Network error');
+      setRunning(false);
+    }
+  };
+
+  // ── Render ─────────────────────────────────────────────────────────────
+
+  return (
+    <div className="cred-manager">
+      <div className="cred-header" onClick={() => setCollapsed(!collapsed)}>
+        <div className="cred-header-left">
+          <h2>Allotment Results</h2>
+          {!collapsed && results.length > 0 && <span className="cred-count">{describeTotals(results)}</span>}
+        </div>
+        <button className="cred-collapse-btn" title={collapsed ? 'Expand' : 'Collapse'}>
+          {collapsed ? '▸' : '▾'}
+        </button>
+      </div>
+
+      {!collapsed && (
+        <div className="cred-content">
+          <p className="schedule-hint">
+            Logs into each selected account and reads the company's entry in the Application Report to see whether
+            units were allotted, and how many.
+          </p>
+
+          <div className="bulk-accounts-section">
+            <div className="bulk-accounts-header">
+              <h3>Select Accounts</h3>
+              <button className="toggle-all-btn" onClick={toggleAll} disabled={running}>
+                {selectedAccounts.length === accounts.length ? 'Deselect All' : 'Select All'}
+              </button>
+            </div>
+            <div className="bulk-accounts-list">
+              {accounts.map((a) => (
+                <div key={a.name} className="bulk-account-item">
+                  <label className="bulk-account-left">
+                    <input
+                      type="checkbox"
+                      checked={selectedAccounts.includes(a.name)}
+                      onChange={() => toggleAccount(a.name)}
+                      disabled={running}
+                    />
+                    <span className="bulk-account-name">{a.name}</span>
+                    <span className="bulk-account-username">({a.username})</span>
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="schedule-form">
+            <div className="control-group">
+              <label htmlFor="allotment-company">Company</label>
+              <input
+                id="allotment-company"
+                type="text"
+                placeholder="e.g. Annapurna Cement Limited"
+                value={companyName}
+                onChange={(e) => setCompanyName(e.target.value)}
+                disabled={running}
+              />
+            </div>
+            <button
+              className="run-btn"
+              onClick={handleCheck}
+              disabled={running || !companyName.trim() || selectedAccounts.length === 0}
+            >
+              {running ? 'Checking...' : 'Check Allotment'}
+            </button>
+          </div>
+
+          {error && <div className="error-banner">{error}</div>}
+
+          {checkedAccounts.length > 0 && (
+            <table className="results-table allotment-table">
+              <thead>
+                <tr>
+                  <th>Account</th>
+                  <th>Result</th>
+                  <th>Applied</th>
+                  <th>Allotted</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {checkedAccounts.map((name) => {
+                  const result = results.find((r) => r.account === name);
+                  const status = statuses.find((s) => s.account === name);
+                  const failed = status?.status === 'error' || status?.status === 'login_failed';
+                  return (
+                    <tr key={name}>
+                      <td>{name}</td>
+                      <td>
+                        {result ? <AllotmentBadge status={result.status} /> : (
+                          <span className={failed ? 'badge badge-red' : 'badge badge-gray'}>
+                            {failed ? 'Failed' : running ? 'Checking' : '—'}
+                          </span>
+                        )}
+                      </td>
+                      <td>{result?.appliedKitta ?? '—'}</td>
+                      <td>{result?.allottedKitta ?? '—'}</td>
+                      <td className="remarks-cell">{result?.message ?? status?.message ?? ''}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              {results.length > 0 && (
+                <tfoot>
+                  <tr>
+                    <td colSpan={5}>Family total: {describeTotals(results)}</td>
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,39 +1,18 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { Account, AutomationEvent, ReportRow, IssueRow, AccountStatus, CredentialsMap } from './types';
+import type {
+  Account, ReportRow, IssueRow, IssueMatrix, IssueAccountState, AccountStatus, CredentialsMap, JobUpdate, AutomationEngine,
+  ReportExportFormat,
+} from './types';
 import CredentialManager, { loadCredentials } from './CredentialManager';
-
-// ── Auth helpers ──────────────────────────────────────────────────────────────
-
-const AUTH_TOKEN_KEY = 'meroshare_auth_token';
-
-function getAuthToken(): string | null {
-  return localStorage.getItem(AUTH_TOKEN_KEY);
-}
-
-function setAuthToken(token: string) {
-  localStorage.setItem(AUTH_TOKEN_KEY, token);
-}
-
-function clearAuthToken() {
-  localStorage.removeItem(AUTH_TOKEN_KEY);
-}
-
-function authHeaders(extra: Record<string, string> = {}): Record<string, string> {
-  const token = getAuthToken();
-  const headers: Record<string, string> = { ...extra };
-  if (token) headers['Authorization'] = `Bearer ${token}`;
-  return headers;
-}
-
-function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
-  return fetch(url, {
-    ...init,
-    headers: {
-      ...authHeaders(),
-      ...(init.headers as Record<string, string> || {}),
-    },
-  });
-}
+import JobQueue from './JobQueue';
+import SchedulePanel from './SchedulePanel';
+import AllotmentPanel from './AllotmentPanel';
+import PortfolioPanel from './PortfolioPanel';
+import WaccPanel from './WaccPanel';
+import FailureArtifacts, { type JobArtifact } from './FailureArtifacts';
+import {
+  authHeaders, authFetch, setAuthToken, clearAuthToken, readSSEStream, getEnginePreference, setEnginePreference, downloadFile,
+} from './api';
 
 // ── Login screen ──────────────────────────────────────────────────────────────
 
@@ -110,55 +89,45 @@ function AccountStatusBadge({ status }: { status: AccountStatus['status'] }) {
     success: { cls: 'badge badge-green', label: 'Success' },
     error: { cls: 'badge badge-red', label: 'Error' },
     login_failed: { cls: 'badge badge-red', label: 'Login Failed' },
+    cancelled: { cls: 'badge badge-gray', label: 'Cancelled' },
+    would_apply: { cls: 'badge badge-blue', label: 'Would Apply' },
+    unconfirmed: { cls: 'badge badge-yellow', label: 'Check Meroshare' },
   };
   const entry = map[status] || map.pending;
   return <span className={entry.cls}>{entry.label}</span>;
 }
 
-/** Generic SSE reader */
-function readSSEStream(
-  res: Response,
-  onEvent: (event: AutomationEvent) => void,
-  onDone: () => void,
-  onError: (msg: string) => void,
-) {
-  const reader = res.body?.getReader();
-  if (!reader) {
-    onError('No response body');
-    onDone();
-    return;
-  }
+/** Log line for a job that is waiting behind others in the server queue */
+function describeQueuedJob(update: JobUpdate): string | null {
+  if (update.status !== 'queued' || update.position === 0) return null;
+  const ahead = update.position - 1;
+  return ahead === 0
+    ? 'Queued — starting after the current job finishes...'
+    : `Queued — ${ahead} job${ahead !== 1 ? 's' : ''} ahead of this one...`;
+}
 
-  const decoder = new TextDecoder();
-  let buffer = '';
+/** e.g. "10–5,000 kitta, multiples of 10 · Rs 100/unit"; null if the scan didn't read the limits */
+function describeUnits(issue: IssueRow): string | null {
+  const parts: string[] = [];
+  if (issue.minUnit !== undefined && issue.maxUnit !== undefined) {
+    let units = `${issue.minUnit.toLocaleString()}–${issue.maxUnit.toLocaleString()} kitta`;
+    if (issue.multipleOf && issue.multipleOf > 1) units += `, multiples of ${issue.multipleOf}`;
+    parts.push(units);
+  }
+  if (issue.pricePerUnit !== undefined) parts.push(`Rs ${issue.pricePerUnit.toLocaleString()}/unit`);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
 
-  (async () => {
-    try {
-      while (true) {
-        const { done: readerDone, value } = await reader.read();
-        if (readerDone) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const event: AutomationEvent = JSON.parse(line.slice(6));
-              onEvent(event);
-            } catch {
-              /* ignore parse errors */
-            }
-          }
-        }
-      }
-    } catch (e: any) {
-      onError(e.message);
-    } finally {
-      onDone();
-    }
-  })();
+/** One cell of the family scan grid */
+function matrixBadge(state: IssueAccountState) {
+  switch (state) {
+    case 'can_apply':
+      return <span className="badge badge-green">Can Apply</span>;
+    case 'already_applied':
+      return <span className="badge badge-yellow" title="Listed without an Apply button — already applied, or the window closed">Already Applied</span>;
+    case 'not_listed':
+      return <span className="badge badge-gray" title="Meroshare doesn't list this issue for the account, e.g. a reserved quota">Not Listed</span>;
+  }
 }
 
 // ── Auth wrapper ──────────────────────────────────────────────────────────────
@@ -186,34 +155,48 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
   const [logs, setLogs] = useState<string[]>([]);
   const [reports, setReports] = useState<ReportRow[]>([]);
   const [issues, setIssues] = useState<IssueRow[]>([]);
+  const [matrix, setMatrix] = useState<IssueMatrix | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [done, setDone] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [engine, setEngine] = useState<AutomationEngine | null>(getEnginePreference);
   const logRef = useRef<HTMLDivElement>(null);
 
   // ── Single-apply modal state ─────────────────────────────────────────────
-  const [applyTarget, setApplyTarget] = useState<{ index: number; name: string } | null>(null);
+  const [applyTarget, setApplyTarget] = useState<IssueRow | null>(null);
   const [appliedKitta, setAppliedKitta] = useState('');
   const [transactionPIN, setTransactionPIN] = useState('');
+  const [applyDryRun, setApplyDryRun] = useState(false);
   const [applyRunning, setApplyRunning] = useState(false);
   const [applyLogs, setApplyLogs] = useState<string[]>([]);
   const [applySuccess, setApplySuccess] = useState<string | null>(null);
   const [applyError, setApplyError] = useState<string | null>(null);
+  const [applyArtifacts, setApplyArtifacts] = useState<JobArtifact[]>([]);
   const applyLogRef = useRef<HTMLDivElement>(null);
 
   // ── Bulk-apply modal state ───────────────────────────────────────────────
-  const [bulkTarget, setBulkTarget] = useState<{ name: string } | null>(null);
+  const [bulkTarget, setBulkTarget] = useState<IssueRow | null>(null);
   const [bulkSelectedAccounts, setBulkSelectedAccounts] = useState<string[]>([]);
   const [bulkKitta, setBulkKitta] = useState('');
   const [bulkPIN, setBulkPIN] = useState('');
+  const [bulkDryRun, setBulkDryRun] = useState(false);
   const [bulkAccountPINs, setBulkAccountPINs] = useState<Record<string, string>>({});
   const [bulkRunning, setBulkRunning] = useState(false);
   const [bulkLogs, setBulkLogs] = useState<string[]>([]);
   const [bulkStatuses, setBulkStatuses] = useState<AccountStatus[]>([]);
   const [bulkError, setBulkError] = useState<string | null>(null);
   const [bulkDone, setBulkDone] = useState(false);
+  const [bulkJobId, setBulkJobId] = useState<string | null>(null);
+  const [bulkStopping, setBulkStopping] = useState(false);
+  const [bulkArtifacts, setBulkArtifacts] = useState<JobArtifact[]>([]);
+  /** Receipts saved per bulk job — a retry of failed accounts is a job of its own */
+  const [bulkReceipts, setBulkReceipts] = useState<Record<string, number>>({});
   const bulkLogRef = useRef<HTMLDivElement>(null);
 
+  // Application Report export
+  const [exportFormat, setExportFormat] = useState<ReportExportFormat>('csv');
+  const [exporting, setExporting] = useState(false);
+
   const anyRunning = running || applyRunning || bulkRunning;
 
   // ── Sync credentials from localStorage to server ──────────────────────────
@@ -282,22 +265,27 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
 
   // ── Scan for open issues ────────────────────────────────────────────────
 
-  const handleScan = () => {
-    if (!selected || anyRunning) return;
+  /** Scan the selected account, or every account for the family matrix */
+  const handleScan = (family = false) => {
+    if (anyRunning || (family ? accounts.length === 0 : !selected)) return;
 
     setRunning(true);
     setLogs([]);
     setReports([]);
     setIssues([]);
+    setMatrix(null);
     setError(null);
     setDone(false);
     setApplyTarget(null);
     setBulkTarget(null);
 
-    authFetch('/api/scan', {
+    authFetch(family ? '/api/bulk-scan' : '/api/scan', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ account: selected }),
+      body: JSON.stringify({
+        ...(family ? { accounts: accounts.map((a) => a.name) } : { account: selected }),
+        engine: engine ?? undefined,
+      }),
     }).then(async (res) => {
       if (!res.ok) {
         const body = await res.json().catch(() => ({ error: 'Unknown error' }));
@@ -314,12 +302,27 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
               setLogs((prev) => [...prev, event.message]);
               break;
             case 'issue':
-              setIssues((prev) => [...prev, event.data]);
+              // A family scan's issues arrive once more, lined up, in issue_matrix
+              if (!family) setIssues((prev) => [...prev, event.data]);
+              break;
+            case 'issue_matrix':
+              setMatrix(event.data);
+              break;
+            case 'account_status':
+              if (event.data.status !== 'running') setLogs((prev) => [...prev, `${event.data.account}: ${event.data.message}`]);
+              break;
+            case 'job': {
+              const queued = describeQueuedJob(event.data);
+              if (queued) setLogs((prev) => [...prev, queued]);
               break;
+            }
             case 'done':
               setDone(true);
               setLogs((prev) => [...prev, 'Scan complete.']);
               break;
+            case 'cancelled':
+              setLogs((prev) => [...prev, `Cancelled: ${event.message}`]);
+              break;
             case 'error':
               setError(event.message);
               setLogs((prev) => [...prev, `ERROR: ${event.message}`]);
@@ -335,17 +338,33 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
     });
   };
 
+  /** Every Application Report entry of the selected account, downloaded once the export job finishes */
+  const handleExportReport = () => {
+    if (!selected || exporting) return;
+    setExporting(true);
+    setError(null);
+    const query = new URLSearchParams({ format: exportFormat, ...(engine ? { engine } : {}) });
+    downloadFile(
+      `/api/accounts/${encodeURIComponent(selected)}/reports/export?${query}`,
+      `application-report-${selected}.${exportFormat}`,
+    )
+      .catch((e) => setError(e.message))
+      .finally(() => setExporting(false));
+  };
+
   // ── Single apply ────────────────────────────────────────────────────────
 
-  const openApplyModal = (index: number, name: string) => {
-    setApplyTarget({ index, name });
-    setAppliedKitta('');
+  const openApplyModal = (issue: IssueRow) => {
+    setApplyTarget(issue);
+    setAppliedKitta(issue.minUnit !== undefined ? String(issue.minUnit) : '');
     // Pre-fill TPIN from the selected account's stored TPIN if available
     const selectedAccount = accounts.find((a) => a.name === selected);
     setTransactionPIN(selectedAccount?.tpin || '');
+    setApplyDryRun(false);
     setApplyLogs([]);
     setApplySuccess(null);
     setApplyError(null);
+    setApplyArtifacts([]);
   };
 
   const closeApplyModal = () => {
@@ -355,21 +374,26 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
 
   const handleApply = () => {
     if (!selected || !applyTarget || anyRunning) return;
-    if (!appliedKitta || !transactionPIN) return;
+    if (!appliedKitta || (!transactionPIN && !applyDryRun)) return;
 
     setApplyRunning(true);
     setApplyLogs([]);
     setApplySuccess(null);
     setApplyError(null);
+    setApplyArtifacts([]);
+    let jobId: string | null = null;
 
     authFetch('/api/apply', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         account: selected,
-        companyIndex: applyTarget.index,
+        issueId: applyTarget.id,
+        companyName: applyTarget.name,
         appliedKitta,
         transactionPIN,
+        dryRun: applyDryRun,
+        engine: engine ?? undefined,
       }),
     }).then(async (res) => {
       if (!res.ok) {
@@ -390,9 +414,29 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
               setApplySuccess(event.message);
               setApplyLogs((prev) => [...prev, event.message]);
               break;
+            case 'verification':
+              setApplyLogs((prev) => [...prev, `${event.data.result === 'verified' ? 'Verified' : 'Not verified'}: ${event.data.message}`]);
+              break;
+            case 'account_status':
+              // A dry run ends with `would_apply` instead of apply_success
+              if (event.data.status === 'would_apply') setApplySuccess(event.data.message);
+              setApplyLogs((prev) => [...prev, event.data.message]);
+              break;
+            case 'job': {
+              jobId = event.data.id;
+              const queued = describeQueuedJob(event.data);
+              if (queued) setApplyLogs((prev) => [...prev, queued]);
+              break;
+            }
+            case 'artifact':
+              if (jobId) setApplyArtifacts((prev) => [...prev, { ...event.data, jobId: jobId! }]);
+              break;
             case 'done':
               setApplyLogs((prev) => [...prev, 'Application process complete.']);
               break;
+            case 'cancelled':
+              setApplyLogs((prev) => [...prev, `Cancelled: ${event.message}`]);
+              break;
             case 'error':
               setApplyError(event.message);
               setApplyLogs((prev) => [...prev, `ERROR: ${event.message}`]);
@@ -413,11 +457,13 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
 
   // ── Bulk apply ──────────────────────────────────────────────────────────
 
-  const openBulkModal = (companyName: string) => {
-    setBulkTarget({ name: companyName });
-    setBulkSelectedAccounts(accounts.map((a) => a.name)); // select all by default
-    setBulkKitta('');
+  /** Every account is selected unless `preselected` names which */
+  const openBulkModal = (issue: IssueRow, preselected?: string[]) => {
+    setBulkTarget(issue);
+    setBulkSelectedAccounts(preselected ?? accounts.map((a) => a.name));
+    setBulkKitta(issue.minUnit !== undefined ? String(issue.minUnit) : '');
     setBulkPIN('');
+    setBulkDryRun(false);
     // Pre-fill per-account TPINs from stored credentials
     const prefilledPINs: Record<string, string> = {};
     for (const a of accounts) {
@@ -430,6 +476,8 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
     setBulkStatuses([]);
     setBulkError(null);
     setBulkDone(false);
+    setBulkJobId(null);
+    setBulkStopping(false);
   };
 
   const closeBulkModal = () => {
@@ -452,21 +500,27 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
   };
 
   // Check if every selected account has a PIN (either per-account or global)
-  const allAccountsHavePIN = bulkSelectedAccounts.every(
+  const allAccountsHavePIN = bulkDryRun || bulkSelectedAccounts.every(
     (name) => (bulkAccountPINs[name] && bulkAccountPINs[name].length === 4) || (bulkPIN && bulkPIN.length === 4),
   );
 
+  /**
+   * Accounts the last bulk run left failed in a way a retry could fix, as the
+   * server's retry-failed decides: not a refused PIN, kitta or duplicate login
+   */
+  const failedBulkAccounts = bulkStatuses
+    .filter((s) => s.status === 'login_failed' || (s.status === 'error' && !s.outcome && !s.violation && !s.duplicateOf))
+    .map((s) => s.account);
+
   const handleBulkApply = () => {
     if (!bulkTarget || anyRunning) return;
     if (bulkSelectedAccounts.length === 0 || !bulkKitta || !allAccountsHavePIN) return;
 
-    setBulkRunning(true);
-    setBulkLogs([]);
-    setBulkError(null);
-    setBulkDone(false);
     setBulkStatuses(
       bulkSelectedAccounts.map((name) => ({ account: name, status: 'pending' as const, message: 'Waiting...' })),
     );
+    setBulkArtifacts([]);
+    setBulkReceipts({});
 
     // Only send per-account PINs that are actually filled (4 digits)
     const filledAccountPINs: Record<string, string> = {};
@@ -476,17 +530,45 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
       }
     }
 
-    authFetch('/api/bulk-apply', {
+    streamBulkJob(authFetch('/api/bulk-apply', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         accounts: bulkSelectedAccounts,
+        issueId: bulkTarget.id,
         companyName: bulkTarget.name,
         appliedKitta: bulkKitta,
         transactionPIN: bulkPIN,
         accountPINs: filledAccountPINs,
+        dryRun: bulkDryRun,
+        engine: engine ?? undefined,
       }),
-    }).then(async (res) => {
+    }));
+  };
+
+  /** Run the accounts that failed again, with the same company, kitta and PINs */
+  const handleRetryFailed = () => {
+    if (!bulkJobId || anyRunning || failedBulkAccounts.length === 0) return;
+
+    const retrying = new Set(failedBulkAccounts);
+    setBulkStatuses((prev) =>
+      prev.map((s) => (retrying.has(s.account) ? { account: s.account, status: 'pending', message: 'Waiting...' } : s)),
+    );
+    setBulkArtifacts((prev) => prev.filter((a) => !retrying.has(a.account)));
+    streamBulkJob(authFetch(`/api/jobs/${bulkJobId}/retry-failed`, { method: 'POST' }));
+  };
+
+  /** Follow a bulk apply job's SSE stream into the modal's statuses and log */
+  const streamBulkJob = (request: Promise<Response>) => {
+    setBulkRunning(true);
+    setBulkLogs([]);
+    setBulkError(null);
+    setBulkDone(false);
+    setBulkJobId(null);
+    setBulkStopping(false);
+    let jobId: string | null = null;
+
+    request.then(async (res) => {
       if (!res.ok) {
         const body = await res.json().catch(() => ({ error: 'Unknown error' }));
         setBulkError(body.error || `HTTP ${res.status}`);
@@ -516,6 +598,30 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
                 `[${event.data.account}] ${event.data.status}: ${event.data.message}`,
               ]);
               break;
+            case 'artifact':
+              if (jobId) setBulkArtifacts((prev) => [...prev, { ...event.data, jobId: jobId! }]);
+              break;
+            case 'receipt':
+              if (jobId) setBulkReceipts((prev) => ({ ...prev, [jobId!]: (prev[jobId!] ?? 0) + 1 }));
+              break;
+            case 'job': {
+              jobId = event.data.id;
+              setBulkJobId(event.data.id);
+              const queued = describeQueuedJob(event.data);
+              if (queued) setBulkLogs((prev) => [...prev, queued]);
+              break;
+            }
+            case 'cancelled':
+              setBulkDone(true);
+              setBulkStatuses((prev) =>
+                prev.map((s) =>
+                  s.status === 'pending' || s.status === 'running'
+                    ? { ...s, status: 'cancelled', message: 'Cancelled' }
+                    : s,
+                ),
+              );
+              setBulkLogs((prev) => [...prev, `Bulk apply stopped: ${event.message}`]);
+              break;
             case 'done':
               setBulkDone(true);
               setBulkLogs((prev) => [...prev, 'Bulk apply complete.']);
@@ -538,6 +644,28 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
     });
   };
 
+  const handleDownloadReceipts = (jobId: string) => {
+    downloadFile(`/api/jobs/${jobId}/receipts.zip`, `receipts-${jobId}.zip`).catch((e) => setBulkError(e.message));
+  };
+
+  const handleBulkStop = () => {
+    if (!bulkJobId || bulkStopping) return;
+    setBulkStopping(true);
+
+    authFetch(`/api/jobs/${bulkJobId}/cancel`, { method: 'POST' })
+      .then(async (res) => {
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({ error: 'Unknown error' }));
+          setBulkError(body.error || `HTTP ${res.status}`);
+          setBulkStopping(false);
+        }
+      })
+      .catch((e) => {
+        setBulkError(e.message);
+        setBulkStopping(false);
+      });
+  };
+
   // ── Render ─────────────────────────────────────────────────────────────
 
   return (
@@ -599,6 +727,11 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
                   <li><span className="badge badge-green">Open</span> — You can apply for this IPO</li>
                   <li><span className="badge badge-yellow">Already Applied / Closed</span> — The apply button is not available on Meroshare (already applied, window closed, etc.)</li>
                 </ul>
+                <p>
+                  <strong>"Scan All Accounts"</strong> scans every account and lines the issues up in a grid — which
+                  accounts can apply, which already have, and which don't see the issue at all (reserved quotas, for
+                  example). <strong>"Apply for All Eligible"</strong> opens bulk apply with just the accounts that can apply.
+                </p>
               </div>
 
               <div className="help-section">
@@ -619,12 +752,22 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
                 </p>
               </div>
 
+              <div className="help-section">
+                <h3>5. Scheduled Auto-Apply (optional)</h3>
+                <p>
+                  Open <strong>"Scheduled Auto-Apply"</strong> to have the server scan on a timetable (Nepal time,
+                  Sunday–Friday by default) and apply automatically when a new issue opens. Set a rule per account —
+                  which share types to apply for, how many kitta, and the most you're willing to spend.
+                </p>
+              </div>
+
               <div className="help-section">
                 <h3>Tips</h3>
                 <ul className="help-list">
-                  <li>Only one automation can run at a time — wait for the current one to finish before starting another.</li>
+                  <li>Automations run one at a time on the server. If someone else is already scanning or applying, your request waits in the <strong>Job Queue</strong> and starts automatically.</li>
+                  <li>The <strong>Engine</strong> picker chooses how the server talks to Meroshare: <strong>API</strong> is fast and needs no browser; <strong>Browser</strong> drives the Meroshare website like a person would. <strong>Server default</strong> is the browser unless the server sets <code>AUTOMATION_ENGINE=api</code>.</li>
                   <li>The TPIN is <strong>never saved</strong> — you'll enter it fresh each time you apply, for security.</li>
-                  <li>You can scan from any account — the open IPO list is the same across accounts.</li>
+                  <li>Most issues are open to every account, but reserved quotas and past applications differ — use <strong>"Scan All Accounts"</strong> to see each account's view.</li>
                   <li>The server needs to be running locally (<code>npm run server</code>) for the automation to work.</li>
                 </ul>
               </div>
@@ -635,6 +778,14 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
 
       <CredentialManager onCredentialsChange={handleCredentialsChange} />
 
+      <SchedulePanel accounts={accounts} />
+
+      <AllotmentPanel accounts={accounts} engine={engine} />
+
+      <PortfolioPanel accounts={accounts} engine={engine} />
+
+      <WaccPanel accounts={accounts} engine={engine} />
+
       <div className="controls">
         <div className="control-group">
           <label htmlFor="account-select">Account (for scanning)</label>
@@ -652,13 +803,55 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
           </select>
         </div>
 
-        <button className="run-btn" onClick={handleScan} disabled={anyRunning || !selected}>
+        <div className="control-group">
+          <label htmlFor="engine-select">Engine</label>
+          <select
+            id="engine-select"
+            value={engine ?? ''}
+            onChange={(e) => {
+              const next = (e.target.value || null) as AutomationEngine | null;
+              setEngine(next);
+              setEnginePreference(next);
+            }}
+            disabled={anyRunning}
+          >
+            <option value="">Server default</option>
+            <option value="api">API (fast, no browser)</option>
+            <option value="browser">Browser</option>
+          </select>
+        </div>
+
+        <button className="run-btn" onClick={() => handleScan()} disabled={anyRunning || !selected}>
           {running ? 'Scanning...' : 'Scan for Applications'}
         </button>
+
+        <button className="run-btn" onClick={() => handleScan(true)} disabled={anyRunning || accounts.length === 0}>
+          Scan All Accounts
+        </button>
+
+        <div className="control-group">
+          <label htmlFor="export-format">Report format</label>
+          <select
+            id="export-format"
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ReportExportFormat)}
+            disabled={exporting}
+          >
+            <option value="csv">CSV</option>
+            <option value="xlsx">Excel (XLSX)</option>
+            <option value="json">JSON</option>
+          </select>
+        </div>
+
+        <button className="run-btn" onClick={handleExportReport} disabled={exporting || !selected}>
+          {exporting ? 'Exporting...' : 'Export Application Report'}
+        </button>
       </div>
 
       {error && <div className="error-banner">{error}</div>}
 
+      <JobQueue />
+
       {/* Log area */}
       <div className="section">
         <h2>Live Log</h2>
@@ -683,18 +876,32 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
                 <th>Sub Group</th>
                 <th>Type</th>
                 <th>Share Group</th>
+                <th>Price</th>
+                <th>Units</th>
+                <th>Open → Close</th>
+                <th>Issue Manager</th>
                 <th>Status</th>
                 <th>Actions</th>
               </tr>
             </thead>
             <tbody>
               {issues.map((iss, i) => (
-                <tr key={i} className={!iss.hasApplyButton ? 'issue-row-no-apply' : ''}>
+                <tr key={iss.id} className={!iss.hasApplyButton ? 'issue-row-no-apply' : ''}>
                   <td>{i + 1}</td>
                   <td>{iss.name}</td>
                   <td>{iss.subGroup}</td>
                   <td><span className="badge badge-blue">{iss.shareType}</span></td>
                   <td>{iss.shareGroup}</td>
+                  <td>{iss.pricePerUnit !== undefined ? `Rs ${iss.pricePerUnit.toLocaleString()}` : '—'}</td>
+                  <td>
+                    {iss.minUnit !== undefined && iss.maxUnit !== undefined
+                      ? `${iss.minUnit.toLocaleString()}–${iss.maxUnit.toLocaleString()}`
+                      : '—'}
+                  </td>
+                  <td className="issue-dates">
+                    {iss.openDate || iss.closeDate ? `${iss.openDate ?? '?'} → ${iss.closeDate ?? '?'}` : '—'}
+                  </td>
+                  <td>{iss.issueManager ?? '—'}</td>
                   <td>
                     {iss.hasApplyButton ? (
                       <span className="badge badge-green">Open</span>
@@ -707,14 +914,14 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
                       <>
                         <button
                           className="apply-btn"
-                          onClick={() => openApplyModal(i, iss.name)}
+                          onClick={() => openApplyModal(iss)}
                           disabled={anyRunning}
                         >
                           Apply
                         </button>
                         <button
                           className="bulk-apply-btn"
-                          onClick={() => openBulkModal(iss.name)}
+                          onClick={() => openBulkModal(iss)}
                           disabled={anyRunning}
                         >
                           Apply in Bulk
@@ -731,6 +938,58 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
         </div>
       )}
 
+      {/* Family scan: issue × account */}
+      {matrix && (
+        <div className="section">
+          <h2>Open Issues Across the Family</h2>
+          {matrix.issues.length === 0 ? (
+            <p className="schedule-hint">No open issues on any account.</p>
+          ) : (
+            <table className="results-table issue-matrix">
+              <thead>
+                <tr>
+                  <th>Company</th>
+                  <th>Type</th>
+                  <th>Sub Group</th>
+                  {matrix.accounts.map((name) => (
+                    <th key={name}>{name}</th>
+                  ))}
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.issues.map(({ issue, states }) => {
+                  const eligible = matrix.accounts.filter((name) => states[name] === 'can_apply');
+                  return (
+                    <tr key={issue.id}>
+                      <td>{issue.name}</td>
+                      <td><span className="badge badge-blue">{issue.shareType}</span></td>
+                      <td>{issue.subGroup}</td>
+                      {matrix.accounts.map((name) => (
+                        <td key={name}>{matrixBadge(states[name])}</td>
+                      ))}
+                      <td className="action-cell">
+                        {eligible.length > 0 ? (
+                          <button
+                            className="bulk-apply-btn"
+                            onClick={() => openBulkModal(issue, eligible)}
+                            disabled={anyRunning}
+                          >
+                            Apply for All Eligible ({eligible.length})
+                          </button>
+                        ) : (
+                          <span className="issue-no-apply-hint">No account can apply</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
       {/* Single Apply Modal */}
       {applyTarget && (
         <div className="modal-overlay" onClick={closeApplyModal}>
@@ -742,6 +1001,7 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
 
             <div className="modal-body">
               <div className="modal-company">{applyTarget.name}</div>
+              {describeUnits(applyTarget) && <div className="modal-issue-units">{describeUnits(applyTarget)}</div>}
               <div className="modal-account-info">
                 Applying as: <strong>{selected}</strong>
                 {accounts.find((a) => a.name === selected)?.dpCode && (
@@ -755,7 +1015,9 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
                   <input
                     id="apply-kitta"
                     type="number"
-                    min={1}
+                    min={applyTarget.minUnit ?? 1}
+                    max={applyTarget.maxUnit}
+                    step={applyTarget.multipleOf ?? 1}
                     placeholder="e.g. 10"
                     value={appliedKitta}
                     onChange={(e) => setAppliedKitta(e.target.value)}
@@ -776,16 +1038,27 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
                   />
                 </div>
 
+                <label className="dry-run-toggle">
+                  <input
+                    type="checkbox"
+                    checked={applyDryRun}
+                    onChange={(e) => setApplyDryRun(e.target.checked)}
+                    disabled={applyRunning}
+                  />
+                  Dry run — fill in the form but stop before the transaction PIN
+                </label>
+
                 <button
                   className="run-btn apply-submit-btn"
                   onClick={handleApply}
-                  disabled={applyRunning || !appliedKitta || !transactionPIN || transactionPIN.length !== 4}
+                  disabled={applyRunning || !appliedKitta || (!applyDryRun && transactionPIN.length !== 4)}
                 >
-                  {applyRunning ? 'Applying...' : 'Submit Application'}
+                  {applyRunning ? 'Applying...' : applyDryRun ? 'Rehearse Application' : 'Submit Application'}
                 </button>
               </div>
 
               {applyError && <div className="error-banner">{applyError}</div>}
+              <FailureArtifacts artifacts={applyArtifacts} />
               {applySuccess && <div className="success-banner">{applySuccess}</div>}
 
               {applyLogs.length > 0 && (
@@ -815,6 +1088,7 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
 
             <div className="modal-body">
               <div className="modal-company">{bulkTarget.name}</div>
+              {describeUnits(bulkTarget) && <div className="modal-issue-units">{describeUnits(bulkTarget)}</div>}
 
               {/* Account selection */}
               <div className="bulk-accounts-section">
@@ -870,7 +1144,9 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
                   <input
                     id="bulk-kitta"
                     type="number"
-                    min={1}
+                    min={bulkTarget.minUnit ?? 1}
+                    max={bulkTarget.maxUnit}
+                    step={bulkTarget.multipleOf ?? 1}
                     placeholder="e.g. 10"
                     value={bulkKitta}
                     onChange={(e) => setBulkKitta(e.target.value)}
@@ -891,6 +1167,16 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
                   />
                 </div>
 
+                <label className="dry-run-toggle">
+                  <input
+                    type="checkbox"
+                    checked={bulkDryRun}
+                    onChange={(e) => setBulkDryRun(e.target.checked)}
+                    disabled={bulkRunning}
+                  />
+                  Dry run — fill in each form but stop before the transaction PIN
+                </label>
+
                 <button
                   className="run-btn apply-submit-btn"
                   onClick={handleBulkApply}
@@ -898,8 +1184,19 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
                 >
                   {bulkRunning
                     ? `Applying (${bulkStatuses.filter((s) => s.status !== 'pending' && s.status !== 'running').length}/${bulkSelectedAccounts.length})...`
-                    : `Apply for ${bulkSelectedAccounts.length} Account${bulkSelectedAccounts.length !== 1 ? 's' : ''}`}
+                    : `${bulkDryRun ? 'Rehearse' : 'Apply'} for ${bulkSelectedAccounts.length} Account${bulkSelectedAccounts.length !== 1 ? 's' : ''}`}
                 </button>
+
+                {bulkRunning && (
+                  <button
+                    className="stop-btn"
+                    onClick={handleBulkStop}
+                    disabled={!bulkJobId || bulkStopping}
+                    title="Stop after the current step. An application that is already being submitted is allowed to finish."
+                  >
+                    {bulkStopping ? 'Stopping...' : 'Stop'}
+                  </button>
+                )}
               </div>
 
               {bulkError && <div className="error-banner">{bulkError}</div>}
@@ -921,11 +1218,24 @@ function MainApp({ onLogout }: { onLogout: () => void }) {
                         <tr key={s.account}>
                           <td>{s.account}</td>
                           <td><AccountStatusBadge status={s.status} /></td>
-                          <td className="remarks-cell">{s.message}</td>
+                          <td className="remarks-cell">
+                            {s.message}
+                            <FailureArtifacts artifacts={bulkArtifacts.filter((a) => a.account === s.account)} />
+                          </td>
                         </tr>
                       ))}
                     </tbody>
                   </table>
+                  {Object.entries(bulkReceipts).map(([jobId, count], i) => (
+                    <button key={jobId} className="run-btn download-receipts-btn" onClick={() => handleDownloadReceipts(jobId)}>
+                      Download {count} Receipt{count !== 1 ? 's' : ''}{i > 0 ? ' (retry)' : ''} (ZIP)
+                    </button>
+                  ))}
+                  {failedBulkAccounts.length > 0 && bulkJobId && (
+                    <button className="run-btn retry-failed-btn" onClick={handleRetryFailed} disabled={anyRunning}>
+                      Retry {failedBulkAccounts.length} Failed Account{failedBulkAccounts.length !== 1 ? 's' : ''}
+                    </button>
+                  )}
                 </div>
               )}
 
@@ -120,6 +120,14 @@ function stripTpin(cred: StoredCredential): StoredCredential {
   return rest;
 }
 
+/** Bank/account preferences, left out when blank */
+function bankPreferences(bankName?: string, accountNumber?: string): Pick<StoredCredential, 'bankName' | 'accountNumber'> {
+  return {
+    ...(bankName?.trim() ? { bankName: bankName.trim() } : {}),
+    ...(accountNumber?.trim() ? { accountNumber: accountNumber.trim() } : {}),
+  };
+}
+
 /** Validate & parse a JSON credentials import. Returns cleaned map or error string. */
 function parseImportedJSON(raw: string): { creds: CredentialsMap } | { error: string } {
   let parsed: any;
@@ -152,6 +160,7 @@ function parseImportedJSON(raw: string): { creds: CredentialsMap } | { error: st
       username: String(e.username),
       password: String(e.password),
       CRN: String(e.CRN),
+      ...bankPreferences(e.bankName && String(e.bankName), e.accountNumber && String(e.accountNumber)),
     });
   }
 
@@ -275,6 +284,7 @@ export default function CredentialManager({ onCredentialsChange }: Props) {
       username: formData.username.trim(),
       password: formData.password,
       CRN: formData.CRN.trim(),
+      ...bankPreferences(formData.bankName, formData.accountNumber),
     };
 
     setCredentials((prev) => {
@@ -405,6 +415,12 @@ export default function CredentialManager({ onCredentialsChange }: Props) {
                         <span className="cred-detail">
                           <span className="cred-detail-label">CRN:</span> {cred.CRN}
                         </span>
+                        {(cred.bankName || cred.accountNumber) && (
+                          <span className="cred-detail">
+                            <span className="cred-detail-label">Applies from:</span>{' '}
+                            {[cred.bankName, cred.accountNumber].filter(Boolean).join(' · ')}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <div className="cred-card-actions">
@@ -451,7 +467,7 @@ export default function CredentialManager({ onCredentialsChange }: Props) {
               <strong>Drop a JSON file</strong> here to import accounts, or <span className="cred-dropzone-link">click to browse</span>
             </div>
             <div className="cred-dropzone-hint">
-              Expected format: <code>{`{ "Name": { "DP_CODE", "username", "password", "CRN" } }`}</code>
+              Expected format: <code>{`{ "Name": { "DP_CODE", "username", "password", "CRN", "bankName"?, "accountNumber"? } }`}</code>
             </div>
           </div>
 
@@ -553,6 +569,30 @@ export default function CredentialManager({ onCredentialsChange }: Props) {
                   />
                   {hasError('crn') && <span className="field-error">{errors.crn}</span>}
                 </div>
+
+                {/* Bank preference */}
+                <div className="control-group">
+                  <label htmlFor="cred-bank">Bank to apply from (optional)</label>
+                  <input
+                    id="cred-bank"
+                    type="text"
+                    placeholder="Default: first linked bank"
+                    value={formData.bankName || ''}
+                    onChange={(e) => handleFieldChange('bankName', e.target.value)}
+                  />
+                </div>
+
+                {/* Account number preference */}
+                <div className="control-group">
+                  <label htmlFor="cred-account-number">Bank account number (optional)</label>
+                  <input
+                    id="cred-account-number"
+                    type="text"
+                    placeholder="Default: first account at that bank"
+                    value={formData.accountNumber || ''}
+                    onChange={(e) => handleFieldChange('accountNumber', e.target.value)}
+                  />
+                </div>
               </div>
 
               <div className="cred-form-actions">
@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react';
+import type { ArtifactInfo } from './types';
+import { authFetch } from './api';
+
+/** An artifact together with the job it was saved under */
+export type JobArtifact = ArtifactInfo & { jobId: string };
+
+const KIND_LABELS: Record<ArtifactInfo['kind'], string> = {
+  screenshot: 'Screenshot',
+  html: 'Page HTML',
+  trace: 'Trace',
+};
+
+function artifactUrl(jobId: string, name: string): string {
+  return `/api/jobs/${encodeURIComponent(jobId)}/artifacts/${encodeURIComponent(name)}`;
+}
+
+/** Artifacts need the auth header, so they are fetched into object URLs instead of linked directly */
+function useArtifactBlobUrl(jobId: string, name: string): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    authFetch(artifactUrl(jobId, name))
+      .then((res) => (res.ok ? res.blob() : null))
+      .then((blob) => {
+        if (!blob || cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        // Leave the link out — the job log still has the error
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [jobId, name]);
+
+  return url;
+}
+
+function ArtifactLink({ artifact }: { artifact: JobArtifact }) {
+  const url = useArtifactBlobUrl(artifact.jobId, artifact.name);
+  if (!url) return null;
+
+  if (artifact.kind === 'screenshot') {
+    return (
+      <a href={url} target="_blank" rel="noreferrer" title="Open the full screenshot">
+        <img className="artifact-thumbnail" src={url} alt={`Page when ${artifact.account} failed`} />
+      </a>
+    );
+  }
+  return (
+    <a className="artifact-link" href={url} download={artifact.name}>
+      {KIND_LABELS[artifact.kind]}
+    </a>
+  );
+}
+
+/** What the page looked like when an account failed: a screenshot plus HTML/trace downloads */
+export default function FailureArtifacts({ artifacts }: { artifacts: JobArtifact[] }) {
+  if (artifacts.length === 0) return null;
+  return (
+    <div className="failure-artifacts">
+      {artifacts.map((a) => <ArtifactLink key={a.name} artifact={a} />)}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import type { Job } from './types';
+import { authFetch } from './api';
+
+const POLL_INTERVAL_MS = 3000;
+
+const JOB_TYPE_LABELS: Record<Job['type'], string> = {
+  run: 'Reports',
+  scan: 'Scan',
+  'bulk-scan': 'Bulk Scan',
+  apply: 'Apply',
+  'bulk-apply': 'Bulk Apply',
+  'auto-apply': 'Scheduled Auto-Apply',
+  allotment: 'Allotment Check',
+  portfolio: 'Portfolio',
+  transactions: 'Transaction Import',
+  'report-export': 'Report Export',
+};
+
+function JobStatusBadge({ status }: { status: Job['status'] }) {
+  const map: Record<Job['status'], string> = {
+    queued: 'badge badge-gray',
+    running: 'badge badge-blue',
+    succeeded: 'badge badge-green',
+    failed: 'badge badge-red',
+    cancelled: 'badge badge-yellow',
+  };
+  return <span className={map[status]}>{status}</span>;
+}
+
+function formatTime(iso: string | null): string {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleTimeString();
+}
+
+/** Shows jobs that are running or waiting on the server (from any device) */
+export default function JobQueue() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const poll = () => {
+      authFetch('/api/jobs')
+        .then((r) => (r.ok ? r.json() : []))
+        .then((data: Job[]) => {
+          if (!cancelled) setJobs(data);
+        })
+        .catch(() => {
+          // Server unreachable — keep showing the last known queue
+        });
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  const active = jobs
+    .filter((j) => j.status === 'queued' || j.status === 'running')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  if (active.length === 0) return null;
+
+  return (
+    <div className="section">
+      <h2>Job Queue</h2>
+      <table className="results-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Job</th>
+            <th>Accounts</th>
+            <th>Status</th>
+            <th>Queued At</th>
+          </tr>
+        </thead>
+        <tbody>
+          {active.map((job) => (
+            <tr key={job.id}>
+              <td>{job.status === 'running' ? '▶' : job.position}</td>
+              <td>
+                {JOB_TYPE_LABELS[job.type]}
+                {typeof job.params.companyName === 'string' && (
+                  <span className="remarks-cell"> — {job.params.companyName}</span>
+                )}
+                {typeof job.params.scheduleName === 'string' && (
+                  <span className="remarks-cell"> — {job.params.scheduleName}</span>
+                )}
+              </td>
+              <td>{job.accounts.join(', ')}</td>
+              <td><JobStatusBadge status={job.status} /></td>
+              <td className="remarks-cell">{formatTime(job.createdAt)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
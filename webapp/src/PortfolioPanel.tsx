@@ -0,0 +1,286 @@
+import { useState, useEffect } from 'react';
+import type { Account, AccountStatus, AutomationEngine, Holding } from './types';
+import { authFetch, readSSEStream } from './api';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const FAMILY = '__family__';
+
+function rupees(amount: number): string {
+  return `Rs ${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+}
+
+/** A script's holdings across the family, for the combined view */
+interface FamilyHolding {
+  script: string;
+  accounts: string[];
+  currentBalance: number;
+  previousCloseValue: number;
+  ltpValue: number;
+}
+
+function combineHoldings(holdings: Holding[]): FamilyHolding[] {
+  const byScript = new Map<string, FamilyHolding>();
+  for (const h of holdings) {
+    const entry = byScript.get(h.script) ?? {
+      script: h.script, accounts: [], currentBalance: 0, previousCloseValue: 0, ltpValue: 0,
+    };
+    entry.accounts.push(h.account);
+    entry.currentBalance += h.currentBalance;
+    entry.previousCloseValue += h.previousCloseValue;
+    entry.ltpValue += h.ltpValue;
+    byScript.set(h.script, entry);
+  }
+  return [...byScript.values()].sort((a, b) => b.ltpValue - a.ltpValue);
+}
+
+function sum(holdings: { previousCloseValue: number; ltpValue: number }[]) {
+  return {
+    previousCloseValue: holdings.reduce((total, h) => total + h.previousCloseValue, 0),
+    ltpValue: holdings.reduce((total, h) => total + h.ltpValue, 0),
+  };
+}
+
+// ── Component ─────────────────────────────────────────────────────────────────
+
+interface Props {
+  accounts: Account[];
+  engine: AutomationEngine | null;
+}
+
+/** Reads My Portfolio on every selected account, shown per account or combined for the family */
+export default function PortfolioPanel({ accounts, engine }: Props) {
+  const [collapsed, setCollapsed] = useState(true);
+  const [selectedAccounts, setSelectedAccounts] = useState<string[]>([]);
+  const [running, setRunning] = useState(false);
+  const [holdings, setHoldings] = useState<Holding[]>([]);
+  const [statuses, setStatuses] = useState<AccountStatus[]>([]);
+  const [loadedAccounts, setLoadedAccounts] = useState<string[]>([]);
+  const [view, setView] = useState(FAMILY);
+  const [error, setError] = useState<string | null>(null);
+
+  // Every account is selected whenever the list changes
+  useEffect(() => {
+    setSelectedAccounts(accounts.map((a) => a.name));
+  }, [accounts]);
+
+  const toggleAccount = (name: string) => {
+    setSelectedAccounts((prev) => (prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name]));
+  };
+
+  const toggleAll = () => {
+    setSelectedAccounts((prev) => (prev.length === accounts.length ? [] : accounts.map((a) => a.name)));
+  };
+
+  const handleLoad = async () => {
+    setRunning(true);
+    setHoldings([]);
+    setStatuses([]);
+    setError(null);
+    setLoadedAccounts(selectedAccounts);
+    setView(FAMILY);
+
+    try {
+      const res = await authFetch('/api/portfolio', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accounts: selectedAccounts, ...(engine ? { engine } : {}) }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({ error: 'Unknown error' }));
+        setError(body.error || `HTTP ${res.status}`);
+        setRunning(false);
+        return;
+      }
+
+      readSSEStream(
+        res,
+        (event) => {
+          switch (event.type) {
+            case 'holding':
+              setHoldings((prev) => [...prev, event.data]);
+              break;
+            case 'account_status':
+              setStatuses((prev) => [...prev.filter((s) => s.account !== event.data.account), event.data]);
+              break;
+            case 'error':
+              setError(event.message);
+              break;
+          }
+        },
+        () => setRunning(false),
+        (msg) => setError(msg),
+      );
+    } catch (err: any) {
+      setError(err.message || 'Network error');
+      setRunning(false);
+    }
+  };
+
+  const familyTotal = sum(holdings);
+  const failedAccounts = statuses.filter((s) => s.status === 'error' || s.status === 'login_failed');
+
+  // ── Render ─────────────────────────────────────────────────────────────
+
+  const renderFamily = () => {
+    const combined = combineHoldings(holdings);
+    return (
+      <table className="results-table portfolio-table">
+        <thead>
+          <tr>
+            <th>Scrip</th>
+            <th>Held By</th>
+            <th className="num">Units</th>
+            <th className="num">Value at Prev. Close</th>
+            <th className="num">Value at LTP</th>
+          </tr>
+        </thead>
+        <tbody>
+          {combined.length === 0 ? (
+            <tr>
+              <td colSpan={5}>{running ? 'Loading...' : 'No holdings'}</td>
+            </tr>
+          ) : combined.map((h) => (
+            <tr key={h.script}>
+              <td>{h.script}</td>
+              <td>{h.accounts.join(', ')}</td>
+              <td className="num">{h.currentBalance.toLocaleString('en-IN')}</td>
+              <td className="num">{rupees(h.previousCloseValue)}</td>
+              <td className="num">{rupees(h.ltpValue)}</td>
+            </tr>
+          ))}
+        </tbody>
+        {combined.length > 0 && (
+          <tfoot>
+            <tr>
+              <td colSpan={3}>Family total</td>
+              <td className="num">{rupees(familyTotal.previousCloseValue)}</td>
+              <td className="num">{rupees(familyTotal.ltpValue)}</td>
+            </tr>
+          </tfoot>
+        )}
+      </table>
+    );
+  };
+
+  const renderAccount = (name: string) => {
+    const own = holdings.filter((h) => h.account === name);
+    const status = statuses.find((s) => s.account === name);
+    const total = sum(own);
+    return (
+      <table className="results-table portfolio-table">
+        <thead>
+          <tr>
+            <th>Scrip</th>
+            <th className="num">Units</th>
+            <th className="num">Prev. Close</th>
+            <th className="num">Value at Prev. Close</th>
+            <th className="num">LTP</th>
+            <th className="num">Value at LTP</th>
+          </tr>
+        </thead>
+        <tbody>
+          {own.length === 0 ? (
+            <tr>
+              <td colSpan={6}>{status?.message ?? (running ? 'Loading...' : 'No holdings')}</td>
+            </tr>
+          ) : own.map((h) => (
+            <tr key={h.script}>
+              <td title={h.companyName}>{h.script}</td>
+              <td className="num">{h.currentBalance.toLocaleString('en-IN')}</td>
+              <td className="num">{h.previousClosingPrice ?? '—'}</td>
+              <td className="num">{rupees(h.previousCloseValue)}</td>
+              <td className="num">{h.ltp ?? '—'}</td>
+              <td className="num">{rupees(h.ltpValue)}</td>
+            </tr>
+          ))}
+        </tbody>
+        {own.length > 0 && (
+          <tfoot>
+            <tr>
+              <td colSpan={3}>Total</td>
+              <td className="num">{rupees(total.previousCloseValue)}</td>
+              <td />
+              <td className="num">{rupees(total.ltpValue)}</td>
+            </tr>
+          </tfoot>
+        )}
+      </table>
+    );
+  };
+
+  return (
+    <div className="cred-manager">
+      <div className="cred-header" onClick={() => setCollapsed(!collapsed)}>
+        <div className="cred-header-left">
+          <h2>Portfolio</h2>
+          {!collapsed && holdings.length > 0 && (
+            <span className="cred-count">{rupees(familyTotal.ltpValue)} at LTP</span>
+          )}
+        </div>
+        <button className="cred-collapse-btn" title={collapsed ? 'Expand' : 'Collapse'}>
+          {collapsed ? '▸' : '▾'}
+        </button>
+      </div>
+
+      {!collapsed && (
+        <div className="cred-content">
+          <p className="schedule-hint">
+            Logs into each selected account and reads its holdings from My Portfolio.
+          </p>
+
+          <div className="bulk-accounts-section">
+            <div className="bulk-accounts-header">
+              <h3>Select Accounts</h3>
+              <button className="toggle-all-btn" onClick={toggleAll} disabled={running}>
+                {selectedAccounts.length === accounts.length ? 'Deselect All' : 'Select All'}
+              </button>
+            </div>
+            <div className="bulk-accounts-list">
+              {accounts.map((a) => (
+                <div key={a.name} className="bulk-account-item">
+                  <label className="bulk-account-left">
+                    <input
+                      type="checkbox"
+                      checked={selectedAccounts.includes(a.name)}
+                      onChange={() => toggleAccount(a.name)}
+                      disabled={running}
+                    />
+                    <span className="bulk-account-name">{a.name}</span>
+                    <span className="bulk-account-username">({a.username})</span>
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="schedule-form">
+            {loadedAccounts.length > 0 && (
+              <div className="control-group">
+                <label htmlFor="portfolio-view">View</label>
+                <select id="portfolio-view" value={view} onChange={(e) => setView(e.target.value)}>
+                  <option value={FAMILY}>Whole family</option>
+                  {loadedAccounts.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <button className="run-btn" onClick={handleLoad} disabled={running || selectedAccounts.length === 0}>
+              {running ? 'Loading...' : 'Load Portfolio'}
+            </button>
+          </div>
+
+          {error && <div className="error-banner">{error}</div>}
+          {failedAccounts.map((s) => (
+            <div key={s.account} className="error-banner">
+              {s.account}: {s.message}
+            </div>
+          ))}
+
+          {loadedAccounts.length > 0 && (view === FAMILY ? renderFamily() : renderAccount(view))}
+        </div>
+      )}
+    </div>
+  );
+}
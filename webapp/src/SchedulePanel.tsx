@@ -0,0 +1,331 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Account, AccountRule, Schedule, SchedulerSettings } from './types';
+import { authFetch } from './api';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+interface RuleDraft {
+  enabled: boolean;
+  shareTypes: string;
+  defaultKitta: string;
+  maxAmount: string;
+}
+
+function toDraft(rule: AccountRule | undefined): RuleDraft {
+  return {
+    enabled: rule?.enabled ?? false,
+    shareTypes: rule ? rule.shareTypes.join(', ') : 'IPO',
+    defaultKitta: String(rule?.defaultKitta ?? 10),
+    maxAmount: rule?.maxAmount != null ? String(rule.maxAmount) : '',
+  };
+}
+
+function fromDraft(draft: RuleDraft): AccountRule {
+  return {
+    enabled: draft.enabled,
+    shareTypes: draft.shareTypes.split(',').map((t) => t.trim()).filter(Boolean),
+    defaultKitta: parseInt(draft.defaultKitta, 10),
+    maxAmount: draft.maxAmount.trim() ? Number(draft.maxAmount) : null,
+  };
+}
+
+async function readError(res: Response): Promise<string> {
+  const body = await res.json().catch(() => ({ error: 'Unknown error' }));
+  return body.error || `HTTP ${res.status}`;
+}
+
+// ── Component ─────────────────────────────────────────────────────────────────
+
+interface Props {
+  accounts: Account[];
+}
+
+export default function SchedulePanel({ accounts }: Props) {
+  const [collapsed, setCollapsed] = useState(true);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, RuleDraft>>({});
+  const [defaultCron, setDefaultCron] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // New schedule form
+  const [newName, setNewName] = useState('');
+  const [newCron, setNewCron] = useState('');
+  const [newScanAccount, setNewScanAccount] = useState('');
+
+  const load = useCallback(() => {
+    authFetch('/api/schedules')
+      .then(async (res) => {
+        if (!res.ok) throw new Error(await readError(res));
+        return res.json();
+      })
+      .then((data: SchedulerSettings) => {
+        setSchedules(data.schedules);
+        setDefaultCron(data.defaultCron);
+        setNewCron((prev) => prev || data.defaultCron);
+        const next: Record<string, RuleDraft> = {};
+        for (const a of accounts) next[a.name] = toDraft(data.rules[a.name]);
+        setDrafts(next);
+      })
+      .catch((e) => setMessage({ type: 'error', text: `Failed to load schedules: ${e.message}` }));
+  }, [accounts]);
+
+  useEffect(() => {
+    if (!collapsed) load();
+  }, [collapsed, load]);
+
+  useEffect(() => {
+    if (!newScanAccount && accounts.length > 0) setNewScanAccount(accounts[0].name);
+  }, [accounts, newScanAccount]);
+
+  // Auto-clear status message
+  useEffect(() => {
+    if (!message) return;
+    const t = setTimeout(() => setMessage(null), 5000);
+    return () => clearTimeout(t);
+  }, [message]);
+
+  // ── Schedules ──────────────────────────────────────────────────────────
+
+  const handleAddSchedule = async () => {
+    const res = await authFetch('/api/schedules', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: newName, cron: newCron, scanAccount: newScanAccount }),
+    });
+    if (!res.ok) {
+      setMessage({ type: 'error', text: await readError(res) });
+      return;
+    }
+    setNewName('');
+    setNewCron(defaultCron);
+    setMessage({ type: 'success', text: 'Schedule added.' });
+    load();
+  };
+
+  const handleToggleSchedule = async (schedule: Schedule) => {
+    const res = await authFetch(`/api/schedules/${schedule.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !schedule.enabled }),
+    });
+    if (!res.ok) setMessage({ type: 'error', text: await readError(res) });
+    load();
+  };
+
+  const handleDeleteSchedule = async (schedule: Schedule) => {
+    const res = await authFetch(`/api/schedules/${schedule.id}`, { method: 'DELETE' });
+    if (!res.ok) setMessage({ type: 'error', text: await readError(res) });
+    load();
+  };
+
+  const handleRunNow = async (schedule: Schedule) => {
+    const res = await authFetch(`/api/schedules/${schedule.id}/run`, { method: 'POST' });
+    if (!res.ok) {
+      setMessage({ type: 'error', text: await readError(res) });
+      return;
+    }
+    setMessage({ type: 'success', text: `"${schedule.name}" queued — see the Job Queue for progress.` });
+    load();
+  };
+
+  // ── Rules ──────────────────────────────────────────────────────────────
+
+  const updateDraft = (account: string, changes: Partial<RuleDraft>) => {
+    setDrafts((prev) => ({ ...prev, [account]: { ...prev[account], ...changes } }));
+  };
+
+  const handleSaveRules = async () => {
+    const rules: Record<string, AccountRule> = {};
+    for (const [account, draft] of Object.entries(drafts)) {
+      rules[account] = fromDraft(draft);
+    }
+    const res = await authFetch('/api/schedules/rules', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(rules),
+    });
+    if (!res.ok) {
+      setMessage({ type: 'error', text: await readError(res) });
+      return;
+    }
+    setMessage({ type: 'success', text: 'Auto-apply rules saved.' });
+  };
+
+  // ── Render ─────────────────────────────────────────────────────────────
+
+  const enabledCount = schedules.filter((s) => s.enabled).length;
+
+  return (
+    <div className="cred-manager">
+      <div className="cred-header" onClick={() => setCollapsed(!collapsed)}>
+        <div className="cred-header-left">
+          <h2>Scheduled Auto-Apply</h2>
+          {!collapsed && (
+            <span className="cred-count">{enabledCount} active schedule{enabledCount !== 1 ? 's' : ''}</span>
+          )}
+        </div>
+        <button className="cred-collapse-btn" title={collapsed ? 'Expand' : 'Collapse'}>
+          {collapsed ? '▸' : '▾'}
+        </button>
+      </div>
+
+      {!collapsed && (
+        <div className="cred-content">
+          <p className="schedule-hint">
+            Each schedule logs in with its scan account at the given time (Nepal time), looks for issues that
+            were not open on the previous run, and applies for them with every account whose rule matches.
+            Accounts need a TPIN saved in <code>all_credentials.json</code> to be applied for automatically.
+          </p>
+
+          {message && (
+            <div className={`cred-import-msg ${message.type === 'error' ? 'cred-import-error' : 'cred-import-success'}`}>
+              {message.text}
+            </div>
+          )}
+
+          {/* Schedules */}
+          <h3 className="schedule-heading">Schedules</h3>
+          {schedules.length > 0 ? (
+            <table className="results-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Cron</th>
+                  <th>Scan Account</th>
+                  <th>Last Run</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {schedules.map((s) => (
+                  <tr key={s.id} className={!s.enabled ? 'issue-row-no-apply' : ''}>
+                    <td>{s.name}</td>
+                    <td><code>{s.cron}</code></td>
+                    <td>{s.scanAccount}</td>
+                    <td className="remarks-cell">{s.lastRunAt ? new Date(s.lastRunAt).toLocaleString() : 'Never'}</td>
+                    <td className="action-cell">
+                      <button className="cred-edit-btn" onClick={() => handleToggleSchedule(s)}>
+                        {s.enabled ? 'Disable' : 'Enable'}
+                      </button>
+                      <button className="cred-edit-btn" onClick={() => handleRunNow(s)}>Run Now</button>
+                      <button className="cred-delete-btn" onClick={() => handleDeleteSchedule(s)}>Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="cred-empty">No schedules yet.</div>
+          )}
+
+          <div className="schedule-form">
+            <div className="control-group">
+              <label htmlFor="schedule-name">Name</label>
+              <input
+                id="schedule-name"
+                type="text"
+                placeholder="e.g. Morning check"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="schedule-cron">Cron (minute hour day month weekday)</label>
+              <input
+                id="schedule-cron"
+                type="text"
+                placeholder={defaultCron}
+                value={newCron}
+                onChange={(e) => setNewCron(e.target.value)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="schedule-account">Scan Account</label>
+              <select
+                id="schedule-account"
+                value={newScanAccount}
+                onChange={(e) => setNewScanAccount(e.target.value)}
+              >
+                {accounts.map((a) => (
+                  <option key={a.name} value={a.name}>{a.name}</option>
+                ))}
+              </select>
+            </div>
+            <button className="run-btn" onClick={handleAddSchedule} disabled={!newName.trim() || !newCron.trim() || !newScanAccount}>
+              Add Schedule
+            </button>
+          </div>
+
+          {/* Rules */}
+          <h3 className="schedule-heading">Auto-Apply Rules</h3>
+          {accounts.length > 0 ? (
+            <table className="results-table">
+              <thead>
+                <tr>
+                  <th>Apply</th>
+                  <th>Account</th>
+                  <th>Share Types</th>
+                  <th>Kitta</th>
+                  <th>Max Amount (Rs)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {accounts.map((a) => {
+                  const draft = drafts[a.name] ?? toDraft(undefined);
+                  return (
+                    <tr key={a.name}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={draft.enabled}
+                          onChange={(e) => updateDraft(a.name, { enabled: e.target.checked })}
+                        />
+                      </td>
+                      <td>{a.name}</td>
+                      <td>
+                        <input
+                          className="schedule-input"
+                          type="text"
+                          placeholder="IPO, FPO"
+                          value={draft.shareTypes}
+                          onChange={(e) => updateDraft(a.name, { shareTypes: e.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          className="schedule-input schedule-input-small"
+                          type="number"
+                          min={1}
+                          value={draft.defaultKitta}
+                          onChange={(e) => updateDraft(a.name, { defaultKitta: e.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          className="schedule-input schedule-input-small"
+                          type="number"
+                          min={1}
+                          placeholder="No limit"
+                          value={draft.maxAmount}
+                          onChange={(e) => updateDraft(a.name, { maxAmount: e.target.value })}
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <div className="cred-empty">Add accounts first to set up auto-apply rules.</div>
+          )}
+
+          {accounts.length > 0 && (
+            <div className="cred-form-actions">
+              <button className="run-btn cred-save-btn" onClick={handleSaveRules}>Save Rules</button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
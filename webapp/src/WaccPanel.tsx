@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Account, AutomationEngine, WaccReport } from './types';
+import { authFetch, readSSEStream } from './api';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function rupees(amount: number): string {
+  return `Rs ${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+}
+
+// ── Component ─────────────────────────────────────────────────────────────────
+
+interface Props {
+  accounts: Account[];
+  engine: AutomationEngine | null;
+}
+
+/** Weighted average cost per script for one account, from its imported transaction history */
+export default function WaccPanel({ accounts, engine }: Props) {
+  const [collapsed, setCollapsed] = useState(true);
+  const [account, setAccount] = useState('');
+  const [report, setReport] = useState<WaccReport | null>(null);
+  const [notImported, setNotImported] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep a valid account picked as the list changes
+  useEffect(() => {
+    if (!accounts.some((a) => a.name === account)) setAccount(accounts[0]?.name ?? '');
+  }, [accounts, account]);
+
+  const loadReport = useCallback(async (name: string) => {
+    setReport(null);
+    setNotImported(false);
+    if (!name) return;
+    try {
+      const res = await authFetch(`/api/accounts/${encodeURIComponent(name)}/wacc`);
+      if (res.status === 404) {
+        setNotImported(true);
+        return;
+      }
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      setReport(await res.json());
+    } catch (err: any) {
+      setError(err.message || 'Network error');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!collapsed) loadReport(account);
+  }, [account, collapsed, loadReport]);
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    setProgress('Starting...');
+
+    try {
+      const res = await authFetch('/api/transactions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accounts: [account], ...(engine ? { engine } : {}) }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({ error: 'Unknown error' }));
+        setError(body.error || `HTTP ${res.status}`);
+        setImporting(false);
+        setProgress(null);
+        return;
+      }
+
+      readSSEStream(
+        res,
+        (event) => {
+          switch (event.type) {
+            case 'account_status':
+              if (event.data.status === 'error' || event.data.status === 'login_failed') setError(event.data.message);
+              setProgress(event.data.message);
+              break;
+            case 'error':
+              setError(event.message);
+              break;
+          }
+        },
+        () => {
+          setImporting(false);
+          loadReport(account);
+        },
+        (msg) => setError(msg),
+      );
+    } catch (err: any) {
+      setError(err.message || 'Network error');
+      setImporting(false);
+    }
+  };
+
+  const totalCost = report?.scripts.reduce((sum, s) => sum + s.totalCost, 0) ?? 0;
+
+  // ── Render ─────────────────────────────────────────────────────────────
+
+  return (
+    <div className="cred-manager">
+      <div className="cred-header" onClick={() => setCollapsed(!collapsed)}>
+        <div className="cred-header-left">
+          <h2>Cost Basis (WACC)</h2>
+          {!collapsed && report && (
+            <span className="cred-count">
+              {report.scripts.length} script{report.scripts.length !== 1 ? 's' : ''} · imported{' '}
+              {new Date(report.importedAt).toLocaleString()}
+            </span>
+          )}
+        </div>
+        <button className="cred-collapse-btn" title={collapsed ? 'Expand' : 'Collapse'}>
+          {collapsed ? '▸' : '▾'}
+        </button>
+      </div>
+
+      {!collapsed && (
+        <div className="cred-content">
+          <p className="schedule-hint">
+            Imports My Transaction History and My Purchase Source, then works out the weighted average cost of each
+            script. IPO allotments count at the issue price and bonus shares at no cost.
+          </p>
+
+          <div className="schedule-form">
+            <div className="control-group">
+              <label htmlFor="wacc-account">Account</label>
+              <select id="wacc-account" value={account} onChange={(e) => setAccount(e.target.value)} disabled={importing}>
+                {accounts.map((a) => (
+                  <option key={a.name} value={a.name}>{a.name}</option>
+                ))}
+              </select>
+            </div>
+            <button className="run-btn" onClick={handleImport} disabled={importing || !account}>
+              {importing ? 'Importing...' : report ? 'Re-import History' : 'Import History'}
+            </button>
+          </div>
+
+          {importing && progress && <p className="schedule-hint">{progress}</p>}
+          {error && <div className="error-banner">{error}</div>}
+          {notImported && !importing && (
+            <p className="schedule-hint">No transaction history imported for {account} yet.</p>
+          )}
+
+          {report && (
+            <table className="results-table wacc-table">
+              <thead>
+                <tr>
+                  <th>Scrip</th>
+                  <th className="num">Units</th>
+                  <th className="num">WACC</th>
+                  <th className="num">Total Cost</th>
+                  <th>Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.scripts.length === 0 ? (
+                  <tr>
+                    <td colSpan={5}>No holdings in the transaction history</td>
+                  </tr>
+                ) : report.scripts.map((s) => (
+                  <tr key={s.script}>
+                    <td>{s.script}</td>
+                    <td className="num">{s.quantity.toLocaleString('en-IN')}</td>
+                    <td className="num">{s.averageCost !== undefined ? rupees(s.averageCost) : '—'}</td>
+                    <td className="num">{rupees(s.totalCost)}</td>
+                    <td className="remarks-cell">
+                      {s.unpricedQuantity > 0 ? `${s.unpricedQuantity.toLocaleString('en-IN')} unit(s) with no known cost` : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              {report.scripts.length > 0 && (
+                <tfoot>
+                  <tr>
+                    <td colSpan={3}>Total cost</td>
+                    <td className="num">{rupees(totalCost)}</td>
+                    <td />
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
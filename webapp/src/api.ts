@@ -0,0 +1,112 @@
+import type { AutomationEngine, AutomationEvent } from './types';
+
+// ── Auth helpers ──────────────────────────────────────────────────────────────
+
+const AUTH_TOKEN_KEY = 'meroshare_auth_token';
+
+function getAuthToken(): string | null {
+  return localStorage.getItem(AUTH_TOKEN_KEY);
+}
+
+export function setAuthToken(token: string) {
+  localStorage.setItem(AUTH_TOKEN_KEY, token);
+}
+
+export function clearAuthToken() {
+  localStorage.removeItem(AUTH_TOKEN_KEY);
+}
+
+export function authHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  const token = getAuthToken();
+  const headers: Record<string, string> = { ...extra };
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+export function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(url, {
+    ...init,
+    headers: {
+      ...authHeaders(),
+      ...(init.headers as Record<string, string> || {}),
+    },
+  });
+}
+
+/** Download a file from an authenticated endpoint; rejects with the server's error message */
+export async function downloadFile(url: string, filename: string): Promise<void> {
+  const res = await authFetch(url);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+    throw new Error(body.error || `HTTP ${res.status}`);
+  }
+  const objectUrl = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
+
+// ── Engine preference ─────────────────────────────────────────────────────────
+
+const ENGINE_KEY = 'meroshare_engine';
+
+/** Engine chosen in the UI, or null to let the server use its default */
+export function getEnginePreference(): AutomationEngine | null {
+  const value = localStorage.getItem(ENGINE_KEY);
+  return value === 'api' || value === 'browser' ? value : null;
+}
+
+export function setEnginePreference(engine: AutomationEngine | null) {
+  if (engine) localStorage.setItem(ENGINE_KEY, engine);
+  else localStorage.removeItem(ENGINE_KEY);
+}
+
+// ── SSE ───────────────────────────────────────────────────────────────────────
+
+/** Generic SSE reader */
+export function readSSEStream(
+  res: Response,
+  onEvent: (event: AutomationEvent) => void,
+  onDone: () => void,
+  onError: (msg: string) => void,
+) {
+  const reader = res.body?.getReader();
+  if (!reader) {
+    onError('No response body');
+    onDone();
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  (async () => {
+    try {
+      while (true) {
+        const { done: readerDone, value } = await reader.read();
+        if (readerDone) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line.startsWith('data: ')) {
+            try {
+              const event: AutomationEvent = JSON.parse(line.slice(6));
+              onEvent(event);
+            } catch {
+              /* ignore parse errors */
+            }
+          }
+        }
+      }
+    } catch (e: any) {
+      onError(e.message);
+    } finally {
+      onDone();
+    }
+  })();
+}
@@ -12,6 +12,10 @@ export interface StoredCredential {
   password: string;
   CRN: string;
   TPIN?: string;
+  /** Bank to apply from when several are linked (default: the first) */
+  bankName?: string;
+  /** Account number at that bank (default: the first) */
+  accountNumber?: string;
 }
 
 export type CredentialsMap = Record<string, StoredCredential>;
@@ -19,11 +23,110 @@ export type CredentialsMap = Record<string, StoredCredential>;
 export type AutomationEvent =
   | { type: 'log'; message: string }
   | { type: 'issue'; data: IssueRow }
+  | { type: 'issue_matrix'; data: IssueMatrix }
   | { type: 'report'; data: ReportRow }
   | { type: 'apply_success'; message: string }
+  | { type: 'apply_result'; data: ApplyResult }
+  | { type: 'verification'; data: Verification }
   | { type: 'account_status'; data: AccountStatus }
+  | { type: 'artifact'; data: ArtifactInfo }
+  | { type: 'receipt'; data: Receipt }
+  | { type: 'allotment'; data: AllotmentResult }
+  | { type: 'holding'; data: Holding }
+  | { type: 'wacc'; data: ScriptWacc }
+  | { type: 'report_record'; data: ReportRecord }
+  | { type: 'job'; data: JobUpdate }
+  | { type: 'cancelled'; message: string }
   | { type: 'done' }
-  | { type: 'error'; message: string };
+  | { type: 'error'; message: string; violation?: KittaViolation };
+
+/** Evidence of a submitted application, kept with its job */
+export interface Receipt {
+  account: string;
+  companyName: string;
+  appliedKitta: number;
+  amount?: number;
+  bank: string;
+  accountNumber: string;
+  outcome: ApplyOutcome;
+  message: string;
+  submittedAt: string;
+  /** Confirmation screenshot (browser engine only) */
+  screenshot?: string;
+}
+
+/** One account's allotment result for a company, from POST /api/allotment */
+export interface AllotmentResult {
+  account: string;
+  companyName: string;
+  status: 'allotted' | 'not_allotted' | 'pending' | 'not_applied';
+  appliedKitta?: number;
+  /** 0 when not allotted; missing when the result didn't say */
+  allottedKitta?: number;
+  message: string;
+  provider: string;
+}
+
+/** One script held by an account, from POST /api/portfolio */
+export interface Holding {
+  account: string;
+  script: string;
+  companyName?: string;
+  currentBalance: number;
+  previousClosingPrice?: number;
+  /** Rs, current balance × previous closing price */
+  previousCloseValue: number;
+  /** Last transaction price */
+  ltp?: number;
+  /** Rs, current balance × LTP */
+  ltpValue: number;
+}
+
+/** Weighted average cost of one script in one account */
+export interface ScriptWacc {
+  account: string;
+  script: string;
+  quantity: number;
+  /** Rs paid for the units with a known cost */
+  totalCost: number;
+  /** Rs per unit; missing when no unit has a known cost */
+  averageCost?: number;
+  /** Units whose purchase price wasn't found */
+  unpricedQuantity: number;
+}
+
+/** From GET /api/accounts/:name/wacc */
+export interface WaccReport {
+  account: string;
+  importedAt: string;
+  transactions: number;
+  purchases: number;
+  scripts: ScriptWacc[];
+}
+
+/** One Application Report entry with its details, as exported */
+export interface ReportRecord {
+  account: string;
+  companyName: string;
+  scrip?: string;
+  shareType: string;
+  subGroup?: string;
+  appliedDate?: string;
+  appliedKitta?: number;
+  amount?: number;
+  status: string;
+  remarks?: string;
+  receivedKitta?: number;
+}
+
+export type ReportExportFormat = 'csv' | 'xlsx' | 'json';
+
+/** Saved when an apply failed on an account — fetch from GET /api/jobs/:id/artifacts/:name */
+export interface ArtifactInfo {
+  name: string;
+  kind: 'screenshot' | 'html' | 'trace';
+  account: string;
+}
 
 export interface ReportRow {
   index: number;
@@ -35,19 +138,46 @@ export interface ReportRow {
 }
 
 export interface IssueRow {
+  /** Stable ID to apply with — Meroshare's companyShareId, or a hash when unknown */
+  id: string;
   name: string;
   subGroup: string;
   shareType: string;
   shareGroup: string;
   hasApplyButton: boolean;
+  /** Set on bulk scans: the account the issue was seen on */
+  account?: string;
+  // From the apply form — missing when the scan couldn't read them
+  openDate?: string;
+  closeDate?: string;
+  pricePerUnit?: number;
+  minUnit?: number;
+  maxUnit?: number;
+  multipleOf?: number;
+  issueManager?: string;
 }
 
+/** Where one account stands on an issue in a family scan */
+export type IssueAccountState = 'can_apply' | 'already_applied' | 'not_listed';
+
+/** Every issue against every scanned account, sent at the end of POST /api/bulk-scan */
+export interface IssueMatrix {
+  accounts: string[];
+  issues: { issue: IssueRow; states: Record<string, IssueAccountState> }[];
+}
+
+/** How the server talks to Meroshare — see server/engines.ts */
+export type AutomationEngine = 'browser' | 'api';
+
 export interface ApplyRequest {
   account: string;
   companyName: string;
-  companyIndex: number;
+  issueId: string;
   appliedKitta: string;
   transactionPIN: string;
+  /** Fill in the form but stop before the transaction PIN */
+  dryRun?: boolean;
+  engine?: AutomationEngine;
 }
 
 export interface BulkApplyRequest {
@@ -55,12 +185,115 @@ export interface BulkApplyRequest {
   companyName: string;
   appliedKitta: string;
   transactionPIN: string;
+  /** Fill in the form but stop before the transaction PIN */
+  dryRun?: boolean;
+  engine?: AutomationEngine;
 }
 
-export type AccountStatusType = 'pending' | 'running' | 'already_applied' | 'success' | 'error' | 'login_failed';
+export type AccountStatusType =
+  | 'pending' | 'running' | 'already_applied' | 'success' | 'error' | 'login_failed' | 'cancelled' | 'would_apply'
+  | 'unconfirmed';
 
 export interface AccountStatus {
   account: string;
   status: AccountStatusType;
   message: string;
+  /** Set when applied kitta broke the issue's rules */
+  violation?: KittaViolation;
+  /** Set with `would_apply`: what a dry run stopped short of submitting */
+  preview?: ApplicationPreview;
+  /** Set once an application was submitted: how Meroshare answered */
+  outcome?: ApplyOutcome;
+  /** Set once the Application Report was checked after applying */
+  verification?: Verification['result'];
+  /** Set when the account logs in as another account of the run, which applies for both */
+  duplicateOf?: string;
+}
+
+export type ApplyOutcome = 'success' | 'already_applied' | 'insufficient_balance' | 'invalid_pin' | 'issue_closed' | 'unknown';
+
+export interface ApplyResult {
+  account: string;
+  companyName: string;
+  outcome: ApplyOutcome;
+  message: string;
+  statusCode?: number;
+}
+
+/** Whether the Application Report confirmed an application after it was submitted */
+export interface Verification {
+  account: string;
+  companyName: string;
+  result: 'verified' | 'unverified';
+  reportStatus?: string;
+  appliedKitta?: number;
+  message: string;
+}
+
+export interface ApplicationPreview {
+  companyName: string;
+  bank: string;
+  accountNumber: string;
+  branch?: string;
+  appliedKitta: number;
+  amount?: number;
+  crn: string;
+}
+
+/** Which issue rule applied kitta (or the amount worked out from it) broke */
+export interface KittaViolation {
+  field: 'appliedKitta' | 'amount';
+  rule: 'numeric' | 'min' | 'max' | 'multiple' | 'amount';
+  value: string;
+  expected: string;
+}
+
+export type JobType =
+  | 'run' | 'scan' | 'bulk-scan' | 'apply' | 'bulk-apply' | 'auto-apply' | 'allotment' | 'portfolio' | 'transactions' | 'report-export';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** Job status change, streamed as a `job` event */
+export interface JobUpdate {
+  id: string;
+  status: JobStatus;
+  /** 1-based place in the queue while waiting, 0 otherwise */
+  position: number;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  accounts: string[];
+  params: Record<string, unknown>;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+  position: number;
+}
+
+export interface Schedule {
+  id: string;
+  name: string;
+  /** Five-field cron expression, evaluated in Nepal time */
+  cron: string;
+  enabled: boolean;
+  scanAccount: string;
+  createdAt: string;
+  lastRunAt: string | null;
+}
+
+export interface AccountRule {
+  enabled: boolean;
+  shareTypes: string[];
+  defaultKitta: number;
+  maxAmount: number | null;
+}
+
+export interface SchedulerSettings {
+  schedules: Schedule[];
+  rules: Record<string, AccountRule>;
+  defaultCron: string;
 }